@@ -0,0 +1,126 @@
+import { renderWithDiagnostics, RenderOptions } from '../index';
+import { Diagram } from '../core/Diagram';
+import { Diagnostic } from '../core/Diagnostic';
+
+/** Detail of the `render` and `error` events of a diagram element */
+export interface DiagramElementEventDetail {
+    svg: string;
+    diagram?: Diagram;
+    diagnostics: Diagnostic[];
+}
+
+/**
+ * `<seeduml-diagram>`: renders the diagram source it contains and renders it
+ * again whenever the text or the `theme`, `type` or `safe` attributes change.
+ * Fires `render` after each rendering, or `error` when the source has errors.
+ */
+export interface SeedumlDiagramElement extends HTMLElement {
+    /** Diagram source; the element's text content */
+    source: string;
+    /** SVG of the last rendering */
+    readonly svg: string;
+    /** Model of the last rendering; missing when the source could not be parsed */
+    readonly diagram?: Diagram;
+    /** Applied under the attributes, e.g. an include resolver or text measurer */
+    renderOptions: RenderOptions;
+}
+
+const OBSERVED_ATTRIBUTES = ['theme', 'type', 'safe'];
+
+// HTMLElement only exists in browsers, so the class is created on first definition
+function createDiagramElementClass() {
+    return class extends HTMLElement implements SeedumlDiagramElement {
+        static observedAttributes = OBSERVED_ATTRIBUTES;
+
+        private root: ShadowRoot;
+        private observer: MutationObserver;
+        private options: RenderOptions = {};
+        private rendered: { svg: string, diagram?: Diagram } = { svg: '' };
+        // Source and options of the last rendering, so repeated notifications render once
+        private renderedKey?: string;
+
+        constructor() {
+            super();
+            // The source stays in the light DOM, hidden behind the rendered diagram
+            this.root = this.attachShadow({ mode: 'open' });
+            this.observer = new MutationObserver(() => this.update());
+        }
+
+        get source(): string {
+            return this.textContent ?? '';
+        }
+
+        set source(value: string) {
+            this.textContent = value;
+            this.update();
+        }
+
+        get svg(): string {
+            return this.rendered.svg;
+        }
+
+        get diagram(): Diagram | undefined {
+            return this.rendered.diagram;
+        }
+
+        get renderOptions(): RenderOptions {
+            return this.options;
+        }
+
+        set renderOptions(options: RenderOptions) {
+            this.options = options;
+            this.renderedKey = undefined;
+            this.update();
+        }
+
+        connectedCallback() {
+            this.observer.observe(this, { childList: true, characterData: true, subtree: true });
+            this.update();
+        }
+
+        disconnectedCallback() {
+            this.observer.disconnect();
+        }
+
+        attributeChangedCallback() {
+            this.update();
+        }
+
+        private currentOptions(): RenderOptions {
+            const safe = this.getAttribute('safe');
+            return {
+                ...this.options,
+                themeName: this.getAttribute('theme') || this.options.themeName,
+                type: this.getAttribute('type') || this.options.type,
+                safe: safe === null ? this.options.safe : safe !== 'false'
+            };
+        }
+
+        private update() {
+            if (!this.isConnected) return;
+            const source = this.source;
+            const options = this.currentOptions();
+            const key = JSON.stringify([source, options.themeName, options.type, options.safe]);
+            if (key === this.renderedKey) return;
+            this.renderedKey = key;
+
+            const { diagram, diagnostics, svg } = renderWithDiagnostics(source, options);
+            this.rendered = { svg, diagram };
+            this.root.innerHTML = `<style>:host { display: inline-block; }</style>${svg}`;
+
+            const failed = diagnostics.some(d => d.severity === 'error');
+            const detail: DiagramElementEventDetail = { svg, diagram, diagnostics };
+            this.dispatchEvent(new CustomEvent(failed ? 'error' : 'render', { detail }));
+        }
+    };
+}
+
+/**
+ * Registers the `<seeduml-diagram>` custom element (or the same element
+ * under another tag name). Does nothing outside browsers or when the tag
+ * is already defined.
+ */
+export function defineDiagramElement(tagName: string = 'seeduml-diagram'): void {
+    if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+    customElements.define(tagName, createDiagramElementClass());
+}
@@ -0,0 +1,149 @@
+import { renderWithDiagnostics, RenderOptions } from '../index';
+import { Diagnostic } from '../core/Diagnostic';
+
+/** Render options that can be posted to a worker; functions cannot cross the boundary */
+export type WorkerRenderOptions = Omit<RenderOptions, 'includeResolver' | 'textMeasurer'>;
+
+export interface WorkerRenderResult {
+    svg: string;
+    diagnostics: Diagnostic[];
+}
+
+export type WorkerRequest =
+    | { type: 'render', id: number, source: string, options: WorkerRenderOptions }
+    | { type: 'cancel', id: number };
+
+export type WorkerResponse =
+    | { id: number, svg: string, diagnostics: Diagnostic[] }
+    | { id: number, error: string };
+
+/** The side of a message channel that a worker or its scope exposes */
+export interface RenderChannel<Out, In> {
+    postMessage(message: Out): void;
+    addEventListener(type: 'message', listener: (event: { data: In }) => void): void;
+}
+
+/** The failures a worker reports besides its messages: script errors and messages it cannot read */
+export interface WorkerErrorSource {
+    addEventListener(type: 'error' | 'messageerror', listener: (event: { message?: string }) => void): void;
+}
+
+/** Rejects renders that were superseded or cancelled before the worker reached them */
+export class RenderCancelledError extends Error {
+    constructor() {
+        super('Rendering was cancelled');
+        this.name = 'RenderCancelledError';
+    }
+}
+
+/**
+ * Renders diagrams in a Web Worker running the seeduml worker script, so
+ * parsing and layout do not block the page:
+ *
+ *     const renderer = new WorkerRenderer(new Worker('dist/seeduml.worker.js'));
+ *     const { svg } = await renderer.render(source, {}, 'editor');
+ *
+ * Renders sharing a key replace each other: starting a new one cancels the
+ * previous one if the worker has not started it yet.
+ */
+export class WorkerRenderer {
+    private nextId = 0;
+    private pending = new Map<number, { resolve: (result: WorkerRenderResult) => void, reject: (error: Error) => void }>();
+    private keys = new Map<string, number>();
+
+    constructor(private worker: RenderChannel<WorkerRequest, WorkerResponse> & WorkerErrorSource & { terminate?(): void }) {
+        worker.addEventListener('message', event => this.receive(event.data));
+        // Neither failure says which render it belongs to, so every pending render fails
+        worker.addEventListener('error', event => this.failAll(`Rendering worker failed: ${event.message || 'script error'}`));
+        worker.addEventListener('messageerror', () => this.failAll('Rendering worker sent a message that could not be read'));
+    }
+
+    render(source: string, options: RenderOptions = {}, key?: string): Promise<WorkerRenderResult> {
+        if (key !== undefined) this.cancel(key);
+        const id = this.nextId++;
+        if (key !== undefined) this.keys.set(key, id);
+
+        const { includeResolver, textMeasurer, ...cloneable } = options;
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+            this.worker.postMessage({ type: 'render', id, source, options: cloneable });
+        });
+    }
+
+    /** Cancels the pending render started under a key */
+    cancel(key: string): void {
+        const id = this.keys.get(key);
+        if (id === undefined) return;
+        this.keys.delete(key);
+        this.settle(id)?.reject(new RenderCancelledError());
+        this.worker.postMessage({ type: 'cancel', id });
+    }
+
+    /** Stops the worker, cancelling every pending render */
+    terminate(): void {
+        [...this.pending.keys()].forEach(id => this.settle(id)?.reject(new RenderCancelledError()));
+        this.worker.terminate?.();
+    }
+
+    private failAll(message: string) {
+        [...this.pending.keys()].forEach(id => this.settle(id)?.reject(new Error(message)));
+    }
+
+    private receive(response: WorkerResponse) {
+        const job = this.settle(response.id);
+        if (!job) return;
+        if ('error' in response) {
+            job.reject(new Error(response.error));
+        } else {
+            job.resolve({ svg: response.svg, diagnostics: response.diagnostics });
+        }
+    }
+
+    private settle(id: number) {
+        const job = this.pending.get(id);
+        this.pending.delete(id);
+        this.keys.forEach((keyId, key) => {
+            if (keyId === id) this.keys.delete(key);
+        });
+        return job;
+    }
+}
+
+/**
+ * Answers render requests posted to a worker scope. Requests are queued and
+ * run one per task, so cancellations posted meanwhile are seen before a
+ * stale request is rendered.
+ */
+export function serveRenderRequests(scope: RenderChannel<WorkerResponse, WorkerRequest>): void {
+    const queue = new Map<number, { source: string, options: WorkerRenderOptions }>();
+    let scheduled = false;
+
+    const runNext = () => {
+        scheduled = false;
+        const next = queue.entries().next();
+        if (next.done) return;
+        const [id, { source, options }] = next.value;
+        queue.delete(id);
+        try {
+            const { svg, diagnostics } = renderWithDiagnostics(source, options);
+            scope.postMessage({ id, svg, diagnostics });
+        } catch (e: any) {
+            scope.postMessage({ id, error: e?.message || String(e) });
+        }
+        schedule();
+    };
+    const schedule = () => {
+        if (scheduled || queue.size === 0) return;
+        scheduled = true;
+        setTimeout(runNext, 0);
+    };
+
+    scope.addEventListener('message', ({ data }) => {
+        if (data.type === 'cancel') {
+            queue.delete(data.id);
+        } else {
+            queue.set(data.id, { source: data.source, options: data.options });
+            schedule();
+        }
+    });
+}
@@ -0,0 +1,4 @@
+import { serveRenderRequests } from './WorkerRenderer';
+
+// Entry point of dist/seeduml.worker.js, loaded with `new Worker(...)`
+serveRenderRequests(self as any);
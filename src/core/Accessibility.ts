@@ -0,0 +1,40 @@
+import { scopedId } from './Renderer';
+import { parseRichTextRuns } from './RichText';
+import { escapeXml } from './SafeMode';
+
+/** A label as screen readers should hear it: no markup, on one line */
+export function plainText(text: string): string {
+    return parseRichTextRuns(text.replace(/\\n/g, ' '))
+        .map(run => run.text)
+        .join('')
+        .replace(/<\/?[a-z][^>]*>/gi, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/** "1 participant", "4 participants" */
+export function countOf(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/** `<title>` announced for a single element of the diagram */
+export function elementTitle(text: string): string {
+    return `<title>${escapeXml(plainText(text))}</title>`;
+}
+
+/**
+ * Accessible name and description of a whole diagram: attributes for the
+ * root `<svg>` and the `<title>`/`<desc>` elements they point at. When
+ * `interactions` are given they are listed in the description, one per
+ * numbered line, as a text alternative to the drawing.
+ */
+export function diagramHeader(idPrefix: string, title: string, summary: string, interactions?: string[]): { attributes: string, content: string } {
+    const titleId = scopedId(idPrefix, 'title');
+    const descId = scopedId(idPrefix, 'desc');
+    const lines = [summary, ...(interactions ?? []).map((line, i) => `${i + 1}. ${line}`)];
+    return {
+        attributes: ` role="img" aria-labelledby="${titleId}" aria-describedby="${descId}"`,
+        content: `<title id="${titleId}">${escapeXml(plainText(title))}</title>`
+            + `<desc id="${descId}">${lines.map(escapeXml).join('\n')}</desc>`
+    };
+}
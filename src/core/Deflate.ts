@@ -0,0 +1,266 @@
+/**
+ * Raw DEFLATE (RFC 1951) in plain TypeScript, so PlantUML URLs can be encoded
+ * and decoded in browsers without zlib.
+ */
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+// Order in which code length code lengths are stored in dynamic blocks
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 64;
+
+/** Canonical Huffman code: number of codes per length and symbols in code order */
+interface Huffman {
+    counts: number[];
+    symbols: number[];
+}
+
+function buildHuffman(lengths: number[]): Huffman {
+    const counts = new Array(16).fill(0);
+    lengths.forEach(len => counts[len]++);
+    counts[0] = 0;
+
+    const offsets = new Array(16).fill(0);
+    for (let len = 1; len < 15; len++) offsets[len + 1] = offsets[len] + counts[len];
+    const symbols: number[] = [];
+    lengths.forEach((len, symbol) => {
+        if (len !== 0) symbols[offsets[len]++] = symbol;
+    });
+    return { counts, symbols };
+}
+
+const FIXED_LITERALS = buildHuffman(Array.from({ length: 288 }, (_, i) => i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8));
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+class BitReader {
+    private pos = 0;
+    private bitBuffer = 0;
+    private bitCount = 0;
+
+    constructor(private data: Uint8Array) { }
+
+    bits(n: number): number {
+        while (this.bitCount < n) {
+            if (this.pos >= this.data.length) throw new Error('Unexpected end of compressed data');
+            this.bitBuffer |= this.data[this.pos++] << this.bitCount;
+            this.bitCount += 8;
+        }
+        const value = this.bitBuffer & ((1 << n) - 1);
+        this.bitBuffer >>>= n;
+        this.bitCount -= n;
+        return value;
+    }
+
+    /** Drops the bits left in the current byte */
+    alignToByte(): void {
+        this.bitBuffer = 0;
+        this.bitCount = 0;
+    }
+
+    byte(): number {
+        if (this.pos >= this.data.length) throw new Error('Unexpected end of compressed data');
+        return this.data[this.pos++];
+    }
+
+    decode(h: Huffman): number {
+        let code = 0;
+        let first = 0;
+        let index = 0;
+        for (let len = 1; len <= 15; len++) {
+            code |= this.bits(1);
+            const count = h.counts[len];
+            if (code - first < count) return h.symbols[index + code - first];
+            index += count;
+            first = (first + count) << 1;
+            code <<= 1;
+        }
+        throw new Error('Invalid Huffman code');
+    }
+}
+
+function readDynamicTables(reader: BitReader): [Huffman, Huffman] {
+    const literalCount = reader.bits(5) + 257;
+    const distanceCount = reader.bits(5) + 1;
+    const codeLengthCount = reader.bits(4) + 4;
+
+    const codeLengthLengths = new Array(19).fill(0);
+    for (let i = 0; i < codeLengthCount; i++) codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+    const codeLengths = buildHuffman(codeLengthLengths);
+
+    const lengths: number[] = [];
+    while (lengths.length < literalCount + distanceCount) {
+        const symbol = reader.decode(codeLengths);
+        if (symbol < 16) {
+            lengths.push(symbol);
+        } else if (symbol === 16) {
+            if (lengths.length === 0) throw new Error('Invalid code length repeat');
+            const previous = lengths[lengths.length - 1];
+            for (let n = 3 + reader.bits(2); n > 0; n--) lengths.push(previous);
+        } else {
+            for (let n = symbol === 17 ? 3 + reader.bits(3) : 11 + reader.bits(7); n > 0; n--) lengths.push(0);
+        }
+    }
+    if (lengths.length > literalCount + distanceCount) throw new Error('Too many code lengths');
+    return [buildHuffman(lengths.slice(0, literalCount)), buildHuffman(lengths.slice(literalCount))];
+}
+
+/** Thrown when a decoded source would be longer than the limit its decoder was given */
+export class DecodedSourceTooLargeError extends Error {
+    constructor(public limit: number) {
+        super(`Decoded source is longer than ${limit} bytes`);
+        this.name = 'DecodedSourceTooLargeError';
+    }
+}
+
+/**
+ * Decompresses raw DEFLATE data. Bytes after the final block are ignored.
+ * @throws DecodedSourceTooLargeError once the output grows past `maxOutputLength`
+ */
+export function inflate(data: Uint8Array, maxOutputLength = Infinity): Uint8Array {
+    const reader = new BitReader(data);
+    const out: number[] = [];
+    let final = 0;
+
+    while (!final) {
+        final = reader.bits(1);
+        const type = reader.bits(2);
+        if (type === 0) {
+            reader.alignToByte();
+            const length = reader.byte() | (reader.byte() << 8);
+            const inverse = reader.byte() | (reader.byte() << 8);
+            if ((length ^ 0xffff) !== inverse) throw new Error('Invalid stored block length');
+            for (let i = 0; i < length; i++) out.push(reader.byte());
+            if (out.length > maxOutputLength) throw new DecodedSourceTooLargeError(maxOutputLength);
+            continue;
+        }
+        if (type === 3) throw new Error('Invalid block type');
+
+        const [literals, distances] = type === 1 ? [FIXED_LITERALS, FIXED_DISTANCES] : readDynamicTables(reader);
+        for (;;) {
+            const symbol = reader.decode(literals);
+            if (symbol < 256) {
+                out.push(symbol);
+            } else if (symbol === 256) {
+                break;
+            } else {
+                const li = symbol - 257;
+                if (li >= LENGTH_BASE.length) throw new Error('Invalid length code');
+                const length = LENGTH_BASE[li] + reader.bits(LENGTH_EXTRA[li]);
+                const di = reader.decode(distances);
+                if (di >= DIST_BASE.length) throw new Error('Invalid distance code');
+                const distance = DIST_BASE[di] + reader.bits(DIST_EXTRA[di]);
+                if (distance > out.length) throw new Error('Distance too far back');
+                const start = out.length - distance;
+                for (let i = 0; i < length; i++) out.push(out[start + i]);
+            }
+            if (out.length > maxOutputLength) throw new DecodedSourceTooLargeError(maxOutputLength);
+        }
+    }
+    return Uint8Array.from(out);
+}
+
+class BitWriter {
+    private out: number[] = [];
+    private bitBuffer = 0;
+    private bitCount = 0;
+
+    bits(value: number, n: number): void {
+        this.bitBuffer |= value << this.bitCount;
+        this.bitCount += n;
+        while (this.bitCount >= 8) {
+            this.out.push(this.bitBuffer & 0xff);
+            this.bitBuffer >>>= 8;
+            this.bitCount -= 8;
+        }
+    }
+
+    /** Huffman codes are packed starting with their most significant bit */
+    code(code: number, length: number): void {
+        let reversed = 0;
+        for (let i = 0; i < length; i++) reversed |= ((code >> i) & 1) << (length - 1 - i);
+        this.bits(reversed, length);
+    }
+
+    finish(): Uint8Array {
+        if (this.bitCount > 0) this.out.push(this.bitBuffer & 0xff);
+        return Uint8Array.from(this.out);
+    }
+}
+
+function writeFixedLiteral(writer: BitWriter, symbol: number): void {
+    if (symbol < 144) writer.code(0x30 + symbol, 8);
+    else if (symbol < 256) writer.code(0x190 + symbol - 144, 9);
+    else if (symbol < 280) writer.code(symbol - 256, 7);
+    else writer.code(0xc0 + symbol - 280, 8);
+}
+
+function findCode(bases: number[], value: number): number {
+    let i = bases.length - 1;
+    while (bases[i] > value) i--;
+    return i;
+}
+
+/**
+ * Compresses data as a single raw DEFLATE block with fixed Huffman codes,
+ * using hash-chained LZ77 matching. Diagram sources are short, so the
+ * gain from dynamic codes would be small.
+ */
+export function deflate(data: Uint8Array): Uint8Array {
+    const writer = new BitWriter();
+    writer.bits(1, 1); // final block
+    writer.bits(1, 2); // fixed Huffman codes
+
+    const head = new Map<number, number>();
+    const previous = new Int32Array(data.length).fill(-1);
+    const hashAt = (i: number) => (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    const insert = (i: number) => {
+        if (i + MIN_MATCH > data.length) return;
+        const hash = hashAt(i);
+        previous[i] = head.get(hash) ?? -1;
+        head.set(hash, i);
+    };
+
+    let i = 0;
+    while (i < data.length) {
+        let bestLength = 0;
+        let bestDistance = 0;
+        if (i + MIN_MATCH <= data.length) {
+            let candidate = head.get(hashAt(i)) ?? -1;
+            const maxLength = Math.min(MAX_MATCH, data.length - i);
+            for (let chain = 0; candidate >= 0 && i - candidate <= WINDOW_SIZE && chain < MAX_CHAIN; chain++) {
+                let length = 0;
+                while (length < maxLength && data[candidate + length] === data[i + length]) length++;
+                if (length > bestLength) {
+                    bestLength = length;
+                    bestDistance = i - candidate;
+                    if (length === maxLength) break;
+                }
+                candidate = previous[candidate];
+            }
+        }
+
+        if (bestLength >= MIN_MATCH) {
+            const li = findCode(LENGTH_BASE, bestLength);
+            writeFixedLiteral(writer, 257 + li);
+            writer.bits(bestLength - LENGTH_BASE[li], LENGTH_EXTRA[li]);
+            const di = findCode(DIST_BASE, bestDistance);
+            writer.code(di, 5);
+            writer.bits(bestDistance - DIST_BASE[di], DIST_EXTRA[di]);
+            for (let k = 0; k < bestLength; k++) insert(i + k);
+            i += bestLength;
+        } else {
+            writeFixedLiteral(writer, data[i]);
+            insert(i);
+            i++;
+        }
+    }
+
+    writeFixedLiteral(writer, 256);
+    return writer.finish();
+}
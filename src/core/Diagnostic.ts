@@ -0,0 +1,48 @@
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A problem found while processing diagram source.
+ * Lines and columns are 1-based; `endColumn` is exclusive.
+ */
+export interface Diagnostic {
+    severity: DiagnosticSeverity;
+    line: number;
+    column: number;
+    endColumn: number;
+    message: string;
+    /** The offending source text */
+    source: string;
+    /** Files the problem was found in, from the including source inward */
+    includeChain?: string[];
+}
+
+/**
+ * Creates a diagnostic covering the non-blank part of a source line.
+ * @param lineIndex 0-based index of the line in the source
+ * @param rawLine The untrimmed source line
+ */
+export function createDiagnostic(severity: DiagnosticSeverity, lineIndex: number, rawLine: string, message: string): Diagnostic {
+    const source = rawLine.trim();
+    const column = source ? rawLine.indexOf(source) + 1 : 1;
+    return {
+        severity,
+        line: lineIndex + 1,
+        column,
+        endColumn: column + source.length,
+        message,
+        source
+    };
+}
+
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+    return diagnostics.some(d => d.severity === 'error');
+}
+
+/**
+ * The error thrown for a diagnostic, e.g. by Parser.parse(). The offending
+ * text is added when the message does not already quote it.
+ */
+export function diagnosticError(diagnostic: Diagnostic): Error {
+    const context = diagnostic.source && !diagnostic.message.includes(diagnostic.source) ? ` (${diagnostic.source})` : '';
+    return new Error(`Line ${diagnostic.line}: ${diagnostic.message}${context}`);
+}
@@ -1,3 +1,9 @@
 export interface Diagram {
     type: string;
 }
+
+/** 1-based lines of the diagram source an element was parsed from */
+export interface SourceRange {
+    sourceLine?: number;
+    sourceEnd?: number;
+}
@@ -0,0 +1,67 @@
+/** One `@startXXX ... @endXXX` block of a document */
+export interface DiagramBlock {
+    /** Name from `@startuml name` or `@startuml(id=name)` */
+    name?: string;
+    /** Lower-cased start tag, e.g. `uml`; undefined for documents without markers */
+    tag?: string;
+    /** Block source, including its `@start`/`@end` lines */
+    source: string;
+    /** Character offset of the block in the document */
+    start: number;
+    /** Character offset just past the block's last line */
+    end: number;
+    /** 1-based line of the `@start` marker */
+    line: number;
+    /** 1-based line of the `@end` marker (or the last line if it is missing) */
+    endLine: number;
+}
+
+const START_MARKER = /^@start(\w+)(?:\s*\(\s*id\s*=\s*([^)]+?)\s*\)|\s+(\S.*?))?\s*$/i;
+const END_MARKER = /^@end\w+/i;
+
+/**
+ * Matches a `@startXXX` line and returns its tag and optional name.
+ */
+export function matchStartMarker(line: string): { tag: string, name?: string } | undefined {
+    const match = line.trim().match(START_MARKER);
+    if (!match) return undefined;
+    const name = match[2] ?? match[3];
+    return { tag: match[1].toLowerCase(), name: name ? name.replace(/^"(.*)"$/, '$1') : undefined };
+}
+
+/** Whether a line is an `@endXXX` marker */
+export function isEndMarker(line: string): boolean {
+    return END_MARKER.test(line.trim());
+}
+
+/**
+ * Splits a document into its diagram blocks. Text outside the blocks is
+ * ignored; a document without any `@start` marker is a single block.
+ */
+export function splitDiagrams(document: string): DiagramBlock[] {
+    const lines = document.split('\n');
+    const blocks: DiagramBlock[] = [];
+    let current: DiagramBlock | undefined;
+    let offset = 0;
+
+    lines.forEach((line, i) => {
+        const lineEnd = offset + line.replace(/\r$/, '').length;
+        const start = matchStartMarker(line);
+        if (start) {
+            // An unterminated block ends where the next one starts
+            current = { name: start.name, tag: start.tag, source: '', start: offset, end: lineEnd, line: i + 1, endLine: i + 1 };
+            blocks.push(current);
+        } else if (current) {
+            current.end = lineEnd;
+            current.endLine = i + 1;
+            if (isEndMarker(line)) current = undefined;
+        }
+        offset += line.length + 1;
+    });
+
+    if (blocks.length === 0) {
+        return [{ source: document, start: 0, end: document.length, line: 1, endLine: lines.length }];
+    }
+    blocks.forEach(block => block.source = document.substring(block.start, block.end));
+    return blocks;
+}
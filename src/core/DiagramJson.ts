@@ -0,0 +1,167 @@
+import { SourceRange } from './Diagram';
+import { Link } from './Link';
+
+/**
+ * Version of the JSON model format. Bumped whenever a change would make
+ * older readers misinterpret a model; see schema/seeduml-diagram.schema.json.
+ */
+export const DIAGRAM_JSON_VERSION = 1;
+
+/** Fields shared by the JSON models of every diagram type */
+export interface DiagramJson {
+    version: number;
+    /** Diagram type, e.g. 'sequence' or 'component' */
+    type: string;
+}
+
+/** A JSON model that does not match the format */
+export class DiagramJsonError extends Error {
+    /**
+     * @param path JSON Pointer to the offending value, e.g. `/messages/2/from`
+     */
+    constructor(readonly path: string, message: string) {
+        super(`${path || '/'}: ${message}`);
+        this.name = 'DiagramJsonError';
+    }
+}
+
+type JsonValueType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasType(value: unknown, type: JsonValueType): boolean {
+    switch (type) {
+        case 'integer': return Number.isInteger(value);
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'object': return isPlainObject(value);
+        case 'array': return Array.isArray(value);
+        default: return typeof value === type;
+    }
+}
+
+/**
+ * Reads the fields of one object of a JSON model, checking their types.
+ * Missing optional fields read as undefined; everything else that does not
+ * fit throws a DiagramJsonError naming the field.
+ */
+export class JsonReader {
+    private constructor(private data: Record<string, unknown>, readonly path: string) { }
+
+    static object(value: unknown, path: string = ''): JsonReader {
+        if (!isPlainObject(value)) throw new DiagramJsonError(path, 'expected an object');
+        return new JsonReader(value, path);
+    }
+
+    /** JSON Pointer of a field of this object */
+    pathOf(key: string | number): string {
+        return `${this.path}/${key}`;
+    }
+
+    private read(key: string, type: JsonValueType, required: boolean): any {
+        const value = this.data[key];
+        if (value === undefined) {
+            if (required) throw new DiagramJsonError(this.pathOf(key), 'is required');
+            return undefined;
+        }
+        if (!hasType(value, type)) throw new DiagramJsonError(this.pathOf(key), `expected ${type === 'integer' ? 'an integer' : `a ${type}`}`);
+        return value;
+    }
+
+    string(key: string): string {
+        return this.read(key, 'string', true);
+    }
+
+    optionalString(key: string): string | undefined {
+        return this.read(key, 'string', false);
+    }
+
+    integer(key: string): number {
+        return this.read(key, 'integer', true);
+    }
+
+    optionalInteger(key: string): number | undefined {
+        return this.read(key, 'integer', false);
+    }
+
+    number(key: string): number {
+        return this.read(key, 'number', true);
+    }
+
+    optionalBoolean(key: string): boolean | undefined {
+        return this.read(key, 'boolean', false);
+    }
+
+    enum<T extends string>(key: string, values: readonly T[]): T {
+        const value = this.string(key);
+        if (!values.includes(value as T)) throw new DiagramJsonError(this.pathOf(key), `expected one of ${values.join(', ')}`);
+        return value as T;
+    }
+
+    optionalEnum<T extends string>(key: string, values: readonly T[]): T | undefined {
+        return this.data[key] === undefined ? undefined : this.enum(key, values);
+    }
+
+    optionalStrings(key: string): string[] | undefined {
+        const items: unknown[] | undefined = this.read(key, 'array', false);
+        items?.forEach((item, i) => {
+            if (typeof item !== 'string') throw new DiagramJsonError(`${this.pathOf(key)}/${i}`, 'expected a string');
+        });
+        return items as string[] | undefined;
+    }
+
+    strings(key: string): string[] {
+        return this.optionalStrings(key) ?? [];
+    }
+
+    /** Reads an array of objects; a missing array reads as empty */
+    objects<T>(key: string, read: (item: JsonReader, index: number) => T): T[] {
+        const items: unknown[] = this.read(key, 'array', false) ?? [];
+        return items.map((item, i) => read(JsonReader.object(item, `${this.pathOf(key)}/${i}`), i));
+    }
+
+    optionalObject(key: string): JsonReader | undefined {
+        const value = this.read(key, 'object', false);
+        return value === undefined ? undefined : JsonReader.object(value, this.pathOf(key));
+    }
+
+    /** A free-form object such as theme overrides, copied */
+    record<T extends object>(key: string): T {
+        const value = this.read(key, 'object', false);
+        return value === undefined ? {} as T : toPlainJson(value);
+    }
+
+    keys(): string[] {
+        return Object.keys(this.data);
+    }
+
+    link(): Link | undefined {
+        const link = this.optionalObject('link');
+        return link && { url: link.string('url'), tooltip: link.optionalString('tooltip') };
+    }
+
+    sourceRange(): SourceRange {
+        return { sourceLine: this.optionalInteger('sourceLine'), sourceEnd: this.optionalInteger('sourceEnd') };
+    }
+}
+
+/**
+ * Checks the version and type of a JSON model.
+ * @returns A reader for the model's fields
+ */
+export function readDiagramJson(json: unknown, type?: string): JsonReader {
+    const model = JsonReader.object(json);
+    const version = model.integer('version');
+    if (version !== DIAGRAM_JSON_VERSION) {
+        throw new DiagramJsonError('/version', `unsupported version ${version}, expected ${DIAGRAM_JSON_VERSION}`);
+    }
+    const actualType = model.string('type');
+    if (type && actualType !== type) throw new DiagramJsonError('/type', `expected ${type}`);
+    return model;
+}
+
+/** Deep copy that drops undefined fields, as JSON.stringify() would */
+export function toPlainJson<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,154 @@
+import { Diagram } from './Diagram';
+import { DiagramJson } from './DiagramJson';
+import { StatementFormatter } from './Formatter';
+import { Parser, ParserOptions } from './Parser';
+import { Renderer, RendererOptions } from './Renderer';
+
+/**
+ * Describes a diagram type that can be plugged into the registry.
+ * Each definition owns its parser/renderer pair and decides for itself
+ * whether a given source looks like one of its diagrams.
+ */
+export interface DiagramDefinition<T extends Diagram = Diagram> {
+    /** Unique diagram type name, e.g. 'sequence' */
+    type: string;
+    /**
+     * Explicit start markers claimed by this type, without the `@start` prefix.
+     * For example `['json']` claims sources that begin with `@startjson`.
+     */
+    startTags?: string[];
+    /**
+     * Returns a confidence score for the given source. Zero (or a negative value)
+     * means the source is not recognized. The highest score wins; ties go to the
+     * definition registered first.
+     */
+    detect?(content: string): number;
+    createParser(options?: ParserOptions): Parser;
+    createRenderer(options?: RendererOptions): Renderer<T>;
+    /** Converts a parsed diagram to its versioned JSON model */
+    toJSON?(diagram: T): DiagramJson;
+    /**
+     * Builds a diagram from its JSON model
+     * @throws DiagramJsonError if the model does not match the format
+     */
+    fromJSON?(json: unknown): T;
+    /** Rewrites one statement in canonical form, for format() */
+    formatStatement?: StatementFormatter;
+}
+
+/**
+ * Generic marker that PlantUML uses for every UML diagram kind.
+ * Sources tagged with it are resolved by running the detectors.
+ */
+const GENERIC_START_TAG = 'uml';
+
+export class DiagramRegistry {
+    private definitions: DiagramDefinition<any>[] = [];
+
+    constructor(private defaultType?: string) { }
+
+    /** Registers a definition, replacing any existing definition of the same type */
+    register<T extends Diagram>(definition: DiagramDefinition<T>): void {
+        const index = this.definitions.findIndex(d => d.type === definition.type);
+        if (index !== -1) {
+            this.definitions[index] = definition;
+        } else {
+            this.definitions.push(definition);
+        }
+    }
+
+    unregister(type: string): boolean {
+        const index = this.definitions.findIndex(d => d.type === type);
+        if (index === -1) return false;
+        this.definitions.splice(index, 1);
+        return true;
+    }
+
+    get(type: string): DiagramDefinition | undefined {
+        return this.definitions.find(d => d.type === type);
+    }
+
+    list(): DiagramDefinition[] {
+        return [...this.definitions];
+    }
+
+    setDefaultType(type: string | undefined) {
+        this.defaultType = type;
+    }
+
+    /**
+     * Picks the definition that should handle the given source.
+     * An explicit `@startXXX` marker takes precedence over detection.
+     */
+    resolve(content: string): DiagramDefinition {
+        const tag = getStartTag(content);
+        if (tag && tag !== GENERIC_START_TAG) {
+            const tagged = this.definitions.find(d => d.startTags?.some(t => t.toLowerCase() === tag));
+            if (!tagged) {
+                throw new Error(`Unsupported diagram type: @start${tag}`);
+            }
+            return tagged;
+        }
+
+        let best: DiagramDefinition | undefined;
+        let bestScore = 0;
+        this.definitions.forEach(d => {
+            const score = d.detect ? d.detect(content) : 0;
+            if (score > bestScore) {
+                best = d;
+                bestScore = score;
+            }
+        });
+        if (best) return best;
+
+        const fallback = this.defaultType ? this.get(this.defaultType) : this.definitions[0];
+        if (!fallback) {
+            throw new Error('No diagram types registered');
+        }
+        return fallback;
+    }
+}
+
+/**
+ * Returns the lower-cased tag of the first `@startXXX` marker, if any.
+ */
+export function getStartTag(content: string): string | undefined {
+    const match = content.match(/^\s*@start(\w+)/im);
+    return match ? match[1].toLowerCase() : undefined;
+}
+
+/**
+ * Returns the trimmed statement lines of a source, skipping blank lines,
+ * comments, `@start`/`@end` markers and the bodies of multi-line notes.
+ * Detectors use this so that free text never counts as a keyword.
+ */
+export function getStatements(content: string): string[] {
+    const statements: string[] = [];
+    let inNote = false;
+    let inBlockComment = false;
+
+    content.split('\n').forEach(raw => {
+        const line = raw.trim();
+        if (inBlockComment) {
+            if (line.endsWith("'/")) inBlockComment = false;
+            return;
+        }
+        if (line.startsWith("/'")) {
+            if (!line.endsWith("'/") || line.length < 4) inBlockComment = true;
+            return;
+        }
+        if (inNote) {
+            if (/^end\s*[hrb]?note$/i.test(line)) inNote = false;
+            return;
+        }
+        if (!line || line.startsWith("'") || line.startsWith('@')) return;
+
+        // Multi-line note: "note left of A" without ": text"
+        if (/^[hrb]?note\b/i.test(line) && !line.includes(':')) {
+            inNote = true;
+        }
+        statements.push(line);
+    });
+
+    return statements;
+}
@@ -0,0 +1,152 @@
+export interface FormatOptions {
+    /** One level of indentation (default four spaces) */
+    indent?: string;
+}
+
+/** What a diagram type makes of one statement when formatting it */
+export interface FormattedStatement {
+    /** Canonical text of the statement */
+    text: string;
+    /** Offset of ` as ` in the text; consecutive declarations align their aliases */
+    aliasAt?: number;
+    /**
+     * `open` indents the following lines, `close` ends the innermost block and
+     * `continue` starts a new section of it (e.g. `else`)
+     */
+    block?: 'open' | 'close' | 'continue';
+    /** The statement starts a multi-line body, ended by the first line matching this */
+    bodyEnd?: RegExp;
+    /** Keep the body lines exactly as written, because the parser keeps their indentation */
+    verbatimBody?: boolean;
+}
+
+/** Rewrites one trimmed statement line of a diagram */
+export type StatementFormatter = (statement: string) => FormattedStatement;
+
+/** A formatted line; a missing depth means the line is copied unchanged */
+interface OutputLine {
+    text: string;
+    depth?: number;
+    aliasAt?: number;
+}
+
+const PREPROCESSOR_OPEN = /^!\s*(?:if|ifdef|ifndef|foreach|startsub|(?:unquoted\s+)?(?:procedure|function))\b/i;
+const PREPROCESSOR_CONTINUE = /^!\s*(?:else|elseif)\b/i;
+const PREPROCESSOR_CLOSE = /^!\s*end\s*(?:if|for(?:each)?|sub|procedure|function)\b/i;
+// One-line functions have no end marker
+const ONE_LINE_FUNCTION = /\)\s*!\s*return\b/i;
+
+/** Whitespace-normalized skinparam, e.g. `skinparam   ArrowColor  red` */
+function formatSkinParam(line: string): string {
+    const match = line.match(/^(skinparam\s+)?(\w+(?:\s*<<\s*.+?\s*>>)?)\s+(.+)$/i);
+    if (!match) return line;
+    return `${match[1] ? 'skinparam ' : ''}${match[2].replace(/\s*<<\s*(.+?)\s*>>/, '<<$1>>')} ${match[3]}`;
+}
+
+/**
+ * Formats the lines of one diagram (`@startuml` to `@enduml`): indents
+ * blocks, rewrites statements with the diagram type's formatter, keeps
+ * comments, and collapses runs of blank lines. With `normalize` off,
+ * statements keep their text and only the indentation changes.
+ */
+export function formatDiagramLines(lines: string[], formatStatement: StatementFormatter, options: FormatOptions = {}, normalize: boolean = true): string[] {
+    const output: OutputLine[] = [];
+    let depth = 0;
+    let body: { end: RegExp, verbatim: boolean, depth: number } | undefined;
+    let blockComment = false;
+    let skinParamDepth = 0;
+
+    lines.forEach(raw => {
+        const line = raw.trim();
+        if (body) {
+            if (body.end.test(line)) {
+                output.push({ text: line, depth: body.depth });
+                body = undefined;
+            } else {
+                output.push(body.verbatim ? { text: raw } : { text: line, depth: body.depth + 1 });
+            }
+            return;
+        }
+        if (blockComment) {
+            output.push({ text: raw });
+            if (line.endsWith("'/")) blockComment = false;
+            return;
+        }
+        if (!line) {
+            output.push({ text: '', depth: 0 });
+        } else if (line.startsWith("/'")) {
+            output.push({ text: line, depth });
+            blockComment = !line.endsWith("'/") || line.length < 4;
+        } else if (line.startsWith("'")) {
+            output.push({ text: line, depth });
+        } else if (line.startsWith('@')) {
+            output.push({ text: line, depth: 0 });
+        } else if (line.startsWith('!')) {
+            if (PREPROCESSOR_CLOSE.test(line)) depth = Math.max(0, depth - 1);
+            output.push({ text: line, depth: PREPROCESSOR_CONTINUE.test(line) ? Math.max(0, depth - 1) : depth });
+            if (PREPROCESSOR_OPEN.test(line) && !ONE_LINE_FUNCTION.test(line)) depth++;
+        } else if (skinParamDepth > 0 || /^skinparam\b/i.test(line)) {
+            if (line === '}') {
+                skinParamDepth--;
+                depth = Math.max(0, depth - 1);
+                output.push({ text: line, depth });
+            } else if (line.endsWith('{')) {
+                output.push({ text: normalize ? line.replace(/^skinparam\s+/i, 'skinparam ').replace(/\s*\{$/, ' {') : line, depth });
+                skinParamDepth++;
+                depth++;
+            } else {
+                output.push({ text: normalize ? formatSkinParam(line) : line, depth });
+            }
+        } else {
+            const statement = formatStatement(line);
+            if (statement.block === 'close') depth = Math.max(0, depth - 1);
+            output.push({
+                text: normalize ? statement.text : line,
+                depth: statement.block === 'continue' ? Math.max(0, depth - 1) : depth,
+                aliasAt: normalize ? statement.aliasAt : undefined
+            });
+            if (statement.block === 'open') depth++;
+            if (statement.bodyEnd) body = { end: statement.bodyEnd, verbatim: !!statement.verbatimBody, depth };
+        }
+    });
+
+    return layoutLines(dropExtraBlankLines(output), options.indent ?? '    ');
+}
+
+/** Collapses runs of blank lines, and drops those at either end or right inside `@startuml`/`@enduml` */
+function dropExtraBlankLines(lines: OutputLine[]): OutputLine[] {
+    const isBlank = (line: OutputLine | undefined) => line?.depth !== undefined && line.text === '';
+    const isMarker = (line: OutputLine | undefined) => line?.depth !== undefined && line.text.startsWith('@');
+    const kept = lines.filter((line, i) => !isBlank(line) || !(i === 0 || isBlank(lines[i - 1]) || isMarker(lines[i - 1])));
+    return kept.filter((line, i) => !isBlank(line) || !(i === kept.length - 1 || isMarker(kept[i + 1])));
+}
+
+/** Indents the lines, padding consecutive declarations so their aliases line up */
+function layoutLines(lines: OutputLine[], indent: string): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.depth === undefined) {
+            result.push(line.text);
+            continue;
+        }
+        if (line.aliasAt === undefined) {
+            result.push(line.text ? indent.repeat(line.depth) + line.text : '');
+            continue;
+        }
+        let end = i;
+        while (end + 1 < lines.length && lines[end + 1].aliasAt !== undefined && lines[end + 1].depth === line.depth) end++;
+        const run = lines.slice(i, end + 1);
+        const width = Math.max(...run.map(l => l.aliasAt!));
+        run.forEach(l => result.push(indent.repeat(l.depth!) + l.text.substring(0, l.aliasAt).padEnd(width) + l.text.substring(l.aliasAt!)));
+        i = end;
+    }
+    return result;
+}
+
+/** Quotes a participant or component name unless it is a plain identifier */
+export function formatName(raw: string): string {
+    const name = raw.replace(/^"(.*)"$/, '$1');
+    if (/^\w+$/.test(name) || name.includes('"')) return name;
+    return `"${name}"`;
+}
@@ -0,0 +1,136 @@
+import { isEndMarker, matchStartMarker } from './DiagramBlocks';
+
+/** A file returned by an include resolver */
+export interface IncludedFile {
+    /** Canonical path, used to resolve nested includes and to detect cycles */
+    path: string;
+    content: string;
+}
+
+/**
+ * Resolves the path of an `!include`/`!includesub` directive.
+ * `from` is the canonical path of the including file, if known.
+ * Returning a plain string uses the requested path as the canonical one;
+ * returning undefined reports the file as missing.
+ */
+export type IncludeResolver = (path: string, from?: string) => IncludedFile | string | undefined;
+
+export type AsyncIncludeResolver = (path: string, from?: string) =>
+    IncludedFile | string | undefined | Promise<IncludedFile | string | undefined>;
+
+const INCLUDE_DIRECTIVE = /^!\s*(include(?:_many|_once|url|sub)?)\s+(.+)$/i;
+
+/**
+ * Splits `file!PART` (or `file!2`) into the path and the part selector.
+ */
+export function splitIncludeSpec(spec: string): { path: string, selector?: string } {
+    const trimmed = spec.trim();
+    const bang = trimmed.lastIndexOf('!');
+    if (bang <= 0) return { path: trimmed };
+    return { path: trimmed.substring(0, bang), selector: trimmed.substring(bang + 1) };
+}
+
+/** Returns the directive keyword and argument of an include line */
+export function matchIncludeDirective(line: string): { keyword: string, spec: string } | undefined {
+    const match = line.trim().match(INCLUDE_DIRECTIVE);
+    return match ? { keyword: match[1].toLowerCase(), spec: match[2] } : undefined;
+}
+
+/**
+ * Picks the lines an `!include` brings in. Files without `@start` markers are
+ * included whole; otherwise the selected block (by index or `id=`) or the
+ * first one is used, without its markers.
+ * @returns 0-based line indexes into `lines`, or undefined if the selector matches nothing
+ */
+export function selectIncludedBlock(lines: string[], selector?: string): number[] | undefined {
+    const blocks: { id?: string, lines: number[] }[] = [];
+    let current: { id?: string, lines: number[] } | undefined;
+    lines.forEach((line, i) => {
+        const start = matchStartMarker(line);
+        if (start) {
+            current = { id: start.name, lines: [] };
+            blocks.push(current);
+        } else if (isEndMarker(line)) {
+            current = undefined;
+        } else if (current) {
+            current.lines.push(i);
+        }
+    });
+
+    if (blocks.length === 0) {
+        return selector === undefined ? lines.map((_, i) => i) : undefined;
+    }
+    if (selector === undefined) return blocks[0].lines;
+    const block = /^\d+$/.test(selector) ? blocks[parseInt(selector, 10)] : blocks.find(b => b.id === selector);
+    return block?.lines;
+}
+
+/**
+ * Collects the lines between `!startsub NAME` and `!endsub`.
+ * @returns 0-based line indexes, or undefined if the part does not exist
+ */
+export function selectSubPart(lines: string[], name: string): number[] | undefined {
+    const result: number[] = [];
+    let inside = false;
+    let found = false;
+    lines.forEach((raw, i) => {
+        const line = raw.trim();
+        const start = line.match(/^!\s*startsub\s+(\S+)/i);
+        if (start) {
+            inside = start[1] === name;
+            found = found || inside;
+        } else if (/^!\s*endsub\b/i.test(line)) {
+            inside = false;
+        } else if (inside) {
+            result.push(i);
+        }
+    });
+    return found ? result : undefined;
+}
+
+/**
+ * Fetches every file reachable through include directives with an async
+ * resolver, and returns a synchronous resolver serving the fetched files.
+ * Paths built from preprocessor variables cannot be known up front and are
+ * reported as missing by the returned resolver.
+ */
+export async function preloadIncludes(source: string, resolver: AsyncIncludeResolver, file?: string): Promise<IncludeResolver> {
+    const cache = new Map<string, IncludedFile | string | undefined>();
+    const failures = new Map<string, unknown>();
+    const visited = new Set<string>();
+    const key = (path: string, from?: string) => `${from ?? ''}\n${path}`;
+
+    const scan = async (content: string, from?: string): Promise<void> => {
+        for (const line of content.split('\n')) {
+            const directive = matchIncludeDirective(line);
+            if (!directive) continue;
+            const { path } = splitIncludeSpec(directive.spec);
+            const k = key(path, from);
+            if (cache.has(k) || failures.has(k)) continue;
+
+            let resolved: IncludedFile | string | undefined;
+            try {
+                resolved = await resolver(path, from);
+            } catch (e) {
+                failures.set(k, e);
+                continue;
+            }
+            cache.set(k, resolved);
+            if (resolved === undefined) continue;
+
+            const canonical = typeof resolved === 'string' ? path : resolved.path;
+            if (visited.has(canonical)) continue;
+            visited.add(canonical);
+            await scan(typeof resolved === 'string' ? resolved : resolved.content, canonical);
+        }
+    };
+
+    if (file) visited.add(file);
+    await scan(source, file);
+
+    return (path, from) => {
+        const k = key(path, from);
+        if (failures.has(k)) throw failures.get(k);
+        return cache.get(k);
+    };
+}
@@ -0,0 +1,50 @@
+import { RendererOptions } from './Renderer';
+import { escapeXml, isAllowedUrl } from './SafeMode';
+
+/** Target of a `[[url{tooltip} label]]` link on a diagram element */
+export interface Link {
+    url: string;
+    tooltip?: string;
+}
+
+// [[url]], [["quoted url"]], [[url{tooltip}]], [[url label]], [[url{tooltip} label]]
+const LINK = /\s*\[\[\s*("[^"]*"|[^\s{}\]]+)\s*(?:\{([^}]*)\})?(?:\s+([^\]]*?))?\s*\]\]/;
+
+/**
+ * Takes the first link out of a statement or label. The link's label, if
+ * any, stays in the text where the link was.
+ */
+export function extractLink(text: string): { text: string, link?: Link } {
+    const match = text.match(LINK);
+    if (!match) return { text };
+    const [whole, url, tooltip, label] = match;
+    const before = text.substring(0, match.index!);
+    const after = text.substring(match.index! + whole.length);
+    const link: Link = { url: url.replace(/^"(.*)"$/, '$1') };
+    if (tooltip?.trim()) link.tooltip = tooltip.trim();
+    return { text: (label ? `${before} ${label}${after}` : before + after).trim(), link };
+}
+
+/** Resolves a relative link URL against the base URL; absolute URLs and fragments are kept */
+export function resolveLinkUrl(url: string, base?: string): string {
+    if (!base || /^([a-z][a-z0-9+.-]*:|#|\/\/)/i.test(url)) return url;
+    try {
+        return new URL(url, base).href;
+    } catch {
+        // A relative base such as "docs/" cannot be resolved without a page URL
+        return `${base.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+    }
+}
+
+/**
+ * Opening and closing tags wrapping a linked element: an `<a href>` with the
+ * tooltip as its `<title>`. Both are empty when there is no link or its
+ * scheme is not allowed.
+ */
+export function linkTags(link: Link | undefined, options: Pick<RendererOptions, 'linkBase' | 'allowedUrlSchemes'>): [string, string] {
+    if (!link) return ['', ''];
+    const url = resolveLinkUrl(link.url, options.linkBase);
+    if (options.allowedUrlSchemes && !isAllowedUrl(url, options.allowedUrlSchemes)) return ['', ''];
+    const title = link.tooltip ? `<title>${escapeXml(link.tooltip)}</title>` : '';
+    return [`<a href="${escapeXml(url)}">${title}`, '</a>'];
+}
@@ -1,5 +1,24 @@
 import { Diagram } from './Diagram';
+import { Diagnostic } from './Diagnostic';
+import { PreprocessOptions, PreprocessResult } from './Preprocessor';
 
+export interface ParserOptions {
+    /** Options for the preprocessing stage, e.g. the include resolver */
+    preprocess?: PreprocessOptions;
+}
+
+export interface ParseResult<T extends Diagram = Diagram> {
+    diagram: T;
+    diagnostics: Diagnostic[];
+}
+
+/**
+ * Both methods take the source already expanded with the parser's
+ * preprocess options, when the caller has it, so includes are not
+ * resolved a second time.
+ */
 export interface Parser {
-    parse(content: string): Diagram;
+    parse(content: string, preprocessed?: PreprocessResult): Diagram;
+    /** Parses the whole source without stopping at the first problem */
+    parseWithDiagnostics?(content: string, preprocessed?: PreprocessResult): ParseResult;
 }
@@ -0,0 +1,114 @@
+import { DecodedSourceTooLargeError, deflate, inflate } from './Deflate';
+
+export { DecodedSourceTooLargeError };
+
+/** PlantUML's base64 variant, which keeps encoded text URL-safe without escaping */
+const ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_';
+
+export type PlantUmlEncodingFormat = 'deflate' | 'hex';
+
+export interface DecodeOptions {
+    /**
+     * Decompresses the brotli data of `~1` texts. Browsers have no synchronous
+     * brotli decoder, so without one those texts cannot be decoded. It is
+     * given `maxOutputLength` and should stop once its output grows past it.
+     */
+    decompressBrotli?: (data: Uint8Array, maxOutputLength?: number) => Uint8Array;
+    /**
+     * Longest decoded source, in bytes. Decoding stops with a
+     * DecodedSourceTooLargeError as soon as it is passed, so a short text
+     * cannot decompress into one too large to hold (default unlimited).
+     */
+    maxOutputLength?: number;
+}
+
+function checkLength(bytes: Uint8Array, maxOutputLength: number | undefined): Uint8Array {
+    if (maxOutputLength !== undefined && bytes.length > maxOutputLength) throw new DecodedSourceTooLargeError(maxOutputLength);
+    return bytes;
+}
+
+function encode64(bytes: Uint8Array): string {
+    let result = '';
+    for (let i = 0; i < bytes.length; i += 3) {
+        const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+        result += ALPHABET[(n >> 18) & 63] + ALPHABET[(n >> 12) & 63] + ALPHABET[(n >> 6) & 63] + ALPHABET[n & 63];
+    }
+    return result;
+}
+
+function decode64(text: string): Uint8Array {
+    const bytes: number[] = [];
+    for (let i = 0; i < text.length; i += 4) {
+        let n = 0;
+        for (let j = 0; j < 4; j++) {
+            const value = i + j < text.length ? ALPHABET.indexOf(text[i + j]) : 0;
+            if (value < 0) throw new Error(`Invalid PlantUML encoding: unexpected character '${text[i + j]}'`);
+            n = (n << 6) | value;
+        }
+        bytes.push((n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff);
+    }
+    return Uint8Array.from(bytes);
+}
+
+/** Whether data starts with a zlib header rather than a raw deflate block */
+function hasZlibHeader(data: Uint8Array): boolean {
+    return data.length > 2 && (data[0] & 0x0f) === 8 && ((data[0] << 8) | data[1]) % 31 === 0;
+}
+
+/**
+ * Encodes a diagram source the way PlantUML server URLs do: UTF-8, raw
+ * deflate, then PlantUML's base64 alphabet. The `hex` format gives the
+ * longer but readable `~h` form.
+ */
+export function encode(source: string, format: PlantUmlEncodingFormat = 'deflate'): string {
+    const bytes = new TextEncoder().encode(source);
+    if (format === 'hex') {
+        return '~h' + Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    }
+    return encode64(deflate(bytes));
+}
+
+/**
+ * Decodes the text of a PlantUML URL. Accepts the default deflate form,
+ * `~h` hex and, given a brotli decompressor, the `~1` brotli form.
+ * @throws Error if the text is not valid encoded PlantUML
+ */
+export function decode(encoded: string, options: DecodeOptions = {}): string {
+    const text = encoded.trim();
+    if (text.startsWith('~h')) {
+        const hex = text.substring(2);
+        if (!/^([0-9a-f]{2})*$/i.test(hex)) throw new Error('Invalid PlantUML encoding: bad hex data');
+        const bytes = new Uint8Array(hex.length / 2);
+        checkLength(bytes, options.maxOutputLength);
+        for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+        return new TextDecoder().decode(bytes);
+    }
+
+    if (text.startsWith('~1')) {
+        if (!options.decompressBrotli) throw new Error('Invalid PlantUML encoding: ~1 texts are brotli compressed, which needs a brotli decompressor');
+        try {
+            const bytes = options.decompressBrotli(decode64(text.substring(2)), options.maxOutputLength);
+            return new TextDecoder().decode(checkLength(bytes, options.maxOutputLength));
+        } catch (e) {
+            if (e instanceof DecodedSourceTooLargeError) throw e;
+            throw new Error(`Invalid PlantUML encoding: ${(e as Error).message}`);
+        }
+    }
+
+    const data = decode64(text);
+    let inflated: Uint8Array;
+    try {
+        inflated = inflate(data, options.maxOutputLength);
+    } catch (e) {
+        if (e instanceof DecodedSourceTooLargeError) throw e;
+        // Some encoders emit a zlib stream instead of raw deflate
+        if (!hasZlibHeader(data)) throw new Error(`Invalid PlantUML encoding: ${(e as Error).message}`);
+        try {
+            inflated = inflate(data.subarray(2), options.maxOutputLength);
+        } catch (zlibError) {
+            if (zlibError instanceof DecodedSourceTooLargeError) throw zlibError;
+            throw new Error(`Invalid PlantUML encoding: ${(zlibError as Error).message}`);
+        }
+    }
+    return new TextDecoder().decode(inflated);
+}
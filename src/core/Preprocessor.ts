@@ -0,0 +1,1046 @@
+import { Diagnostic, createDiagnostic } from './Diagnostic';
+import { AsyncIncludeResolver, IncludeResolver, preloadIncludes, selectIncludedBlock, selectSubPart, splitIncludeSpec } from './Include';
+
+/** Values handled by the preprocessor. Objects and arrays come from JSON literals. */
+export type PreprocessorValue = string | number | boolean | null | PreprocessorValue[] | { [key: string]: PreprocessorValue };
+
+export interface PreprocessOptions {
+    /** Variables defined before the first line, keyed by name without `$` */
+    variables?: Record<string, PreprocessorValue>;
+    /** Date used by %date(); defaults to the current time */
+    now?: Date;
+    /** Resolves `!include` and `!includesub` paths */
+    resolveInclude?: IncludeResolver;
+    /** Path of the source being preprocessed; nested includes are resolved relative to it */
+    file?: string;
+    /**
+     * Most lines run before expansion stops with an error. Loop and procedure
+     * bodies count on every pass and every `!define` substitution counts too,
+     * so runaway expansions end instead of hanging.
+     */
+    maxSteps?: number;
+    /** Longest expanded text, in characters, before expansion stops with an error */
+    maxLength?: number;
+}
+
+export type AsyncPreprocessOptions = Omit<PreprocessOptions, 'resolveInclude'> & {
+    resolveInclude?: AsyncIncludeResolver;
+};
+
+export interface PreprocessResult {
+    /** Expanded lines handed to the diagram parser */
+    lines: string[];
+    /** 0-based source line index of every expanded line */
+    lineMap: number[];
+    /** Problems found while expanding, already pointing at source lines */
+    diagnostics: Diagnostic[];
+    /** Maps diagnostics reported against the expanded lines back onto the source */
+    mapDiagnostics(diagnostics: Diagnostic[]): Diagnostic[];
+}
+
+/** A source line together with its 0-based index in the original source */
+interface SourceLine {
+    text: string;
+    line: number;
+    /** For included lines: the files they came through, outermost first */
+    chain?: string[];
+    /** For included lines: 0-based index within the included file */
+    fileLine?: number;
+}
+
+interface Define {
+    params?: string[];
+    body: string;
+}
+
+interface Callable {
+    kind: 'procedure' | 'function';
+    params: { name: string, defaultValue?: string }[];
+    body: SourceLine[];
+}
+
+interface Context {
+    /** Arguments and `!local` variables of the procedure/function being run */
+    locals?: Map<string, PreprocessorValue>;
+    inFunction: boolean;
+    /** Source line of the outermost procedure call; expanded lines map to it */
+    callLine?: number;
+}
+
+interface Condition {
+    active: boolean;
+    taken: boolean;
+    line: SourceLine;
+}
+
+class PreprocessorError extends Error { }
+
+/** Aborts the whole expansion once `maxSteps` or `maxLength` is used up */
+class LimitError extends Error {
+    constructor(public sourceLine: SourceLine, message: string) {
+        super(message);
+    }
+}
+
+/** Signals `!return` from a function body */
+class ReturnSignal {
+    constructor(public value: PreprocessorValue) { }
+}
+
+const MAX_CALL_DEPTH = 100;
+const MAX_DEFINE_PASSES = 10;
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Expands the PlantUML preprocessor language: variables, `!define` macros,
+ * conditionals, procedures, functions, `!foreach` loops and `%` built-ins.
+ * Directives it does not know (e.g. `!pragma`, `!theme`) are passed through
+ * untouched for the diagram parsers.
+ */
+export class Preprocessor {
+    private globals = new Map<string, PreprocessorValue>();
+    private defines = new Map<string, Define>();
+    private callables = new Map<string, Callable>();
+    private diagnostics: Diagnostic[] = [];
+    private sourceLines: string[] = [];
+    private output: string[] = [];
+    private lineMap: number[] = [];
+    private lineChains: (string[] | undefined)[] = [];
+    private included = new Set<string>();
+    private depth = 0;
+    private steps = 0;
+    private length = 0;
+
+    constructor(private options: PreprocessOptions = {}) { }
+
+    process(source: string): PreprocessResult {
+        this.globals = new Map(Object.entries(this.options.variables || {}));
+        this.defines.clear();
+        this.callables.clear();
+        this.diagnostics = [];
+        this.sourceLines = source.split('\n');
+        this.output = [];
+        this.lineMap = [];
+        this.lineChains = [];
+        this.included.clear();
+        this.depth = 0;
+        this.steps = 0;
+        this.length = 0;
+
+        // Nothing to expand: keep the source as is
+        if (!/^\s*!|[$%]/m.test(source)) {
+            this.output = [...this.sourceLines];
+            this.lineMap = this.sourceLines.map((_, i) => i);
+            this.lineChains = this.sourceLines.map(() => undefined);
+        } else {
+            const lines = this.sourceLines.map((text, line) => ({ text, line }));
+            try {
+                this.run(lines, { inFunction: false });
+            } catch (e) {
+                if (!(e instanceof LimitError)) throw e;
+                this.error(e.sourceLine, e.message);
+            }
+        }
+
+        const outputLines = this.output;
+        const lineMap = this.lineMap;
+        const lineChains = this.lineChains;
+        const sourceLines = this.sourceLines;
+        return {
+            lines: outputLines,
+            lineMap,
+            diagnostics: this.diagnostics,
+            mapDiagnostics: diagnostics => diagnostics.map(d => {
+                const sourceIndex = lineMap[d.line - 1];
+                if (sourceIndex === undefined) return d;
+                const sourceLine = sourceLines[sourceIndex];
+                if (outputLines[d.line - 1] === sourceLine) {
+                    return { ...d, line: sourceIndex + 1 };
+                }
+                // The line was rewritten, so columns only make sense for the whole source line
+                const mapped = createDiagnostic(d.severity, sourceIndex, sourceLine, d.message);
+                const chain = lineChains[d.line - 1];
+                return chain ? { ...mapped, includeChain: chain } : mapped;
+            })
+        };
+    }
+
+    private run(lines: SourceLine[], ctx: Context): ReturnSignal | undefined {
+        const conditions: Condition[] = [];
+        const isActive = () => conditions.every(c => c.active);
+        let inBlockComment = false;
+
+        for (let i = 0; i < lines.length; i++) {
+            const sl = lines[i];
+            const line = sl.text.trim();
+            this.step(sl);
+
+            // Block comments are passed through without looking for directives
+            if (inBlockComment || line.startsWith("/'")) {
+                if (inBlockComment) {
+                    inBlockComment = !line.endsWith("'/");
+                } else {
+                    inBlockComment = !line.endsWith("'/") || line.length < 4;
+                }
+                if (isActive() && !ctx.inFunction) this.emit(sl.text, sl, ctx);
+                continue;
+            }
+
+            if (line.startsWith('!')) {
+                const keyword = (line.match(/^!\s*(\w+)/)?.[1] || '').toLowerCase();
+
+                // Conditionals are tracked even inside inactive branches to keep nesting right
+                if (keyword === 'if' || keyword === 'ifdef' || keyword === 'ifndef') {
+                    let result = false;
+                    if (isActive()) {
+                        const arg = line.replace(/^!\s*\w+/, '').trim();
+                        result = this.guard(sl, false, () => keyword === 'if'
+                            ? isTruthy(this.evaluate(arg, ctx))
+                            : this.isDefined(arg, ctx) === (keyword === 'ifdef'));
+                    }
+                    conditions.push({ active: result, taken: result, line: sl });
+                    continue;
+                }
+                if (keyword === 'elseif' || keyword === 'else' || keyword === 'endif') {
+                    const top = conditions[conditions.length - 1];
+                    if (!top) {
+                        this.error(sl, `!${keyword} without a matching !if`);
+                        continue;
+                    }
+                    if (keyword === 'endif') {
+                        conditions.pop();
+                        continue;
+                    }
+                    const parentActive = conditions.slice(0, -1).every(c => c.active);
+                    if (top.taken || !parentActive) {
+                        top.active = false;
+                    } else if (keyword === 'else') {
+                        top.active = top.taken = true;
+                    } else {
+                        const arg = line.replace(/^!\s*\w+/, '').trim();
+                        top.active = top.taken = this.guard(sl, false, () => isTruthy(this.evaluate(arg, ctx)));
+                    }
+                    continue;
+                }
+
+                if (!isActive()) {
+                    // Skip whole blocks so their end markers are not mistaken for ours
+                    if (/^(procedure|function|unquoted|foreach)$/.test(keyword)) {
+                        i = this.findBlockEnd(lines, i, keyword) ?? lines.length;
+                    }
+                    continue;
+                }
+
+                const assignMatch = line.match(/^!\s*(?:(local|global)\s+)?\$(\w+)\s*(\?=|=)\s*(.*)$/i);
+                if (assignMatch) {
+                    const [, scope, name, op, expr] = assignMatch;
+                    this.guard(sl, undefined, () => {
+                        if (op === '?=' && this.lookup(name, ctx) !== undefined) return;
+                        this.assign(name, this.evaluate(expr, ctx), ctx, scope?.toLowerCase());
+                    });
+                    continue;
+                }
+
+                switch (keyword) {
+                    case 'define':
+                        this.readDefine(line, sl);
+                        continue;
+                    case 'undef':
+                        this.defines.delete(line.replace(/^!\s*undef\s*/i, '').trim());
+                        continue;
+                    case 'procedure':
+                    case 'function':
+                    case 'unquoted': {
+                        const end = this.readCallable(lines, i);
+                        if (end === undefined) return undefined;
+                        i = end;
+                        continue;
+                    }
+                    case 'foreach': {
+                        const end = this.findBlockEnd(lines, i, 'foreach');
+                        if (end === undefined) {
+                            this.error(sl, '!foreach is missing !endfor');
+                            return undefined;
+                        }
+                        const signal = this.runForeach(line, lines.slice(i + 1, end), sl, ctx);
+                        if (signal) return signal;
+                        i = end;
+                        continue;
+                    }
+                    case 'endfor':
+                    case 'endforeach':
+                        this.error(sl, `!${keyword} without a matching !foreach`);
+                        continue;
+                    case 'endprocedure':
+                    case 'endfunction':
+                        this.error(sl, `!${keyword} without a matching definition`);
+                        continue;
+                    case 'return':
+                        if (!ctx.inFunction) {
+                            this.error(sl, '!return outside of a function');
+                            continue;
+                        }
+                        return this.guard(sl, new ReturnSignal(''), () =>
+                            new ReturnSignal(this.evaluate(line.replace(/^!\s*return\s*/i, ''), ctx)));
+                    case 'assert': {
+                        const match = line.match(/^!\s*assert\s+(.+?)(?:\s+:\s*(.*))?$/i);
+                        if (match && !this.guard(sl, true, () => isTruthy(this.evaluate(match[1], ctx)))) {
+                            this.error(sl, `Assertion failed${match[2] ? `: ${match[2].replace(/^"(.*)"$/, '$1')}` : ''}`);
+                        }
+                        continue;
+                    }
+                    case 'include':
+                    case 'include_many':
+                    case 'include_once':
+                    case 'includeurl':
+                    case 'includesub': {
+                        const spec = line.replace(/^!\s*\w+\s*/, '');
+                        const included = this.readInclude(keyword, this.guard(sl, spec, () => this.substitute(spec, sl, ctx)), sl);
+                        const signal = included ? this.run(included, ctx) : undefined;
+                        if (signal) return signal;
+                        continue;
+                    }
+                    case 'startsub':
+                    case 'endsub':
+                    case 'log':
+                    case 'dump_memory':
+                        continue;
+                }
+
+                // Unknown directives are left for the diagram parser
+                if (!ctx.inFunction) this.emit(sl.text, sl, ctx);
+                continue;
+            }
+
+            if (!isActive() || ctx.inFunction) continue;
+
+            // Comments are never expanded
+            if (line.startsWith("'")) {
+                this.emit(sl.text, sl, ctx);
+                continue;
+            }
+
+            const callMatch = line.match(/^\$(\w+)\s*\((.*)\)$/);
+            const procedure = callMatch ? this.callables.get(callMatch[1]) : undefined;
+            if (callMatch && procedure?.kind === 'procedure') {
+                this.guard(sl, undefined, () => {
+                    const args = new ExpressionParser(line, callMatch[0].indexOf('('), this, ctx).parseArguments();
+                    this.invoke(callMatch[1], procedure, args, { ...ctx, callLine: ctx.callLine ?? sl.line });
+                });
+                continue;
+            }
+
+            this.emit(this.guard(sl, sl.text, () => this.substitute(sl.text, sl, ctx)), sl, ctx);
+        }
+
+        conditions.forEach(c => this.error(c.line, '!if is missing !endif'));
+        return undefined;
+    }
+
+    private emit(text: string, sl: SourceLine, ctx: Context) {
+        // %newline() can split a line in two; both halves map to the same source line
+        text.split('\n').forEach(part => {
+            this.length += part.length + 1;
+            this.checkLength(this.length, sl);
+            this.output.push(part);
+            this.lineMap.push(ctx.callLine ?? sl.line);
+            this.lineChains.push(sl.chain);
+        });
+    }
+
+    private step(sl: SourceLine) {
+        if (++this.steps > (this.options.maxSteps ?? Infinity)) {
+            throw new LimitError(sl, `Preprocessing stopped after ${this.options.maxSteps} steps`);
+        }
+    }
+
+    private checkLength(length: number, sl: SourceLine) {
+        if (length > (this.options.maxLength ?? Infinity)) {
+            throw new LimitError(sl, `Preprocessing stopped: expanded source is longer than ${this.options.maxLength} characters`);
+        }
+    }
+
+    /**
+     * Reports an error on the source line. Problems inside included files are
+     * reported on the `!include` line, naming the file and line they came from.
+     */
+    private error(sl: SourceLine, message: string, includeChain = sl.chain) {
+        const location = sl.chain && sl.fileLine !== undefined ? ` (${sl.chain[sl.chain.length - 1]}, line ${sl.fileLine + 1})` : '';
+        const diagnostic = createDiagnostic('error', sl.line, this.sourceLines[sl.line] ?? sl.text, message + location);
+        this.diagnostics.push(includeChain ? { ...diagnostic, includeChain } : diagnostic);
+    }
+
+    /** Resolves an include directive into the lines it brings in */
+    private readInclude(keyword: string, spec: string, sl: SourceLine): SourceLine[] | undefined {
+        const { path, selector } = splitIncludeSpec(spec);
+        const parentChain = sl.chain ?? (this.options.file ? [this.options.file] : []);
+        const from = parentChain[parentChain.length - 1];
+        const describe = (chain: string[]) => chain.length > 1 ? ` (include chain: ${chain.join(' -> ')})` : '';
+
+        if (keyword === 'includesub' && !selector) {
+            this.error(sl, `!includesub needs a part name: ${path}!PART`);
+            return undefined;
+        }
+        const resolver = this.options.resolveInclude;
+        if (!resolver) {
+            this.error(sl, `Cannot include ${path}: no include resolver configured`);
+            return undefined;
+        }
+
+        let resolved: ReturnType<IncludeResolver>;
+        try {
+            resolved = resolver(path, from);
+        } catch (e: any) {
+            this.error(sl, `Cannot include ${path}: ${e?.message || e}`, [...parentChain, path]);
+            return undefined;
+        }
+        if (resolved && typeof (resolved as any).then === 'function') {
+            this.error(sl, `Cannot include ${path}: the include resolver is asynchronous, use the async API`);
+            return undefined;
+        }
+        if (resolved === undefined) {
+            const chain = [...parentChain, path];
+            this.error(sl, `Cannot find included file: ${path}${describe(chain)}`, chain);
+            return undefined;
+        }
+
+        const file = typeof resolved === 'string' ? { path, content: resolved } : resolved;
+        const chain = [...parentChain, file.path];
+        if (parentChain.includes(file.path)) {
+            this.error(sl, `Include cycle: ${chain.join(' -> ')}`, chain);
+            return undefined;
+        }
+        if (keyword === 'include_once' && this.included.has(file.path)) return undefined;
+        this.included.add(file.path);
+
+        const lines = file.content.split('\n');
+        const indexes = keyword === 'includesub' ? selectSubPart(lines, selector!) : selectIncludedBlock(lines, selector);
+        if (!indexes) {
+            this.error(sl, `Cannot find ${keyword === 'includesub' ? `!startsub ${selector}` : `diagram ${selector}`} in ${file.path}`, chain);
+            return undefined;
+        }
+        return indexes.map(i => ({ text: lines[i], line: sl.line, chain, fileLine: i }));
+    }
+
+    /** Runs `fn`, turning preprocessor errors into diagnostics on the given line */
+    private guard<T>(sl: SourceLine, fallback: T, fn: () => T): T {
+        try {
+            return fn();
+        } catch (e) {
+            if (!(e instanceof PreprocessorError)) throw e;
+            this.error(sl, e.message);
+            return fallback;
+        }
+    }
+
+    /** Index of the line closing the block opened at `start`, honoring nesting */
+    private findBlockEnd(lines: SourceLine[], start: number, keyword: string): number | undefined {
+        const isForeach = keyword === 'foreach';
+        const open = isForeach ? /^!\s*foreach\b/i : /^!\s*(?:unquoted\s+)?(?:procedure|function)\b/i;
+        const close = isForeach ? /^!\s*end\s*for(?:each)?\b/i : /^!\s*end\s*(?:procedure|function)\b/i;
+        // One-line functions have no end marker
+        if (!isForeach && /\)\s*!\s*return\b/i.test(lines[start].text)) return start;
+
+        let depth = 0;
+        for (let i = start + 1; i < lines.length; i++) {
+            const line = lines[i].text.trim();
+            if (open.test(line) && !(!isForeach && /\)\s*!\s*return\b/i.test(line))) depth++;
+            else if (close.test(line)) {
+                if (depth === 0) return i;
+                depth--;
+            }
+        }
+        return undefined;
+    }
+
+    private readDefine(line: string, sl: SourceLine) {
+        const match = line.match(/^!\s*define\s+(\w+)(?:\(([^)]*)\))?(?:\s+(.*))?$/i);
+        if (!match) {
+            this.error(sl, `Invalid !define: ${line}`);
+            return;
+        }
+        const params = match[2] !== undefined ? match[2].split(',').map(p => p.trim()).filter(p => p) : undefined;
+        this.defines.set(match[1], { params, body: match[3] ?? '' });
+    }
+
+    /** Reads a procedure/function definition; returns the index of its last line */
+    private readCallable(lines: SourceLine[], start: number): number | undefined {
+        const sl = lines[start];
+        const line = sl.text.trim();
+        const match = line.match(/^!\s*(?:unquoted\s+)?(procedure|function)\s+\$?(\w+)\s*\((.*?)\)\s*(.*)$/i);
+        if (!match) {
+            this.error(sl, `Invalid definition: ${line}`);
+            return start;
+        }
+        const kind = match[1].toLowerCase() as Callable['kind'];
+        const params = splitArguments(match[3]).map(p => {
+            const [name, ...defaultValue] = p.split('=');
+            return {
+                name: name.trim().replace(/^\$/, ''),
+                defaultValue: defaultValue.length ? defaultValue.join('=').trim() : undefined
+            };
+        });
+
+        const end = this.findBlockEnd(lines, start, kind);
+        if (end === undefined) {
+            this.error(sl, `!${kind} is missing !end${kind}`);
+            return undefined;
+        }
+        // One-line form: !function $f($x) !return $x + 1
+        const body = end === start ? [{ text: match[4], line: sl.line }] : lines.slice(start + 1, end);
+        this.callables.set(match[2], { kind, params, body });
+        return end;
+    }
+
+    private runForeach(line: string, body: SourceLine[], sl: SourceLine, ctx: Context): ReturnSignal | undefined {
+        const match = line.match(/^!\s*foreach\s+\$(\w+)\s+in\s+(.+)$/i);
+        if (!match) {
+            this.error(sl, `Invalid !foreach: ${line}`);
+            return undefined;
+        }
+        const list = this.guard(sl, [] as PreprocessorValue, () => this.evaluate(match[2], ctx));
+        let items: PreprocessorValue[];
+        if (Array.isArray(list)) items = list;
+        else if (list !== null && typeof list === 'object') items = Object.keys(list);
+        else items = toText(list).split(',').map(s => s.trim()).filter(s => s);
+
+        for (const item of items) {
+            this.assign(match[1], item, ctx);
+            const signal = this.run(body, ctx);
+            if (signal) return signal;
+        }
+        return undefined;
+    }
+
+    /** Calls a procedure (emitting its lines) or a function (returning its value) */
+    invoke(name: string, callable: Callable, args: CallArguments, ctx: Context): PreprocessorValue {
+        if (this.depth >= MAX_CALL_DEPTH) {
+            throw new PreprocessorError(`Maximum call depth exceeded in $${name}`);
+        }
+        const locals = new Map<string, PreprocessorValue>();
+        callable.params.forEach((param, i) => {
+            if (args.named.has(param.name)) {
+                locals.set(param.name, args.named.get(param.name)!);
+            } else if (i < args.positional.length) {
+                locals.set(param.name, args.positional[i]);
+            } else if (param.defaultValue !== undefined) {
+                locals.set(param.name, this.evaluate(param.defaultValue, { ...ctx, locals }));
+            } else {
+                throw new PreprocessorError(`Missing argument $${param.name} for $${name}`);
+            }
+        });
+        if (args.positional.length > callable.params.length) {
+            throw new PreprocessorError(`Too many arguments for $${name}`);
+        }
+
+        this.depth++;
+        try {
+            const signal = this.run(callable.body, { locals, inFunction: callable.kind === 'function', callLine: ctx.callLine });
+            return signal ? signal.value : '';
+        } finally {
+            this.depth--;
+        }
+    }
+
+    // The methods below are used by the expression evaluator
+
+    getCallable(name: string): Callable | undefined {
+        return this.callables.get(name);
+    }
+
+    getDefine(name: string): Define | undefined {
+        return this.defines.get(name);
+    }
+
+    lookup(name: string, ctx: Context): PreprocessorValue | undefined {
+        if (ctx.locals?.has(name)) return ctx.locals.get(name);
+        return this.globals.get(name);
+    }
+
+    private assign(name: string, value: PreprocessorValue, ctx: Context, scope?: string) {
+        if (ctx.locals && (scope === 'local' || (scope !== 'global' && ctx.locals.has(name)))) {
+            ctx.locals.set(name, value);
+        } else {
+            this.globals.set(name, value);
+        }
+    }
+
+    private isDefined(name: string, ctx: Context): boolean {
+        const clean = name.replace(/^\$/, '');
+        return this.defines.has(clean) || this.lookup(clean, ctx) !== undefined;
+    }
+
+    evaluate(expr: string, ctx: Context): PreprocessorValue {
+        const parser = new ExpressionParser(expr, 0, this, ctx);
+        const value = parser.parseExpression();
+        parser.expectEnd();
+        return value;
+    }
+
+    /** Expands macros, variables and function calls inside a plain line */
+    private substitute(text: string, sl: SourceLine, ctx: Context): string {
+        let result = this.expandDefines(text, sl);
+
+        let out = '';
+        let pos = 0;
+        while (pos < result.length) {
+            const ch = result[pos];
+            const ident = (ch === '$' || ch === '%') ? result.substring(pos + 1).match(/^\w+/)?.[0] : undefined;
+            if (ident) {
+                const isCall = result[pos + 1 + ident.length] === '(';
+                const known = ch === '%'
+                    ? isCall && getBuiltin(ident) !== undefined
+                    : (isCall ? this.callables.get(ident)?.kind === 'function' : this.lookup(ident, ctx) !== undefined);
+                if (known) {
+                    const parser = new ExpressionParser(result, pos, this, ctx);
+                    out += toText(parser.parsePostfix());
+                    pos = parser.pos;
+                    continue;
+                }
+            }
+            out += ch;
+            pos++;
+        }
+        return out;
+    }
+
+    private expandDefines(text: string, sl: SourceLine): string {
+        if (this.defines.size === 0) return text;
+        let result = text;
+        for (let pass = 0; pass < MAX_DEFINE_PASSES; pass++) {
+            let changed = false;
+            this.defines.forEach((define, name) => {
+                const pattern = new RegExp(`\\b${name}\\b${define.params ? '\\s*\\(' : ''}`, 'g');
+                let match: RegExpExecArray | null;
+                while ((match = pattern.exec(result))) {
+                    this.step(sl);
+                    let end = match.index + match[0].length;
+                    let body = define.body;
+                    if (define.params) {
+                        const close = findClosingBracket(result, end - 1);
+                        if (close === -1) break;
+                        const args = splitArguments(result.substring(end, close));
+                        define.params.forEach((param, i) => {
+                            body = body.replace(new RegExp(`\\b${escapeRegExp(param)}\\b`, 'g'), args[i] ?? '');
+                        });
+                        end = close + 1;
+                    }
+                    body = body.replace(/\s*##\s*/g, '');
+                    result = result.substring(0, match.index) + body + result.substring(end);
+                    this.checkLength(this.length + result.length, sl);
+                    pattern.lastIndex = match.index + body.length;
+                    changed = true;
+                }
+            });
+            if (!changed) break;
+        }
+        return result;
+    }
+
+    /** Formats a date with the Java SimpleDateFormat letters PlantUML documents */
+    formatDate(format?: string): string {
+        const date = this.options.now || new Date();
+        const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+        const pattern = format || 'EEE MMM dd HH:mm:ss yyyy';
+        return pattern.replace(/yyyy|yy|MMM|MM|M|dd|d|HH|H|mm|ss|EEE/g, token => {
+            switch (token) {
+                case 'yyyy': return String(date.getFullYear());
+                case 'yy': return pad(date.getFullYear() % 100);
+                case 'MMM': return MONTHS[date.getMonth()];
+                case 'MM': return pad(date.getMonth() + 1);
+                case 'M': return String(date.getMonth() + 1);
+                case 'dd': return pad(date.getDate());
+                case 'd': return String(date.getDate());
+                case 'HH': return pad(date.getHours());
+                case 'H': return String(date.getHours());
+                case 'mm': return pad(date.getMinutes());
+                case 'ss': return pad(date.getSeconds());
+                default: return DAYS[date.getDay()];
+            }
+        });
+    }
+
+    setVariable(name: string, value: PreprocessorValue) {
+        this.globals.set(name.replace(/^\$/, ''), value);
+    }
+}
+
+/**
+ * Expands preprocessor directives in a diagram source.
+ * @param source Diagram source
+ */
+export function preprocess(source: string, options?: PreprocessOptions): PreprocessResult {
+    return new Preprocessor(options).process(source);
+}
+
+/**
+ * Like preprocess(), but accepts an asynchronous include resolver.
+ * Included files are fetched up front, then expanded synchronously.
+ */
+export async function preprocessAsync(source: string, options: AsyncPreprocessOptions = {}): Promise<PreprocessResult> {
+    const { resolveInclude, ...rest } = options;
+    const resolver = resolveInclude ? await preloadIncludes(source, resolveInclude, options.file) : undefined;
+    return preprocess(source, { ...rest, resolveInclude: resolver });
+}
+
+interface CallArguments {
+    positional: PreprocessorValue[];
+    named: Map<string, PreprocessorValue>;
+}
+
+type Builtin = (args: PreprocessorValue[], pre: Preprocessor, ctx: Context) => PreprocessorValue;
+
+const BUILTINS: Record<string, Builtin> = {
+    date: (args, pre) => pre.formatDate(args.length ? toText(args[0]) : undefined),
+    strlen: args => toText(args[0]).length,
+    substr: args => {
+        const s = toText(args[0]);
+        const start = toNumber(args[1]);
+        return args.length > 2 ? s.substr(start, toNumber(args[2])) : s.substring(start);
+    },
+    strpos: args => toText(args[0]).indexOf(toText(args[1])),
+    upper: args => toText(args[0]).toUpperCase(),
+    lower: args => toText(args[0]).toLowerCase(),
+    intval: args => {
+        const n = parseInt(toText(args[0]), 10);
+        if (isNaN(n)) throw new PreprocessorError(`Not a number: ${toText(args[0])}`);
+        return n;
+    },
+    string: args => toText(args[0]),
+    boolval: args => isTruthy(args[0]) ? 1 : 0,
+    not: args => isTruthy(args[0]) ? 0 : 1,
+    true: () => 1,
+    false: () => 0,
+    newline: () => '\n',
+    chr: args => String.fromCharCode(toNumber(args[0])),
+    ord: args => toText(args[0]).charCodeAt(0) || 0,
+    size: args => {
+        const value = args[0];
+        if (Array.isArray(value)) return value.length;
+        if (value !== null && typeof value === 'object') return Object.keys(value).length;
+        return toText(value).length;
+    },
+    splitstr: args => toText(args[0]).split(toText(args[1])),
+    variable_exists: (args, pre, ctx) => pre.lookup(toText(args[0]).replace(/^\$/, ''), ctx) !== undefined ? 1 : 0,
+    function_exists: (args, pre) => {
+        const name = toText(args[0]);
+        const exists = name.startsWith('%') ? getBuiltin(name.substring(1)) : pre.getCallable(name.replace(/^\$/, ''));
+        return exists ? 1 : 0;
+    },
+    get_variable_value: (args, pre, ctx) => pre.lookup(toText(args[0]).replace(/^\$/, ''), ctx) ?? '',
+    set_variable_value: (args, pre) => {
+        pre.setVariable(toText(args[0]), args[1] ?? '');
+        return '';
+    },
+};
+
+function getBuiltin(name: string): Builtin | undefined {
+    const key = name.toLowerCase();
+    return Object.prototype.hasOwnProperty.call(BUILTINS, key) ? BUILTINS[key] : undefined;
+}
+
+/**
+ * Recursive-descent parser/evaluator for preprocessor expressions.
+ * Precedence, lowest first: ||, &&, == !=, < <= > >=, + -, * / %, unary ! -.
+ */
+class ExpressionParser {
+    constructor(private text: string, public pos: number, private pre: Preprocessor, private ctx: Context) { }
+
+    parseExpression(): PreprocessorValue {
+        let left = this.parseAnd();
+        while (this.match('||')) {
+            const right = this.parseAnd();
+            left = isTruthy(left) || isTruthy(right) ? 1 : 0;
+        }
+        return left;
+    }
+
+    expectEnd() {
+        this.skipSpaces();
+        if (this.pos < this.text.length) {
+            throw new PreprocessorError(`Unexpected '${this.text.substring(this.pos)}' in expression`);
+        }
+    }
+
+    /** Parses `(a, $b = c)` starting at the opening parenthesis */
+    parseArguments(): CallArguments {
+        const args: CallArguments = { positional: [], named: new Map() };
+        this.expect('(');
+        if (this.match(')')) return args;
+        do {
+            this.skipSpaces();
+            const named = this.text.substring(this.pos).match(/^\$(\w+)\s*=(?!=)/);
+            if (named) {
+                this.pos += named[0].length;
+                args.named.set(named[1], this.parseExpression());
+            } else {
+                args.positional.push(this.parseExpression());
+            }
+        } while (this.match(','));
+        this.expect(')');
+        return args;
+    }
+
+    private parseAnd(): PreprocessorValue {
+        let left = this.parseEquality();
+        while (this.match('&&')) {
+            const right = this.parseEquality();
+            left = isTruthy(left) && isTruthy(right) ? 1 : 0;
+        }
+        return left;
+    }
+
+    private parseEquality(): PreprocessorValue {
+        let left = this.parseComparison();
+        for (;;) {
+            if (this.match('==')) left = compare(left, this.parseComparison()) === 0 ? 1 : 0;
+            else if (this.match('!=')) left = compare(left, this.parseComparison()) !== 0 ? 1 : 0;
+            else return left;
+        }
+    }
+
+    private parseComparison(): PreprocessorValue {
+        let left = this.parseAdditive();
+        for (;;) {
+            if (this.match('<=')) left = compare(left, this.parseAdditive()) <= 0 ? 1 : 0;
+            else if (this.match('>=')) left = compare(left, this.parseAdditive()) >= 0 ? 1 : 0;
+            else if (this.match('<')) left = compare(left, this.parseAdditive()) < 0 ? 1 : 0;
+            else if (this.match('>')) left = compare(left, this.parseAdditive()) > 0 ? 1 : 0;
+            else return left;
+        }
+    }
+
+    private parseAdditive(): PreprocessorValue {
+        let left = this.parseMultiplicative();
+        for (;;) {
+            if (this.match('+')) {
+                const right = this.parseMultiplicative();
+                left = typeof left === 'number' && typeof right === 'number' ? left + right : toText(left) + toText(right);
+            } else if (this.match('-')) {
+                left = toNumber(left) - toNumber(this.parseMultiplicative());
+            } else {
+                return left;
+            }
+        }
+    }
+
+    private parseMultiplicative(): PreprocessorValue {
+        let left = this.parseUnary();
+        for (;;) {
+            if (this.match('*')) left = toNumber(left) * toNumber(this.parseUnary());
+            else if (this.match('/')) {
+                const right = toNumber(this.parseUnary());
+                if (right === 0) throw new PreprocessorError('Division by zero');
+                left = Math.trunc(toNumber(left) / right);
+            } else if (this.match('%')) left = toNumber(left) % toNumber(this.parseUnary());
+            else return left;
+        }
+    }
+
+    private parseUnary(): PreprocessorValue {
+        if (this.match('!')) return isTruthy(this.parseUnary()) ? 0 : 1;
+        if (this.match('-')) return -toNumber(this.parseUnary());
+        return this.parsePostfix();
+    }
+
+    /** A primary value followed by `.key` or `[index]` accessors on JSON values */
+    parsePostfix(): PreprocessorValue {
+        let value = this.parsePrimary();
+        for (;;) {
+            if (value === null || typeof value !== 'object') return value;
+            if (this.text[this.pos] === '.' && /^\.\w/.test(this.text.substring(this.pos))) {
+                const key = this.text.substring(this.pos + 1).match(/^\w+/)![0];
+                this.pos += key.length + 1;
+                value = member(value, key);
+            } else if (this.text[this.pos] === '[') {
+                this.pos++;
+                const key = this.parseExpression();
+                this.expect(']');
+                value = member(value, toText(key));
+            } else {
+                return value;
+            }
+        }
+    }
+
+    private parsePrimary(): PreprocessorValue {
+        this.skipSpaces();
+        const rest = this.text.substring(this.pos);
+        const ch = rest[0];
+
+        if (ch === undefined) throw new PreprocessorError('Unexpected end of expression');
+
+        if (ch === '(') {
+            this.pos++;
+            const value = this.parseExpression();
+            this.expect(')');
+            return value;
+        }
+
+        if (ch === '"' || ch === "'") {
+            const end = this.text.indexOf(ch, this.pos + 1);
+            if (end === -1) throw new PreprocessorError('Unterminated string');
+            const value = this.text.substring(this.pos + 1, end);
+            this.pos = end + 1;
+            return value;
+        }
+
+        if (ch === '[' || ch === '{') {
+            const end = findClosingBracket(this.text, this.pos);
+            if (end === -1) throw new PreprocessorError(`Unterminated JSON value`);
+            const json = this.text.substring(this.pos, end + 1);
+            this.pos = end + 1;
+            try {
+                return JSON.parse(json);
+            } catch {
+                throw new PreprocessorError(`Invalid JSON: ${json}`);
+            }
+        }
+
+        const number = rest.match(/^\d+(\.\d+)?/);
+        if (number) {
+            this.pos += number[0].length;
+            return parseFloat(number[0]);
+        }
+
+        const ident = rest.match(/^([$%]?)(\w+)/);
+        if (!ident) throw new PreprocessorError(`Unexpected '${rest}' in expression`);
+        const [token, sigil, name] = ident;
+        this.pos += token.length;
+
+        if (sigil === '%') {
+            const builtin = getBuiltin(name);
+            if (!builtin) throw new PreprocessorError(`Unknown built-in function: %${name}`);
+            const args = this.parseArguments();
+            return builtin(args.positional, this.pre, this.ctx);
+        }
+
+        if (sigil === '$') {
+            if (this.text[this.pos] === '(') {
+                const callable = this.pre.getCallable(name);
+                if (!callable) throw new PreprocessorError(`Unknown function: $${name}`);
+                if (callable.kind !== 'function') throw new PreprocessorError(`$${name} is a procedure, not a function`);
+                return this.pre.invoke(name, callable, this.parseArguments(), this.ctx);
+            }
+            const value = this.pre.lookup(name, this.ctx);
+            if (value === undefined) throw new PreprocessorError(`Undefined variable: $${name}`);
+            return value;
+        }
+
+        // Bare words: legacy !define constants, then booleans
+        const define = this.pre.getDefine(name);
+        if (define && !define.params) return define.body;
+        if (name.toLowerCase() === 'true') return 1;
+        if (name.toLowerCase() === 'false') return 0;
+        throw new PreprocessorError(`Unknown identifier: ${name}`);
+    }
+
+    private skipSpaces() {
+        while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+    }
+
+    private match(token: string): boolean {
+        this.skipSpaces();
+        if (!this.text.startsWith(token, this.pos)) return false;
+        // Keep '!' from swallowing '!=' and '<'/'>' from swallowing '<='/'>='
+        if ((token === '!' || token === '<' || token === '>') && this.text[this.pos + 1] === '=') return false;
+        this.pos += token.length;
+        return true;
+    }
+
+    private expect(token: string) {
+        if (!this.match(token)) {
+            throw new PreprocessorError(`Expected '${token}' in expression`);
+        }
+    }
+}
+
+function toText(value: PreprocessorValue | undefined): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+function toNumber(value: PreprocessorValue | undefined): number {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    const n = parseFloat(toText(value));
+    if (isNaN(n)) throw new PreprocessorError(`Not a number: ${toText(value)}`);
+    return n;
+}
+
+function isTruthy(value: PreprocessorValue | undefined): boolean {
+    if (typeof value === 'number') return value !== 0;
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'string') return value !== '' && value !== '0' && value.toLowerCase() !== 'false';
+    if (Array.isArray(value)) return value.length > 0;
+    return value !== null && value !== undefined;
+}
+
+/** Numeric comparison when both sides are numbers, string comparison otherwise */
+function compare(a: PreprocessorValue, b: PreprocessorValue): number {
+    const numeric = (v: PreprocessorValue) => typeof v === 'number' || (typeof v === 'string' && /^-?\d+(\.\d+)?$/.test(v));
+    if (numeric(a) && numeric(b)) return toNumber(a) - toNumber(b);
+    const sa = toText(a);
+    const sb = toText(b);
+    return sa < sb ? -1 : sa > sb ? 1 : 0;
+}
+
+function member(value: PreprocessorValue, key: string): PreprocessorValue {
+    if (value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key)) {
+        return (value as any)[key];
+    }
+    throw new PreprocessorError(`No member '${key}' in ${toText(value)}`);
+}
+
+/** Splits an argument list on top-level commas, leaving quoted text and brackets intact */
+function splitArguments(text: string): string[] {
+    const args: string[] = [];
+    let depth = 0;
+    let quote = '';
+    let current = '';
+    for (const ch of text) {
+        if (quote) {
+            if (ch === quote) quote = '';
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if ('([{'.includes(ch)) {
+            depth++;
+        } else if (')]}'.includes(ch)) {
+            depth--;
+        } else if (ch === ',' && depth === 0) {
+            args.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += ch;
+    }
+    if (current.trim()) args.push(current.trim());
+    return args;
+}
+
+/** Index of the bracket closing the one at `open`, skipping quoted text */
+function findClosingBracket(text: string, open: number): number {
+    let depth = 0;
+    let quote = '';
+    for (let i = open; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === quote) quote = '';
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if ('([{'.includes(ch)) {
+            depth++;
+        } else if (')]}'.includes(ch)) {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
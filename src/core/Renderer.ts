@@ -1,5 +1,49 @@
 import { Diagram } from './Diagram';
+import { TextMeasurer } from './TextMeasurer';
+
+export interface RendererOptions {
+    /** Name of a built-in theme preset, applied before `theme` */
+    themeName?: string;
+    /** Theme overrides, deep-merged over the renderer's default theme */
+    theme?: object;
+    /** Measures label widths; defaults to the bundled font width tables */
+    textMeasurer?: TextMeasurer;
+    /** Prepended to every id in the SVG (markers, filters) and to the references to them */
+    idPrefix?: string;
+    /** Escape every label, including those drawn without rich text formatting */
+    safe?: boolean;
+    /** List every interaction, in order, in the `<desc>` of the SVG */
+    textAlternative?: boolean;
+    /** Base URL that relative `[[url]]` links are resolved against */
+    linkBase?: string;
+    /** When set, links with a URL scheme outside this list are drawn without their anchor */
+    allowedUrlSchemes?: string[];
+    /** Source written into the SVG's `<metadata>`, recoverable with extractSource() */
+    embeddedSource?: string;
+}
 
 export interface Renderer<T extends Diagram = Diagram> {
     render(diagram: T): string;
 }
+
+/**
+ * Deterministic id prefix derived from a diagram source (FNV-1a), so several
+ * diagrams inlined in one page do not share marker and filter ids. The
+ * options that change how markers and filters look are hashed too, so the
+ * same source drawn with two themes does not share them either.
+ */
+export function sourceIdPrefix(source: string, styling: Pick<RendererOptions, 'themeName' | 'theme' | 'safe'> = {}): string {
+    const key = `${source}\u0000${JSON.stringify([styling.themeName ?? null, styling.theme ?? null, !!styling.safe])}`;
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `seeduml-${(hash >>> 0).toString(36)}`;
+}
+
+/** Namespaces a local id, dropping prefix characters that are not valid in XML ids */
+export function scopedId(prefix: string, name: string): string {
+    const safePrefix = prefix.replace(/[^\w.-]/g, '');
+    return safePrefix ? `${safePrefix}-${name}` : name;
+}
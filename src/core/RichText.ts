@@ -1,3 +1,10 @@
+// Named or hex colors; anything else in <font color> is dropped rather than written into an attribute
+const FONT_COLOR = /^#?[a-z0-9]+$/i;
+
+function fontColorTspan(_match: string, color: string, content: string): string {
+    return FONT_COLOR.test(color) ? `<tspan fill="${color}">${content}</tspan>` : `<tspan>${content}</tspan>`;
+}
+
 /**
  * Formats rich text strings into SVG-compatible marked-up strings.
  * Supports a subset of HTML tags used in PlantUML and Markdown-like syntax.
@@ -22,12 +29,12 @@ export function formatRichText(text: string): string {
     // Strike: <s>...</s>
     escaped = escaped.replace(/&lt;s&gt;(.*?)&lt;\/s&gt;/gi, '<tspan text-decoration="line-through">$1</tspan>');
     // Font Color: <font color="red">...</font> or <font color=red>...</font>
-    escaped = escaped.replace(/&lt;font\s+color=(?:&quot;)?(.*?)(?:&quot;)?&gt;(.*?)&lt;\/font&gt;/gi, '<tspan fill="$1">$2</tspan>');
+    escaped = escaped.replace(/&lt;font\s+color=(?:&quot;)?(.*?)(?:&quot;)?&gt;(.*?)&lt;\/font&gt;/gi, fontColorTspan);
 
     // Support unclosed tags (sometimes used in format strings)
     // This is a simple fallback that just starts a tspan if an opening tag is found but no closing tag
     escaped = escaped.replace(/&lt;b&gt;(?!.*&lt;\/b&gt;)(.*)/gi, '<tspan font-weight="bold">$1</tspan>');
-    escaped = escaped.replace(/&lt;font\s+color=(?:&quot;)?(.*?)(?:&quot;)?&gt;(?!.*&lt;\/font&gt;)(.*)/gi, '<tspan fill="$1">$2</tspan>');
+    escaped = escaped.replace(/&lt;font\s+color=(?:&quot;)?(.*?)(?:&quot;)?&gt;(?!.*&lt;\/font&gt;)(.*)/gi, fontColorTspan);
 
     // Support Markdown-like syntax (Legacy/Alternative)
     escaped = escaped.replace(/\*\*(.*?)\*\*/g, '<tspan font-weight="bold">$1</tspan>');
@@ -47,3 +54,53 @@ export function decodeUnicode(text: string): string {
     if (!text) return '';
     return text.replace(/<U\+([0-9a-fA-F]{4})>/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
 }
+
+/** A piece of rich text with the styles that affect its width */
+export interface TextRun {
+    text: string;
+    bold: boolean;
+    italic: boolean;
+    monospace: boolean;
+}
+
+const MARKUP_TOKEN = /<\/?[bius]>|<font\b[^>]*>|<\/font>|\*\*|\/\/|""|--|__|~~/gi;
+
+/**
+ * Splits rich text into runs of visible text, dropping the markup understood
+ * by formatRichText(). Markdown-like markers only count when they are paired,
+ * as in formatRichText().
+ */
+export function parseRichTextRuns(text: string): TextRun[] {
+    const runs: TextRun[] = [];
+    const state = { bold: false, italic: false, monospace: false };
+    const open = new Set<string>();
+    let last = 0;
+
+    const push = (end: number) => {
+        if (end > last) runs.push({ text: text.substring(last, end), ...state });
+    };
+
+    for (const match of text.matchAll(MARKUP_TOKEN)) {
+        const token = match[0].toLowerCase();
+        const index = match.index!;
+        const isMarker = !token.startsWith('<');
+        // Unpaired markdown markers are plain text
+        if (isMarker && !open.has(token) && text.indexOf(match[0], index + token.length) === -1) continue;
+
+        push(index);
+        last = index + token.length;
+        if (isMarker) {
+            if (open.has(token)) open.delete(token); else open.add(token);
+        }
+
+        if (token === '<b>') state.bold = true;
+        else if (token === '</b>') state.bold = false;
+        else if (token === '<i>') state.italic = true;
+        else if (token === '</i>') state.italic = false;
+        else if (token === '**') state.bold = open.has(token);
+        else if (token === '//') state.italic = open.has(token);
+        else if (token === '""') state.monospace = open.has(token);
+    }
+    push(text.length);
+    return runs;
+}
@@ -0,0 +1,100 @@
+import { Diagram } from './Diagram';
+
+/** Limits applied when rendering untrusted diagram source */
+export interface SafeModeOptions {
+    /** Longest accepted source, in characters, both as written and once preprocessed (default 100000) */
+    maxSourceLength?: number;
+    /** Most participants or components a diagram may have; this also bounds the layout work (default 200) */
+    maxElements?: number;
+    /**
+     * Most preprocessor steps: lines run, counting loop and procedure bodies
+     * on every pass, and `!define` substitutions (default 100000)
+     */
+    maxPreprocessorSteps?: number;
+    /** URL schemes accepted in links and includes; relative URLs are always accepted (default http, https, mailto) */
+    allowedUrlSchemes?: string[];
+}
+
+export const defaultSafeModeOptions: Required<SafeModeOptions> = {
+    maxSourceLength: 100000,
+    maxElements: 200,
+    maxPreprocessorSteps: 100000,
+    allowedUrlSchemes: ['http', 'https', 'mailto'],
+};
+
+/** Fills in the defaults of the `safe` render option; undefined when safe mode is off */
+export function resolveSafeMode(safe: boolean | SafeModeOptions | undefined): Required<SafeModeOptions> | undefined {
+    if (!safe) return undefined;
+    return safe === true ? defaultSafeModeOptions : { ...defaultSafeModeOptions, ...safe };
+}
+
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/** Scheme of an absolute URL, ignoring whitespace and control characters browsers would skip */
+function urlScheme(url: string): string | undefined {
+    const scheme = url.replace(/[\x00-\x20]/g, '').match(/^([a-z][a-z0-9+.-]*):/i)?.[1];
+    // A single letter is a Windows drive, not a scheme
+    return scheme && scheme.length > 1 ? scheme.toLowerCase() : undefined;
+}
+
+/** Whether a URL is relative or uses one of the allowed schemes */
+export function isAllowedUrl(url: string, allowedSchemes: string[]): boolean {
+    const scheme = urlScheme(url);
+    return scheme === undefined || allowedSchemes.some(s => s.toLowerCase() === scheme);
+}
+
+/**
+ * Wraps an include resolver so paths with a scheme outside the allow-list
+ * fail before the resolver is asked to fetch them.
+ */
+export function restrictIncludeSchemes<R extends (path: string, from?: string) => unknown>(resolver: R, allowedSchemes: string[]): R {
+    return ((path: string, from?: string) => {
+        if (!isAllowedUrl(path, allowedSchemes)) {
+            throw new Error(`URL scheme not allowed: ${urlScheme(path)}`);
+        }
+        return resolver(path, from);
+    }) as R;
+}
+
+// Colors, font names and sizes; url() would let a style load external resources
+const SAFE_STYLE_VALUE = /^(?!.*url\()[#\w\s.,%()-]*$/i;
+const STYLE_KEY = /color$|^font(name|family)$/i;
+
+/**
+ * Drops style values that could break out of an SVG attribute or load
+ * resources: skinparam-derived theme overrides and element styles, and the
+ * colors set on diagram elements. Unsafe values fall back to the theme.
+ */
+export function sanitizeStyles(diagram: Diagram): void {
+    const visited = new Set<object>();
+    const isStyleTree = (key: string) => key === 'themePreset' || key === 'themeOverrides' || key === 'elementStyles';
+    const walk = (value: unknown, styleTree: boolean) => {
+        if (!value || typeof value !== 'object' || visited.has(value)) return;
+        if (!Array.isArray(value) && Object.getPrototypeOf(value) !== Object.prototype) return;
+        visited.add(value);
+        const record = value as Record<string, unknown>;
+        Object.keys(record).forEach(key => {
+            const child = record[key];
+            if (typeof child === 'string') {
+                if ((styleTree || STYLE_KEY.test(key)) && !SAFE_STYLE_VALUE.test(child)) delete record[key];
+            } else {
+                walk(child, styleTree || isStyleTree(key));
+            }
+        });
+    };
+    const model = diagram as unknown as Record<string, unknown>;
+    Object.keys(model).forEach(key => walk(model[key], isStyleTree(key)));
+}
+
+/** Participants or components of a parsed diagram, which layout cost grows with */
+export function countElements(diagram: Diagram): number {
+    const { participants, components } = diagram as { participants?: unknown[], components?: unknown[] };
+    return (participants?.length ?? 0) + (components?.length ?? 0);
+}
@@ -0,0 +1,219 @@
+import { Diagnostic, createDiagnostic } from './Diagnostic';
+
+/**
+ * A single skinparam setting. Block and single-line forms are normalized to
+ * the same lower-case name, e.g. `participant { BackgroundColor red }` and
+ * `ParticipantBackgroundColor red` both become `participantbackgroundcolor`.
+ */
+export interface SkinParam {
+    name: string;
+    stereotype?: string;
+    value: string;
+    /** 0-based source line index */
+    line: number;
+}
+
+/** Style properties that can be set per element type and per stereotype */
+export interface ElementStyle {
+    backgroundColor?: string;
+    borderColor?: string;
+    borderThickness?: number;
+    fontColor?: string;
+    fontSize?: number;
+    fontName?: string;
+}
+
+/** Element styles keyed by `element` or `element<<stereotype>>` */
+export type ElementStyles = Record<string, ElementStyle>;
+
+export type SkinParamValueKind = 'color' | 'number' | 'string';
+
+/** Maps a skinparam onto a (dotted) theme property path */
+export interface ThemeParam {
+    path: string;
+    kind: SkinParamValueKind;
+    /** Allowed values (lower-case) for enumerated string params */
+    values?: string[];
+}
+
+export interface SkinParamMapping {
+    /** Normalized skinparam name → theme property */
+    theme: Record<string, ThemeParam>;
+    /** Element names that accept per-element and per-stereotype styles */
+    elements: string[];
+}
+
+const STYLE_PROPERTIES: Record<string, { key: keyof ElementStyle, kind: SkinParamValueKind }> = {
+    backgroundcolor: { key: 'backgroundColor', kind: 'color' },
+    bordercolor: { key: 'borderColor', kind: 'color' },
+    borderthickness: { key: 'borderThickness', kind: 'number' },
+    fontcolor: { key: 'fontColor', kind: 'color' },
+    fontsize: { key: 'fontSize', kind: 'number' },
+    fontname: { key: 'fontName', kind: 'string' },
+};
+
+/**
+ * Reads `skinparam` statements line by line, including multi-line blocks.
+ * Parsers feed every line through `read()` before their own matching.
+ */
+export class SkinParamReader {
+    readonly params: SkinParam[] = [];
+    readonly diagnostics: Diagnostic[] = [];
+    private blocks: { prefix: string, stereotype?: string, line: number, rawLine: string }[] = [];
+
+    /**
+     * @param rawLine The untrimmed source line
+     * @param index 0-based line index
+     * @returns true if the line belonged to a skinparam statement
+     */
+    read(rawLine: string, index: number): boolean {
+        const line = rawLine.trim();
+
+        if (this.blocks.length > 0) {
+            if (line === '}') {
+                this.blocks.pop();
+                return true;
+            }
+            if (!line || line.startsWith("'")) return true;
+
+            const current = this.blocks[this.blocks.length - 1];
+            const nestedMatch = line.match(/^(\w+)(?:\s*<<\s*(.+?)\s*>>)?\s*\{$/);
+            if (nestedMatch) {
+                this.blocks.push({
+                    prefix: current.prefix + nestedMatch[1].toLowerCase(),
+                    stereotype: nestedMatch[2] || current.stereotype,
+                    line: index,
+                    rawLine
+                });
+                return true;
+            }
+
+            const paramMatch = line.match(/^(\w+)(?:\s*<<\s*(.+?)\s*>>)?\s+(.+)$/);
+            if (paramMatch) {
+                this.add(current.prefix + paramMatch[1].toLowerCase(), paramMatch[2] || current.stereotype, paramMatch[3], index);
+            } else {
+                this.diagnostics.push(createDiagnostic('warning', index, rawLine, `Invalid skinparam: ${line}`));
+            }
+            return true;
+        }
+
+        if (!/^skinparam\b/i.test(line)) return false;
+
+        const blockMatch = line.match(/^skinparam\s+(\w+)(?:\s*<<\s*(.+?)\s*>>)?\s*\{$/i);
+        if (blockMatch) {
+            this.blocks.push({ prefix: blockMatch[1].toLowerCase(), stereotype: blockMatch[2], line: index, rawLine });
+            return true;
+        }
+
+        const singleMatch = line.match(/^skinparam\s+(\w+)(?:\s*<<\s*(.+?)\s*>>)?\s+(.+)$/i);
+        if (singleMatch) {
+            this.add(singleMatch[1].toLowerCase(), singleMatch[2], singleMatch[3], index);
+        } else {
+            this.diagnostics.push(createDiagnostic('warning', index, rawLine, `Invalid skinparam: ${line}`));
+        }
+        return true;
+    }
+
+    /** Reports blocks that were never closed. Call once after the last line. */
+    finish() {
+        this.blocks.forEach(b => {
+            this.diagnostics.push(createDiagnostic('warning', b.line, b.rawLine, "skinparam block is missing closing '}'"));
+        });
+        this.blocks = [];
+    }
+
+    private add(name: string, stereotype: string | undefined, value: string, line: number) {
+        this.params.push({ name, stereotype, value: value.trim().replace(/^"(.*)"$/, '$1'), line });
+    }
+}
+
+export interface AppliedSkinParams<T> {
+    theme: T;
+    styles: ElementStyles;
+    diagnostics: Diagnostic[];
+}
+
+/**
+ * Maps skinparams onto theme overrides and element styles.
+ * Params without a stereotype are matched against the theme table first;
+ * everything else must name a known element followed by a style property.
+ * Unknown names and invalid values are reported as warnings.
+ */
+export function applySkinParams<T extends object>(params: SkinParam[], mapping: SkinParamMapping, lines: string[]): AppliedSkinParams<T> {
+    const theme: any = {};
+    const styles: ElementStyles = {};
+    const diagnostics: Diagnostic[] = [];
+
+    params.forEach(param => {
+        const warn = (message: string) => diagnostics.push(createDiagnostic('warning', param.line, lines[param.line] ?? '', message));
+
+        const themeParam = param.stereotype ? undefined : mapping.theme[param.name];
+        if (themeParam) {
+            const value = convertValue(param.value, themeParam.kind);
+            if (value === undefined || (themeParam.values && !themeParam.values.includes(String(value).toLowerCase()))) {
+                warn(`Invalid value for skinparam ${param.name}: ${param.value}`);
+                return;
+            }
+            assignPath(theme, themeParam.path, themeParam.values ? String(value).toLowerCase() : value);
+            return;
+        }
+
+        const element = mapping.elements.find(e => param.name.startsWith(e) && STYLE_PROPERTIES[param.name.substring(e.length)]);
+        if (!element) {
+            warn(`Unknown skinparam: ${param.name}${param.stereotype ? `<<${param.stereotype}>>` : ''}`);
+            return;
+        }
+
+        const property = STYLE_PROPERTIES[param.name.substring(element.length)];
+        const value = convertValue(param.value, property.kind);
+        if (value === undefined) {
+            warn(`Invalid value for skinparam ${param.name}: ${param.value}`);
+            return;
+        }
+        const key = styleKey(element, param.stereotype);
+        styles[key] = { ...styles[key], [property.key]: value };
+    });
+
+    return { theme, styles, diagnostics };
+}
+
+/**
+ * Resolves the style of an element: the element-wide style, overridden by
+ * the style of its stereotype if any.
+ */
+export function resolveElementStyle(styles: ElementStyles | undefined, element: string, stereotype?: string): ElementStyle {
+    if (!styles) return {};
+    const base = styles[styleKey(element)] || {};
+    const scoped = stereotype ? styles[styleKey(element, stereotype)] || {} : {};
+    return { ...base, ...scoped };
+}
+
+function styleKey(element: string, stereotype?: string): string {
+    const name = element.toLowerCase();
+    return stereotype ? `${name}<<${stereotype}>>` : name;
+}
+
+function convertValue(value: string, kind: SkinParamValueKind): string | number | undefined {
+    if (kind === 'number') {
+        const n = parseFloat(value);
+        return isNaN(n) ? undefined : n;
+    }
+    if (kind === 'color') {
+        // Same convention as the parsers: #name is a named color, #hex stays as is
+        if (value.startsWith('#') && !/^#([0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(value)) {
+            return value.substring(1);
+        }
+        return value;
+    }
+    return value;
+}
+
+function assignPath(target: any, path: string, value: unknown) {
+    const keys = path.split('.');
+    let obj = target;
+    keys.slice(0, -1).forEach(k => {
+        if (typeof obj[k] !== 'object' || obj[k] === null) obj[k] = {};
+        obj = obj[k];
+    });
+    obj[keys[keys.length - 1]] = value;
+}
@@ -0,0 +1,25 @@
+import { decode, encode } from './PlantUmlEncoding';
+
+// The encoded text only uses PlantUML's URL-safe alphabet, so it needs no XML escaping
+const METADATA = /<metadata class="seeduml-source">([^<]*)<\/metadata>/;
+// PlantUML's own SVGs carry their source in this processing instruction
+const PLANTUML_SOURCE = /<\?plantuml-src ([^?]*)\?>/;
+
+/**
+ * The `<metadata>` element holding a diagram source, deflated and encoded
+ * like a PlantUML server URL
+ */
+export function sourceMetadata(source: string | undefined): string {
+    return source === undefined ? '' : `<metadata class="seeduml-source">${encode(source)}</metadata>`;
+}
+
+/**
+ * Recovers the diagram source embedded in an SVG rendered with
+ * `embedSource`, or in an SVG exported by PlantUML.
+ * @returns The source, or undefined when the SVG carries none
+ * @throws Error if the embedded source is corrupt
+ */
+export function extractSource(svg: string): string | undefined {
+    const match = svg.match(METADATA) ?? svg.match(PLANTUML_SOURCE);
+    return match ? decode(match[1]) : undefined;
+}
@@ -0,0 +1,19 @@
+import { SourceRange } from './Diagram';
+
+function escapeAttribute(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Attributes linking an SVG group back to the source, so editors can map
+ * clicks and selections between the diagram and the text:
+ * `data-element-id` is stable for a given source, `data-source-line` and
+ * `data-source-end` are 1-based source lines.
+ */
+export function sourceAttributes(elementId: string, range: SourceRange): string {
+    let attrs = ` data-element-id="${escapeAttribute(elementId)}"`;
+    if (range.sourceLine !== undefined) {
+        attrs += ` data-source-line="${range.sourceLine}" data-source-end="${range.sourceEnd ?? range.sourceLine}"`;
+    }
+    return attrs;
+}
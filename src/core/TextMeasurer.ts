@@ -0,0 +1,228 @@
+import { parseRichTextRuns } from './RichText';
+
+export interface TextStyle {
+    fontSize: number;
+    /** CSS font-family list; only used to pick a width table or a canvas font */
+    fontFamily?: string;
+    bold?: boolean;
+    italic?: boolean;
+    monospace?: boolean;
+}
+
+/** Measures the advance width of plain text in pixels */
+export interface TextMeasurer {
+    measure(text: string, style: TextStyle): number;
+}
+
+type FontTable = {
+    /** Advance widths of U+0020..U+007E in 1/1000 em */
+    widths: number[];
+    /** Width used for characters outside the table */
+    fallback: number;
+};
+
+type FontTables = { regular: FontTable; bold: FontTable; italic: FontTable; boldItalic: FontTable };
+
+function table(widths: string, fallback: number): FontTable {
+    return { widths: widths.trim().split(/\s+/).map(Number), fallback };
+}
+
+// Helvetica metrics, which Arial, Roboto and most UI sans-serif faces follow closely.
+// The oblique faces share the upright widths.
+const SANS_REGULAR = table(`
+    278 278 355 556 556 889 667 191 333 333 389 584 278 333 278 278
+    556 556 556 556 556 556 556 556 556 556 278 278 584 584 584 556
+    1015 667 667 722 722 667 611 778 722 278 500 667 556 833 722 778
+    667 778 722 667 611 722 667 944 667 667 611 278 278 278 469 556
+    333 556 556 500 556 556 278 556 556 222 222 500 222 833 556 556
+    556 556 333 500 278 556 500 722 500 500 500 334 260 334 584`, 556);
+const SANS_BOLD = table(`
+    278 333 474 556 556 889 722 238 333 333 389 584 278 333 278 278
+    556 556 556 556 556 556 556 556 556 556 333 333 584 584 584 611
+    975 722 722 722 722 667 611 778 722 278 556 722 611 833 722 778
+    667 778 722 667 611 722 667 944 667 667 611 333 278 333 584 556
+    333 556 611 556 611 556 333 611 611 278 278 556 278 889 611 611
+    611 611 389 556 333 611 556 778 556 556 500 389 280 389 584`, 611);
+
+// Times metrics
+const SERIF_REGULAR = table(`
+    250 333 408 500 500 833 778 180 333 333 500 564 250 333 250 278
+    500 500 500 500 500 500 500 500 500 500 278 278 564 564 564 444
+    921 722 667 667 722 611 556 722 722 333 389 722 611 889 722 722
+    556 722 667 556 611 722 722 944 722 722 611 333 278 333 469 500
+    333 444 500 444 500 444 333 500 500 278 278 500 278 778 500 500
+    500 500 333 389 278 500 500 722 500 500 444 480 200 480 541`, 500);
+const SERIF_BOLD = table(`
+    250 333 555 500 500 1000 833 278 333 333 500 570 250 333 250 278
+    500 500 500 500 500 500 500 500 500 500 333 333 570 570 570 500
+    930 722 667 722 722 667 611 778 778 389 500 778 667 944 722 778
+    611 778 722 556 667 722 722 1000 722 722 667 333 278 333 581 500
+    333 500 556 444 556 444 333 500 556 278 333 556 278 833 556 500
+    556 556 444 389 333 556 500 722 500 500 444 394 220 394 520`, 556);
+const SERIF_ITALIC = table(`
+    250 333 420 500 500 833 778 214 333 333 500 675 250 333 250 278
+    500 500 500 500 500 500 500 500 500 500 333 333 675 675 675 500
+    920 611 611 667 722 611 611 722 722 333 444 667 556 833 667 722
+    611 722 611 500 556 722 611 833 611 556 556 389 278 389 422 500
+    333 500 500 444 500 444 278 500 500 278 278 444 278 722 500 500
+    500 500 389 389 278 500 444 667 444 444 389 400 275 400 541`, 500);
+
+// Courier and every other monospace face
+const MONOSPACE = table(new Array(95).fill(600).join(' '), 600);
+
+const SANS: FontTables = { regular: SANS_REGULAR, bold: SANS_BOLD, italic: SANS_REGULAR, boldItalic: SANS_BOLD };
+const SERIF: FontTables = { regular: SERIF_REGULAR, bold: SERIF_BOLD, italic: SERIF_ITALIC, boldItalic: SERIF_BOLD };
+const MONO: FontTables = { regular: MONOSPACE, bold: MONOSPACE, italic: MONOSPACE, boldItalic: MONOSPACE };
+
+// East Asian Width W and F ranges, plus the emoji blocks that render as wide glyphs
+const WIDE_RANGES: [number, number][] = [
+    [0x1100, 0x115F], [0x231A, 0x231B], [0x2329, 0x232A], [0x23E9, 0x23EC], [0x23F0, 0x23F0], [0x23F3, 0x23F3],
+    [0x25FD, 0x25FE], [0x2614, 0x2615], [0x2648, 0x2653], [0x267F, 0x267F], [0x2693, 0x2693], [0x26A1, 0x26A1],
+    [0x26AA, 0x26AB], [0x26BD, 0x26BE], [0x26C4, 0x26C5], [0x26CE, 0x26CE], [0x26D4, 0x26D4], [0x26EA, 0x26EA],
+    [0x26F2, 0x26F3], [0x26F5, 0x26F5], [0x26FA, 0x26FA], [0x26FD, 0x26FD], [0x2705, 0x2705], [0x270A, 0x270B],
+    [0x2728, 0x2728], [0x274C, 0x274C], [0x274E, 0x274E], [0x2753, 0x2755], [0x2757, 0x2757], [0x2795, 0x2797],
+    [0x27B0, 0x27B0], [0x27BF, 0x27BF], [0x2B1B, 0x2B1C], [0x2B50, 0x2B50], [0x2B55, 0x2B55],
+    [0x2E80, 0x303E], [0x3041, 0x33FF], [0x3400, 0x4DBF], [0x4E00, 0x9FFF], [0xA000, 0xA4CF], [0xA960, 0xA97F],
+    [0xAC00, 0xD7A3], [0xF900, 0xFAFF], [0xFE10, 0xFE19], [0xFE30, 0xFE6F], [0xFF00, 0xFF60], [0xFFE0, 0xFFE6],
+    [0x16FE0, 0x18CFF], [0x1B000, 0x1B2FF], [0x1F004, 0x1F004], [0x1F0CF, 0x1F0CF], [0x1F18E, 0x1F18E],
+    [0x1F191, 0x1F19A], [0x1F200, 0x1F251], [0x1F300, 0x1F64F], [0x1F680, 0x1F6FF], [0x1F7E0, 0x1F7EB],
+    [0x1F90C, 0x1F9FF], [0x1FA70, 0x1FAFF], [0x20000, 0x2FFFD], [0x30000, 0x3FFFD],
+];
+
+/** Whether a code point is drawn full-width (East Asian Width W/F, emoji) */
+export function isWideCodePoint(code: number): boolean {
+    let lo = 0;
+    let hi = WIDE_RANGES.length - 1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const [start, end] = WIDE_RANGES[mid];
+        if (code < start) hi = mid - 1;
+        else if (code > end) lo = mid + 1;
+        else return true;
+    }
+    return false;
+}
+
+// Code points that attach to the preceding character: combining marks, ZWJ,
+// variation selectors, emoji skin tones, tag characters and Hangul vowel/final jamo
+const EXTENDING = /[\p{M}\u200D\uFE00-\uFE0F\u{1F3FB}-\u{1F3FF}\u{E0020}-\u{E007F}\u1160-\u11FF]/u;
+// Invisible formatting characters
+const ZERO_WIDTH = /^[\p{Cc}\p{Cf}\p{M}]/u;
+const EMOJI_SEQUENCE = /[\u200D\uFE0F\u{1F3FB}-\u{1F3FF}\u{1F1E6}-\u{1F1FF}]/u;
+
+function isRegionalIndicator(code: number): boolean {
+    return code >= 0x1F1E6 && code <= 0x1F1FF;
+}
+
+/**
+ * Splits text into user-perceived characters: a base character with its
+ * combining marks, emoji ZWJ sequences, skin tone modifiers and flag pairs.
+ */
+export function splitGraphemes(text: string): string[] {
+    const clusters: string[] = [];
+    let joinNext = false;
+    for (const ch of text) {
+        const code = ch.codePointAt(0)!;
+        const last = clusters[clusters.length - 1];
+        const flagPair = last !== undefined && isRegionalIndicator(code)
+            && [...last].length === 1 && isRegionalIndicator(last.codePointAt(0)!);
+        if (last !== undefined && (joinNext || flagPair || EXTENDING.test(ch))) {
+            clusters[clusters.length - 1] = last + ch;
+        } else {
+            clusters.push(ch);
+        }
+        joinNext = code === 0x200D;
+    }
+    return clusters;
+}
+
+/** Advance width of one grapheme cluster in 1/1000 em */
+function graphemeWidth(cluster: string, font: FontTable): number {
+    const code = cluster.codePointAt(0)!;
+    if (code >= 0x20 && code <= 0x7e && cluster.length === 1) return font.widths[code - 0x20];
+    if (isWideCodePoint(code) || EMOJI_SEQUENCE.test(cluster)) return 1000;
+    if (ZERO_WIDTH.test(cluster)) return 0;
+    // Accented Latin letters take the width of their base letter
+    const base = cluster.normalize('NFD').charCodeAt(0);
+    if (base >= 0x20 && base <= 0x7e) return font.widths[base - 0x20];
+    return font.fallback;
+}
+
+/** Picks the width tables for the first generic family a font-family list implies */
+function tablesFor(style: TextStyle): FontTables {
+    if (style.monospace) return MONO;
+    const family = (style.fontFamily ?? '').toLowerCase();
+    if (/mono|courier|consolas|menlo/.test(family)) return MONO;
+    if (/sans|arial|helvetica|roboto|segoe|verdana|tahoma/.test(family)) return SANS;
+    if (/serif|times|georgia/.test(family)) return SERIF;
+    return SANS;
+}
+
+/**
+ * Deterministic measurer based on bundled advance-width tables, so layouts
+ * come out the same in browsers, Node and tests. Full-width characters and
+ * emoji count as 1em, combining marks as nothing.
+ */
+export class TableTextMeasurer implements TextMeasurer {
+    measure(text: string, style: TextStyle): number {
+        const tables = tablesFor(style);
+        const font = style.bold
+            ? (style.italic ? tables.boldItalic : tables.bold)
+            : (style.italic ? tables.italic : tables.regular);
+
+        let units = 0;
+        for (const cluster of splitGraphemes(text)) {
+            units += graphemeWidth(cluster, font);
+        }
+        return units * style.fontSize / 1000;
+    }
+}
+
+export const defaultTextMeasurer: TextMeasurer = new TableTextMeasurer();
+
+/**
+ * Measurer backed by canvas measureText(), for pages where the real fonts are
+ * available. Falls back to `fallback` where no canvas can be created.
+ */
+export class CanvasTextMeasurer implements TextMeasurer {
+    private context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
+    private cache = new Map<string, number>();
+
+    constructor(private fallback: TextMeasurer = defaultTextMeasurer) {
+        if (typeof OffscreenCanvas !== 'undefined') {
+            this.context = new OffscreenCanvas(1, 1).getContext('2d');
+        } else if (typeof document !== 'undefined') {
+            this.context = document.createElement('canvas').getContext('2d');
+        }
+    }
+
+    measure(text: string, style: TextStyle): number {
+        if (!this.context) return this.fallback.measure(text, style);
+
+        const family = style.monospace ? 'monospace' : (style.fontFamily || 'sans-serif');
+        const font = `${style.italic ? 'italic ' : ''}${style.bold ? 'bold ' : ''}${style.fontSize}px ${family}`;
+        const key = `${font}\n${text}`;
+        let width = this.cache.get(key);
+        if (width === undefined) {
+            this.context.font = font;
+            width = this.context.measureText(text).width;
+            if (this.cache.size >= 10000) this.cache.clear();
+            this.cache.set(key, width);
+        }
+        return width;
+    }
+}
+
+/**
+ * Width of the widest line of rich text, measuring each styled run with its
+ * own weight, slant and family.
+ */
+export function measureRichText(measurer: TextMeasurer, text: string, style: TextStyle): number {
+    const widths = text.split('\n').map(line => parseRichTextRuns(line).reduce((sum, run) => sum + measurer.measure(run.text, {
+        ...style,
+        bold: style.bold || run.bold,
+        italic: style.italic || run.italic,
+        monospace: style.monospace || run.monospace
+    }), 0));
+    return Math.max(0, ...widths);
+}
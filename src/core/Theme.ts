@@ -0,0 +1,63 @@
+/**
+ * Recursively optional version of a theme type, used for overrides.
+ */
+export type DeepPartial<T> = {
+    [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merges theme overrides over a base theme.
+ * Returns a new object; neither the base nor the overrides are modified.
+ * Undefined override values are ignored so they never erase a default.
+ */
+export function mergeTheme<T>(base: T, ...overrides: (DeepPartial<T> | undefined)[]): T {
+    const merge = (target: any, source: any): any => {
+        const result: any = { ...target };
+        Object.keys(source).forEach(key => {
+            const value = source[key];
+            if (value === undefined) return;
+            if (isPlainObject(value) && isPlainObject(result[key])) {
+                result[key] = merge(result[key], value);
+            } else {
+                result[key] = value;
+            }
+        });
+        return result;
+    };
+
+    return overrides.reduce<T>((acc, override) => (override ? merge(acc, override) : acc), merge({}, base));
+}
+
+/**
+ * Returns the preset name of a `!theme <name>` directive, or undefined if the
+ * line is not one. A trailing `from <location>` is accepted but ignored since
+ * presets always come from the bundle.
+ */
+export function parseThemeDirective(line: string): string | undefined {
+    const match = line.trim().match(/^!theme\s+([\w-]+)(?:\s+from\s+\S+)?$/i);
+    return match ? match[1].toLowerCase() : undefined;
+}
+
+/**
+ * Looks up a named preset; undefined for unknown names, including the
+ * names of Object.prototype members.
+ */
+export function findThemePreset<T>(presets: Record<string, DeepPartial<T>>, name: string): DeepPartial<T> | undefined {
+    const key = name.toLowerCase();
+    return Object.prototype.hasOwnProperty.call(presets, key) ? presets[key] : undefined;
+}
+
+/**
+ * Looks up a named preset, throwing for unknown names.
+ */
+export function getThemePreset<T>(presets: Record<string, DeepPartial<T>>, name: string): DeepPartial<T> {
+    const preset = findThemePreset(presets, name);
+    if (!preset) {
+        throw new Error(`Unknown theme: ${name}`);
+    }
+    return preset;
+}
@@ -0,0 +1,35 @@
+import { DiagramDefinition, getStatements } from '../../core/DiagramRegistry';
+import { ComponentDiagram } from './ComponentDiagram';
+import { formatComponentStatement } from './ComponentFormatter';
+import { ComponentParser } from './ComponentParser';
+import { componentFromJSON, componentToJSON } from './ComponentJson';
+import { ComponentRenderer } from './ComponentRenderer';
+import { ComponentTheme, componentThemePresets } from './ComponentTheme';
+import { DeepPartial, getThemePreset, mergeTheme } from '../../core/Theme';
+
+// Explicit element declarations
+const COMPONENT_KEYWORDS = /^(component|package|node|cloud|database|frame|folder)\b/i;
+// Bracket syntax [Name] at the start of a statement
+const COMPONENT_BRACKETS = /^\[[^\]]+\]/;
+
+export const componentDefinition: DiagramDefinition<ComponentDiagram> = {
+    type: 'component',
+    startTags: ['component'],
+    detect(content: string): number {
+        const statements = getStatements(content);
+        const hasBrackets = statements.some(s => COMPONENT_BRACKETS.test(s));
+        let score = 0;
+        if (hasBrackets || statements.some(s => COMPONENT_KEYWORDS.test(s))) score += 3;
+        // Brackets outweigh sequence control flow, but not a full sequence diagram
+        if (hasBrackets) score += 2;
+        return score;
+    },
+    createParser: options => new ComponentParser(options),
+    createRenderer: options => new ComponentRenderer(mergeTheme<DeepPartial<ComponentTheme>>(
+        options?.themeName ? getThemePreset(componentThemePresets, options.themeName) : {},
+        options?.theme as DeepPartial<ComponentTheme> | undefined
+    ), options),
+    toJSON: componentToJSON,
+    fromJSON: componentFromJSON,
+    formatStatement: formatComponentStatement,
+};
@@ -1,11 +1,15 @@
 
-import { Diagram } from '../../core/Diagram';
+import { Diagram, SourceRange } from '../../core/Diagram';
+import { Link } from '../../core/Link';
+import { DeepPartial } from '../../core/Theme';
+import { ElementStyles } from '../../core/SkinParam';
+import { ComponentTheme } from './ComponentTheme';
 
 export type ComponentType = 'component' | 'interface' | 'package' | 'node' | 'folder' | 'frame' | 'cloud' | 'database' | 'port' | 'portin' | 'portout';
 export type RelationshipType = 'solid' | 'dashed' | 'dotted';
 export type Direction = 'left' | 'right' | 'up' | 'down';
 
-export interface Component {
+export interface Component extends SourceRange {
     name: string; // Unique ID
     label?: string; // Display name
     type: ComponentType;
@@ -20,9 +24,10 @@ export interface Component {
         reference: string;
         position: 'left' | 'right' | 'top' | 'bottom';
     };
+    link?: Link;
 }
 
-export interface Relationship {
+export interface Relationship extends SourceRange {
     from: string; // Component ID
     to: string; // Component ID
     label?: string;
@@ -30,14 +35,16 @@ export interface Relationship {
     direction?: Direction;
     color?: string;
     showArrowHead?: boolean;
+    link?: Link;
 }
 
-export interface Note {
+export interface Note extends SourceRange {
     text: string;
     position?: 'left' | 'right' | 'top' | 'bottom';
     linkedTo?: string; // Component ID
     id: string;
     alias?: string; // Alias for floating notes (e.g., "note as N")
+    link?: Link;
 }
 
 export class ComponentDiagram implements Diagram {
@@ -47,12 +54,26 @@ export class ComponentDiagram implements Diagram {
     notes: Note[] = [];
     title?: string;
 
+    // Preset picked with !theme; the renderer's theme overrides sit on top of it
+    themePreset: DeepPartial<ComponentTheme> = {};
+    // Collected from skinparam statements
+    themeOverrides: DeepPartial<ComponentTheme> = {};
+    elementStyles: ElementStyles = {};
+
+    private sourceRange: SourceRange = {};
+
+    /** Sets the source lines recorded on the elements added from now on */
+    setSourceRange(line: number, end: number = line) {
+        this.sourceRange = { sourceLine: line, sourceEnd: end };
+    }
+
     addComponent(name: string, type: ComponentType, label?: string, parentId?: string, color?: string): Component {
         let component = this.components.find(c => c.name === name);
         if (!component) {
             component = {
                 name, type, label: label || name, isVisible: true, parentId, color,
-                declarationOrder: this.components.length
+                declarationOrder: this.components.length,
+                ...this.sourceRange
             };
             this.components.push(component);
         } else {
@@ -61,17 +82,18 @@ export class ComponentDiagram implements Diagram {
             if (parentId) component.parentId = parentId;
             if (color) component.color = color;
             if (type !== 'component' && component.type === 'component') component.type = type; // Upgrade type
+            Object.assign(component, this.sourceRange); // The declaration wins over an earlier implicit use
         }
         return component;
     }
 
-    addRelationship(from: string, to: string, type: RelationshipType = 'solid', label?: string, direction?: Direction, showArrowHead: boolean = true, _parentId?: string) {
-        this.relationships.push({ from, to, type, label, direction, showArrowHead });
+    addRelationship(from: string, to: string, type: RelationshipType = 'solid', label?: string, direction?: Direction, showArrowHead: boolean = true, _parentId?: string, link?: Link) {
+        this.relationships.push({ from, to, type, label, direction, showArrowHead, link, ...this.sourceRange });
     }
 
-    addNote(text: string, position?: 'left' | 'right' | 'top' | 'bottom', linkedTo?: string, alias?: string) {
+    addNote(text: string, position?: 'left' | 'right' | 'top' | 'bottom', linkedTo?: string, alias?: string, link?: Link) {
         const id = `note_${this.notes.length}`;
-        this.notes.push({ text, position, linkedTo, id, alias });
+        this.notes.push({ text, position, linkedTo, id, alias, link, ...this.sourceRange });
     }
 
     findComponent(name: string): Component | undefined {
@@ -0,0 +1,102 @@
+import { FormattedStatement, formatName } from '../../core/Formatter';
+import { extractLink } from '../../core/Link';
+
+// The statement patterns below mirror ComponentParser, in the order it tries them
+const POSITION_HINT = /^\[([^\]]+)\]\s+(left\s+of|right\s+of|top\s+of|bottom\s+of)\s+\[([^\]]+)\](?:\s+(#\w+))?$/i;
+const COMPONENT = /^component\s+(?:\[(.*?)\]|(".*?"|\S+))(?:\s+as\s+(\S+))?(?:\s*<<\s*(.+?)\s*>>)?(?:\s+(#\w+))?(\s*\[)?$/i;
+const INTERFACE = /^interface\s+(".*?"|\S+)(?:\s+as\s+(\S+))?(?:\s*<<\s*(.+?)\s*>>)?(?:\s+(#\w+))?(\s*\[)?$/i;
+const CIRCLE = /^\(\)\s+(".*?"|\S+)(?:\s+as\s+(\S+))?(?:\s*<<\s*(.+?)\s*>>)?(?:\s+(#\w+))?(\s*\[)?$/;
+const BRACKET = /^\[([^\]]+)\](?:\s+as\s+(\S+))?(?:\s*<<\s*(.+?)\s*>>)?(?:\s+(#\w+))?(\s*\[)?$/;
+const GROUP = /^(package|node|folder|frame|cloud|database|component|interface)(?:\s+(".*?"|\S+))?\s*\{$/i;
+const PORT = /^(port|portin|portout)\s+(".*?"|\S+)(?:\s+as\s+(\S+))?$/i;
+const COMPONENT_REF = `(\\(\\)\\s+)?(?:\\[([^\\]]+)\\]|(".*?"|[^\\s-]+))`;
+const ARROW_REF = `([<>]*[-.]+[<>]*[^[\\]\\s]*)`;
+const SEPARATOR = `(?:\\s+|(?<=[^\\s])(?=[<\\-.>])|(?<=[<\\-.>])(?=[^\\s]))`;
+const RELATIONSHIP = new RegExp(`^${COMPONENT_REF}${SEPARATOR}${ARROW_REF}${SEPARATOR}${COMPONENT_REF}(?:\\s*:\\s*(.*))?$`);
+const FLOATING_NOTE = /^note\s+as\s+(\S+)$/i;
+const NOTE = /^note\s+(left|right|top|bottom)\s+of\s+(?:\[(.*?)\]|(".*?"|\S+))(?:\s*:\s*(.*))?$/i;
+
+const END_DESCRIPTION = /\]$/;
+const END_NOTE = /^end note$/i;
+
+/** `[Name]`, `() Name` or a plain name, as a relationship or note refers to it */
+function formatReference(parens: string | undefined, bracketed: string | undefined, plain: string | undefined): string {
+    if (bracketed !== undefined) return `${parens ? '() ' : ''}[${bracketed}]`;
+    return `${parens ? '() ' : ''}${formatName(plain!)}`;
+}
+
+/**
+ * A declaration: `keyword name as alias <<stereotype>> #color`, opening a
+ * description body when it ends with `[`.
+ */
+function formatDeclaration(name: string, alias: string | undefined, stereotype: string | undefined, color: string | undefined, description: string | undefined): FormattedStatement {
+    const text = `${name}${alias ? ` as ${alias}` : ''}${stereotype ? ` <<${stereotype}>>` : ''}${color ? ` ${color}` : ''}${description ? ' [' : ''}`;
+    return {
+        text,
+        aliasAt: alias ? name.length : undefined,
+        bodyEnd: description ? END_DESCRIPTION : undefined
+    };
+}
+
+/**
+ * Writes a component diagram statement in canonical form: lower-case
+ * keywords, single spaces, `[A] --> [B]: label` relationships and names
+ * quoted only when they are not plain identifiers.
+ */
+export function formatComponentStatement(statement: string): FormattedStatement {
+    // A link's label stays where it was written, so lines with links keep their text
+    const { text: line, link } = extractLink(statement);
+    const formatted = formatLine(line);
+    return link ? { ...formatted, text: statement, aliasAt: undefined } : formatted;
+}
+
+function formatLine(line: string): FormattedStatement {
+    let match = line.match(POSITION_HINT);
+    if (match) {
+        const position = match[2].toLowerCase().replace(/\s+/, ' ');
+        return { text: `[${match[1]}] ${position} [${match[3]}]${match[4] ? ` ${match[4]}` : ''}` };
+    }
+
+    match = line.match(COMPONENT);
+    if (match) {
+        const name = match[1] !== undefined ? `[${match[1]}]` : formatName(match[2]);
+        return formatDeclaration(`component ${name}`, match[3], match[4], match[5], match[6]);
+    }
+
+    match = line.match(INTERFACE);
+    if (match) return formatDeclaration(`interface ${formatName(match[1])}`, match[2], match[3], match[4], match[5]);
+
+    // The parser reads no description after `() Name`, so a trailing `[` stays as written
+    match = line.match(CIRCLE);
+    if (match && !match[5]) return formatDeclaration(`() ${formatName(match[1])}`, match[2], match[3], match[4], undefined);
+
+    match = line.match(BRACKET);
+    if (match) return formatDeclaration(`[${match[1]}]`, match[2], match[3], match[4], match[5]);
+
+    match = line.match(GROUP);
+    if (match) return { text: `${match[1].toLowerCase()}${match[2] ? ` ${formatName(match[2])}` : ''} {`, block: 'open' };
+
+    if (line === '}') return { text: line, block: 'close' };
+
+    match = line.match(PORT);
+    if (match) return formatDeclaration(`${match[1].toLowerCase()} ${formatName(match[2])}`, match[3], undefined, undefined, undefined);
+
+    match = line.match(RELATIONSHIP);
+    if (match) {
+        const [, parens1, bracketed1, plain1, arrow, parens2, bracketed2, plain2, label] = match;
+        const relationship = `${formatReference(parens1, bracketed1, plain1)} ${arrow} ${formatReference(parens2, bracketed2, plain2)}`;
+        return { text: label === undefined ? relationship : `${relationship}:${label ? ` ${label}` : ''}` };
+    }
+
+    match = line.match(FLOATING_NOTE);
+    if (match) return { text: `note as ${match[1]}`, bodyEnd: END_NOTE };
+
+    match = line.match(NOTE);
+    if (match) {
+        const note = `note ${match[1].toLowerCase()} of ${formatReference(undefined, match[2], match[3])}`;
+        if (match[4]) return { text: `${note}: ${match[4]}` };
+        return { text: note, bodyEnd: END_NOTE };
+    }
+
+    return { text: line };
+}
@@ -0,0 +1,128 @@
+import { DiagramJson, DiagramJsonError, DIAGRAM_JSON_VERSION, readDiagramJson, toPlainJson } from '../../core/DiagramJson';
+import { DeepPartial } from '../../core/Theme';
+import { ElementStyles } from '../../core/SkinParam';
+import { Component, ComponentDiagram, ComponentType, Direction, Note, Relationship, RelationshipType } from './ComponentDiagram';
+import { ComponentTheme } from './ComponentTheme';
+
+/** JSON model of a component diagram, format version 1 */
+export interface ComponentDiagramJson extends DiagramJson {
+    type: 'component';
+    title?: string;
+    components: Component[];
+    relationships: Relationship[];
+    notes: Note[];
+    /** Preset picked with `!theme` in the source */
+    themePreset?: DeepPartial<ComponentTheme>;
+    themeOverrides: DeepPartial<ComponentTheme>;
+    elementStyles: ElementStyles;
+}
+
+const COMPONENT_TYPES: readonly ComponentType[] = ['component', 'interface', 'package', 'node', 'folder', 'frame', 'cloud', 'database', 'port', 'portin', 'portout'];
+const RELATIONSHIP_TYPES: readonly RelationshipType[] = ['solid', 'dashed', 'dotted'];
+const DIRECTIONS: readonly Direction[] = ['left', 'right', 'up', 'down'];
+const SIDES = ['left', 'right', 'top', 'bottom'] as const;
+
+export function componentToJSON(diagram: ComponentDiagram): ComponentDiagramJson {
+    return toPlainJson({
+        version: DIAGRAM_JSON_VERSION,
+        type: 'component',
+        title: diagram.title,
+        components: diagram.components,
+        relationships: diagram.relationships,
+        notes: diagram.notes,
+        themePreset: diagram.themePreset,
+        themeOverrides: diagram.themeOverrides,
+        elementStyles: diagram.elementStyles
+    });
+}
+
+/**
+ * Builds a component diagram from its JSON model. Relationships, notes and
+ * parents must name components of the model (by name or alias); relationships
+ * may also name floating notes.
+ * @throws DiagramJsonError if the model does not match the format
+ */
+export function componentFromJSON(json: unknown): ComponentDiagram {
+    const model = readDiagramJson(json, 'component');
+    const diagram = new ComponentDiagram();
+    diagram.title = model.optionalString('title');
+
+    diagram.components = model.objects('components', (c, i) => {
+        const hint = c.optionalObject('positionHint');
+        const name = c.string('name');
+        return {
+            name,
+            label: c.optionalString('label') ?? name,
+            type: c.optionalEnum('type', COMPONENT_TYPES) ?? 'component',
+            alias: c.optionalString('alias'),
+            stereotype: c.optionalString('stereotype'),
+            color: c.optionalString('color'),
+            isVisible: c.optionalBoolean('isVisible') ?? true,
+            parentId: c.optionalString('parentId'),
+            longDescription: c.optionalString('longDescription'),
+            declarationOrder: c.optionalInteger('declarationOrder') ?? i,
+            positionHint: hint && { reference: hint.string('reference'), position: hint.enum('position', SIDES) },
+            link: c.link(),
+            ...c.sourceRange()
+        };
+    });
+    const names = new Set(diagram.components.flatMap(c => c.alias ? [c.name, c.alias] : [c.name]));
+    const expectComponent = (name: string | undefined, path: string) => {
+        if (name !== undefined && !names.has(name)) throw new DiagramJsonError(path, `unknown component ${name}`);
+    };
+    diagram.components.forEach((c, i) => {
+        expectComponent(c.parentId, `/components/${i}/parentId`);
+        expectComponent(c.positionHint?.reference, `/components/${i}/positionHint/reference`);
+    });
+    checkNesting(diagram.components);
+
+    diagram.notes = model.objects('notes', (n, i) => {
+        const note: Note = {
+            text: n.optionalString('text') ?? '',
+            position: n.optionalEnum('position', SIDES),
+            linkedTo: n.optionalString('linkedTo'),
+            id: n.optionalString('id') ?? `note_${i}`,
+            alias: n.optionalString('alias'),
+            link: n.link(),
+            ...n.sourceRange()
+        };
+        expectComponent(note.linkedTo, n.pathOf('linkedTo'));
+        return note;
+    });
+    diagram.notes.forEach(n => {
+        if (n.alias) names.add(n.alias);
+    });
+
+    diagram.relationships = model.objects('relationships', r => {
+        const relationship: Relationship = {
+            from: r.string('from'),
+            to: r.string('to'),
+            label: r.optionalString('label'),
+            type: r.optionalEnum('type', RELATIONSHIP_TYPES) ?? 'solid',
+            direction: r.optionalEnum('direction', DIRECTIONS),
+            color: r.optionalString('color'),
+            showArrowHead: r.optionalBoolean('showArrowHead') ?? true,
+            link: r.link(),
+            ...r.sourceRange()
+        };
+        expectComponent(relationship.from, r.pathOf('from'));
+        expectComponent(relationship.to, r.pathOf('to'));
+        return relationship;
+    });
+    diagram.themePreset = model.record('themePreset');
+    diagram.themeOverrides = model.record('themeOverrides');
+    diagram.elementStyles = model.record('elementStyles');
+    return diagram;
+}
+
+/** Rejects parent cycles, which the layout would follow forever */
+function checkNesting(components: Component[]) {
+    const parents = new Map(components.map(c => [c.name, c.parentId]));
+    components.forEach((c, i) => {
+        const seen = new Set<string>([c.name]);
+        for (let parent = c.parentId; parent !== undefined; parent = parents.get(parent)) {
+            if (seen.has(parent)) throw new DiagramJsonError(`/components/${i}/parentId`, `${c.name} is nested in itself`);
+            seen.add(parent);
+        }
+    });
+}
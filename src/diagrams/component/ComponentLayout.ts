@@ -1,6 +1,7 @@
 
 import { ComponentDiagram, Component, Relationship, Note } from './ComponentDiagram';
 import { ComponentTheme } from './ComponentTheme';
+import { defaultTextMeasurer, measureRichText, TextMeasurer } from '../../core/TextMeasurer';
 
 export interface Rect {
     x: number;
@@ -36,7 +37,12 @@ export class ComponentLayout {
     private gridCells = new Map<string, { x: number, w: number }>();
     private noteLayoutMap = new Map<string, Rect>(); // Map note alias/id to position
 
-    constructor(private diagram: ComponentDiagram, private theme: ComponentTheme) { }
+    constructor(private diagram: ComponentDiagram, private theme: ComponentTheme, private measurer: TextMeasurer = defaultTextMeasurer) { }
+
+    /** Width of the widest line of a label drawn in the given font size */
+    private textWidth(lines: string[], fontSize: number, bold = false): number {
+        return measureRichText(this.measurer, lines.join('\n'), { fontFamily: this.theme.fontFamily, fontSize, bold });
+    }
 
     calculateLayout(): ComponentLayoutResult {
         this.layoutMap.clear();
@@ -297,8 +303,7 @@ export class ComponentLayout {
                 // Interfaces usually have labels outside, but we still need to account for them in the layout cell
                 const label = comp.label || comp.name;
                 const lines = label.split(/\\n|\n/);
-                const maxLineLen = Math.max(...lines.map(l => l.length));
-                const textWidth = maxLineLen * 8;
+                const textWidth = this.textWidth(lines, this.theme.fontSize - 2);
                 width = Math.max(width, textWidth);
                 height += lines.length * 20; // Space for label below
             } else {
@@ -313,8 +318,7 @@ export class ComponentLayout {
                 } else {
                     const label = comp.label || comp.name;
                     const lines = label.split(/\\n|\n/);
-                    const maxLineLen = Math.max(...lines.map(l => l.length));
-                    width = Math.max(width, maxLineLen * 9 + 20);
+                    width = Math.max(width, this.textWidth(lines, this.theme.fontSize, true) + 20);
                     height = Math.max(height, lines.length * 20 + 20);
                 }
             }
@@ -917,7 +921,7 @@ export class ComponentLayout {
         this.diagram.notes.forEach((note, i) => {
             // 1. Measure note dimensions first
             const lines = note.text.split('\n');
-            const width = Math.max(100, Math.max(...lines.map(l => l.length * 8)) + 20);
+            const width = Math.max(100, this.textWidth(lines, this.theme.fontSize - 1) + 20);
             const height = lines.length * 20 + 20;
 
             let x = 0;
@@ -1,39 +1,58 @@
 
-import { Parser } from '../../core/Parser';
+import { Parser, ParseResult, ParserOptions } from '../../core/Parser';
+import { Diagnostic, createDiagnostic, diagnosticError } from '../../core/Diagnostic';
+import { PreprocessResult, preprocess } from '../../core/Preprocessor';
+import { SkinParamReader, applySkinParams } from '../../core/SkinParam';
+import { DeepPartial, findThemePreset, parseThemeDirective } from '../../core/Theme';
+import { ComponentTheme, componentThemePresets } from './ComponentTheme';
+import { componentSkinParams } from './ComponentSkinParams';
 import { ComponentDiagram, ComponentType, RelationshipType, Direction } from './ComponentDiagram';
+import { Link, extractLink } from '../../core/Link';
 
 export class ComponentParser implements Parser {
-    parse(content: string): ComponentDiagram {
+    constructor(private options: ParserOptions = {}) { }
+
+    parse(content: string, preprocessed?: PreprocessResult): ComponentDiagram {
+        const { diagram, diagnostics } = this.parseWithDiagnostics(content, preprocessed);
+        const error = diagnostics.find(d => d.severity === 'error');
+        if (error) throw diagnosticError(error);
+        return diagram;
+    }
+
+    parseWithDiagnostics(content: string, expanded?: PreprocessResult): ParseResult<ComponentDiagram> {
         const diagram = new ComponentDiagram();
-        const lines = content.split('\n');
+        const diagnostics: Diagnostic[] = [];
+        // Expand !define, !if, procedures etc. first, unless the caller already did; diagnostics are mapped back at the end
+        const preprocessed = expanded ?? preprocess(content, this.options.preprocess);
+        const lines = preprocessed.lines;
 
         // Pass 1: Collect definitions and note aliases
         const explicitDefinitions = new Set<string>();
         const noteAliases = new Set<string>();
 
         for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
+            const line = extractLink(lines[i].trim()).text;
             if (!line || line.startsWith("'") || line.startsWith('@')) continue;
 
-            const componentMatch = line.match(/^component\s+(?:\[(.*?)\]|(".*?"|\S+))(?:\s+as\s+(\S+))?(?:\s+(#\w+))?(?:\s*\[)?$/i);
+            const componentMatch = line.match(/^component\s+(?:\[(.*?)\]|(".*?"|\S+))(?:\s+as\s+(\S+))?(?:\s*<<\s*(.+?)\s*>>)?(?:\s+(#\w+))?(?:\s*\[)?$/i);
             if (componentMatch) {
                 explicitDefinitions.add(componentMatch[3] || componentMatch[1] || (componentMatch[2] ? componentMatch[2].replace(/^"(.*)"$/, '$1') : ''));
                 continue;
             }
 
-            const interfaceMatch = line.match(/^interface\s+(".*?"|\S+)(?:\s+as\s+(\S+))?(?:\s+(#\w+))?(?:\s*\[)?$/i);
+            const interfaceMatch = line.match(/^interface\s+(".*?"|\S+)(?:\s+as\s+(\S+))?(?:\s*<<\s*(.+?)\s*>>)?(?:\s+(#\w+))?(?:\s*\[)?$/i);
             if (interfaceMatch) {
                 explicitDefinitions.add(interfaceMatch[2] || interfaceMatch[1].replace(/^"(.*)"$/, '$1'));
                 continue;
             }
 
-            const circleMatch = line.match(/^\(\)\s+(".*?"|\S+)(?:\s+as\s+(\S+))?(?:\s+(#\w+))?(?:\s*\[)?$/);
+            const circleMatch = line.match(/^\(\)\s+(".*?"|\S+)(?:\s+as\s+(\S+))?(?:\s*<<\s*(.+?)\s*>>)?(?:\s+(#\w+))?(?:\s*\[)?$/);
             if (circleMatch) {
                 explicitDefinitions.add(circleMatch[2] || circleMatch[1].replace(/^"(.*)"$/, '$1'));
                 continue;
             }
 
-            const bracketMatch = line.match(/^\[([^\]]+)\](?:\s+as\s+(\S+))?(?:\s+(#\w+))?(?:\s*\[)?$/);
+            const bracketMatch = line.match(/^\[([^\]]+)\](?:\s+as\s+(\S+))?(?:\s*<<\s*(.+?)\s*>>)?(?:\s+(#\w+))?(?:\s*\[)?$/);
             if (bracketMatch) {
                 explicitDefinitions.add(bracketMatch[2] || bracketMatch[1]);
                 continue;
@@ -53,12 +72,19 @@ export class ComponentParser implements Parser {
         }
 
         // Pass 2: Main parsing
-        let pendingNote: { text: string[], position?: any, linkedTo?: string, alias?: string, isDescription?: boolean } | null = null;
+        let pendingNote: { text: string[], position?: any, linkedTo?: string, alias?: string, isDescription?: boolean, link?: Link } | null = null;
         let parentStack: string[] = [];
+        // Line indexes of the pending note/description and of unclosed groups
+        let pendingNoteLine = -1;
+        const groupLines: number[] = [];
+        const skinParams = new SkinParamReader();
+        let preset: DeepPartial<ComponentTheme> = {};
 
         for (let i = 0; i < lines.length; i++) {
             let line = lines[i].trim();
             if (!line || line.startsWith("'") || line.startsWith('@')) continue;
+            const sourceLine = preprocessed.lineMap[i] + 1;
+            diagram.setSourceRange(sourceLine);
 
             // Handle multi-line notes or descriptions end
             if (pendingNote) {
@@ -68,16 +94,21 @@ export class ComponentParser implements Parser {
                         const comp = diagram.findComponent(pendingNote.linkedTo);
                         if (comp) {
                             comp.label = description;
+                            comp.sourceEnd = sourceLine;
                         }
                         pendingNote = null;
                     } else if (line.toLowerCase() === 'end note') {
-                        diagram.addNote(pendingNote.text.join('\n'), pendingNote.position, pendingNote.linkedTo, pendingNote.alias);
+                        diagram.setSourceRange(preprocessed.lineMap[pendingNoteLine] + 1, sourceLine);
+                        const body = extractLink(pendingNote.text.join('\n'));
+                        diagram.addNote(body.text, pendingNote.position, pendingNote.linkedTo, pendingNote.alias, pendingNote.link ?? body.link);
                         pendingNote = null;
                     } else {
                         pendingNote.text.push(line);
                     }
                 } else if (line.toLowerCase() === 'end note' && !pendingNote.isDescription) {
-                    diagram.addNote(pendingNote.text.join('\n'), pendingNote.position, pendingNote.linkedTo, pendingNote.alias);
+                    diagram.setSourceRange(preprocessed.lineMap[pendingNoteLine] + 1, sourceLine);
+                    const body = extractLink(pendingNote.text.join('\n'));
+                    diagram.addNote(body.text, pendingNote.position, pendingNote.linkedTo, pendingNote.alias, pendingNote.link ?? body.link);
                     pendingNote = null;
                 } else {
                     if (pendingNote.isDescription && line.endsWith(']')) {
@@ -88,6 +119,7 @@ export class ComponentParser implements Parser {
                         const comp = diagram.findComponent(pendingNote.linkedTo!);
                         if (comp) {
                             comp.label = description;
+                            comp.sourceEnd = sourceLine;
                         }
                         pendingNote = null;
                     } else {
@@ -97,6 +129,25 @@ export class ComponentParser implements Parser {
                 continue;
             }
 
+            // skinparam, single-line and block forms (blocks also end with '}')
+            if (skinParams.read(lines[i], i)) continue;
+
+            const themeName = parseThemeDirective(line);
+            if (themeName) {
+                const found = findThemePreset(componentThemePresets, themeName);
+                if (found) {
+                    preset = found;
+                } else {
+                    diagnostics.push(createDiagnostic('warning', i, lines[i], `Unknown theme: ${themeName}`));
+                }
+                continue;
+            }
+
+            // A [[url{tooltip} label]] link belongs to the component, relationship or note of this line
+            const statement = extractLink(line);
+            line = statement.text;
+            const link = statement.link;
+
             const currentParentId = parentStack.length > 0 ? parentStack[parentStack.length - 1] : undefined;
 
             // 1. Position Hint Components (Extended Syntax)
@@ -115,60 +166,76 @@ export class ComponentParser implements Parser {
 
                 const comp = diagram.addComponent(name, 'component', name, currentParentId, this.parseColor(color));
                 comp.positionHint = { reference: refName, position };
+                if (link) comp.link = link;
                 continue;
             }
 
             // 2. Components and Interfaces definitions
-            const componentMatch = line.match(/^component\s+(?:\[(.*?)\]|(".*?"|\S+))(?:\s+as\s+(\S+))?(?:\s+(#\w+))?(?:\s*\[)?$/i);
+            const componentMatch = line.match(/^component\s+(?:\[(.*?)\]|(".*?"|\S+))(?:\s+as\s+(\S+))?(?:\s*<<\s*(.+?)\s*>>)?(?:\s+(#\w+))?(?:\s*\[)?$/i);
             if (componentMatch) {
                 const bracketName = componentMatch[1];
                 const simpleName = componentMatch[2];
                 const alias = componentMatch[3];
-                const color = componentMatch[4];
+                const stereotype = componentMatch[4];
+                const color = componentMatch[5];
 
                 const label = bracketName || (simpleName ? simpleName.replace(/^"(.*)"$/, '$1') : '');
                 const id = alias || label;
 
-                diagram.addComponent(id, 'component', label, currentParentId, this.parseColor(color));
+                const comp = diagram.addComponent(id, 'component', label, currentParentId, this.parseColor(color));
+                if (stereotype) comp.stereotype = stereotype;
+                if (link) comp.link = link;
 
                 if (line.trim().endsWith('[')) {
                     pendingNote = { text: [], linkedTo: id, alias: undefined, isDescription: true };
+                    pendingNoteLine = i;
                 }
                 continue;
             }
 
-            const interfaceMatch = line.match(/^interface\s+(".*?"|\S+)(?:\s+as\s+(\S+))?(?:\s+(#\w+))?(?:\s*\[)?$/i);
+            const interfaceMatch = line.match(/^interface\s+(".*?"|\S+)(?:\s+as\s+(\S+))?(?:\s*<<\s*(.+?)\s*>>)?(?:\s+(#\w+))?(?:\s*\[)?$/i);
             if (interfaceMatch) {
                 const name = interfaceMatch[1].replace(/^"(.*)"$/, '$1');
                 const alias = interfaceMatch[2];
-                const color = interfaceMatch[3];
-                diagram.addComponent(alias || name, 'interface', name, currentParentId, this.parseColor(color));
+                const stereotype = interfaceMatch[3];
+                const color = interfaceMatch[4];
+                const comp = diagram.addComponent(alias || name, 'interface', name, currentParentId, this.parseColor(color));
+                if (stereotype) comp.stereotype = stereotype;
+                if (link) comp.link = link;
 
                 if (line.trim().endsWith('[')) {
                     pendingNote = { text: [], linkedTo: alias || name, alias: undefined, isDescription: true };
+                    pendingNoteLine = i;
                 }
                 continue;
             }
 
-            const circleMatch = line.match(/^\(\)\s+(".*?"|\S+)(?:\s+as\s+(\S+))?(?:\s+(#\w+))?(?:\s*\[)?$/);
+            const circleMatch = line.match(/^\(\)\s+(".*?"|\S+)(?:\s+as\s+(\S+))?(?:\s*<<\s*(.+?)\s*>>)?(?:\s+(#\w+))?(?:\s*\[)?$/);
             if (circleMatch) {
                 const name = circleMatch[1].replace(/^"(.*)"$/, '$1');
                 const alias = circleMatch[2];
-                const color = circleMatch[3];
-                diagram.addComponent(alias || name, 'interface', name, currentParentId, this.parseColor(color));
+                const stereotype = circleMatch[3];
+                const color = circleMatch[4];
+                const comp = diagram.addComponent(alias || name, 'interface', name, currentParentId, this.parseColor(color));
+                if (stereotype) comp.stereotype = stereotype;
+                if (link) comp.link = link;
                 continue;
             }
 
-            const bracketMatch = line.match(/^\[([^\]]+)\](?:\s+as\s+(\S+))?(?:\s+(#\w+))?(?:\s*\[)?$/);
+            const bracketMatch = line.match(/^\[([^\]]+)\](?:\s+as\s+(\S+))?(?:\s*<<\s*(.+?)\s*>>)?(?:\s+(#\w+))?(?:\s*\[)?$/);
             if (bracketMatch) {
                 const label = bracketMatch[1];
                 const alias = bracketMatch[2];
-                const color = bracketMatch[3];
+                const stereotype = bracketMatch[3];
+                const color = bracketMatch[4];
                 const id = alias || label;
-                diagram.addComponent(id, 'component', label, currentParentId, this.parseColor(color));
+                const comp = diagram.addComponent(id, 'component', label, currentParentId, this.parseColor(color));
+                if (stereotype) comp.stereotype = stereotype;
+                if (link) comp.link = link;
 
                 if (line.trim().endsWith('[')) {
                     pendingNote = { text: [], linkedTo: id, alias: undefined, isDescription: true };
+                    pendingNoteLine = i;
                 }
                 continue;
             }
@@ -183,17 +250,24 @@ export class ComponentParser implements Parser {
                 if (!nameRaw) {
                     const count = diagram.components.filter(c => c.type === type).length;
                     groupId = `${type}_${count}_${i}`;
-                    diagram.addComponent(groupId, type, '', currentParentId);
-                } else {
-                    diagram.addComponent(groupId, type, groupId, currentParentId);
                 }
+                const group = diagram.addComponent(groupId, type, nameRaw ? groupId : '', currentParentId);
+                if (link) group.link = link;
 
                 parentStack.push(groupId);
+                groupLines.push(i);
                 continue;
             }
 
             if (line === '}') {
-                parentStack.pop();
+                const groupId = parentStack.pop();
+                if (groupId === undefined) {
+                    diagnostics.push(createDiagnostic('warning', i, lines[i], "'}' without a matching group"));
+                } else {
+                    const group = diagram.findComponent(groupId);
+                    if (group) group.sourceEnd = sourceLine;
+                }
+                groupLines.pop();
                 continue;
             }
 
@@ -207,7 +281,8 @@ export class ComponentParser implements Parser {
                 if (type === 'portin') componentType = 'portin';
                 if (type === 'portout') componentType = 'portout';
 
-                diagram.addComponent(alias || name, componentType, name, currentParentId);
+                const port = diagram.addComponent(alias || name, componentType, name, currentParentId);
+                if (link) port.link = link;
                 continue;
             }
 
@@ -290,7 +365,7 @@ export class ComponentParser implements Parser {
                 }
 
                 const hasArrowHead = hasForward || hasReverse;
-                diagram.addRelationship(id1, id2, type, label, direction, hasArrowHead, currentParentId);
+                diagram.addRelationship(id1, id2, type, label, direction, hasArrowHead, currentParentId, link);
                 continue;
             }
 
@@ -298,7 +373,8 @@ export class ComponentParser implements Parser {
             const floatingNoteMatch = line.match(/^note\s+as\s+(\S+)$/i);
             if (floatingNoteMatch) {
                 const alias = floatingNoteMatch[1];
-                pendingNote = { text: [], alias };
+                pendingNote = { text: [], alias, link };
+                pendingNoteLine = i;
                 continue;
             }
 
@@ -316,18 +392,34 @@ export class ComponentParser implements Parser {
 
                 const text = noteMatch[4];
                 if (text) {
-                    diagram.addNote(text, pos as any, targetId);
+                    diagram.addNote(text, pos as any, targetId, undefined, link);
                 } else {
-                    pendingNote = { text: [], position: pos, linkedTo: targetId };
+                    pendingNote = { text: [], position: pos, linkedTo: targetId, link };
+                    pendingNoteLine = i;
                 }
                 continue;
             }
 
             // Unhandled
-            // console.log(`Unhandled line: ${line}`);
+            diagnostics.push(createDiagnostic('warning', i, lines[i], `Unrecognized statement: ${line}`));
         }
 
-        return diagram;
+        if (pendingNote) {
+            const message = pendingNote.isDescription ? "Description is missing closing ']'" : "Note is missing 'end note'";
+            diagnostics.push(createDiagnostic('warning', pendingNoteLine, lines[pendingNoteLine], message));
+        }
+        groupLines.forEach(line => {
+            diagnostics.push(createDiagnostic('warning', line, lines[line], "Group is missing closing '}'"));
+        });
+
+        skinParams.finish();
+        const applied = applySkinParams<DeepPartial<ComponentTheme>>(skinParams.params, componentSkinParams, lines);
+        diagram.themePreset = preset;
+        diagram.themeOverrides = applied.theme;
+        diagram.elementStyles = applied.styles;
+        diagnostics.push(...skinParams.diagnostics, ...applied.diagnostics);
+
+        return { diagram, diagnostics: [...preprocessed.diagnostics, ...preprocessed.mapDiagnostics(diagnostics)] };
     }
 
     private parseColor(color: string | undefined): string | undefined {
@@ -1,37 +1,74 @@
 
 import { Diagram } from '../../core/Diagram';
-import { Renderer } from '../../core/Renderer';
-import { ComponentDiagram } from './ComponentDiagram';
+import { Renderer, RendererOptions, scopedId } from '../../core/Renderer';
+import { ComponentDiagram, Relationship } from './ComponentDiagram';
 import { ComponentLayout, ComponentLayoutResult, ComponentLayoutNode, RelationshipLayoutNode, NoteLayoutNode } from './ComponentLayout';
 import { ComponentTheme, defaultTheme } from './ComponentTheme';
 import { formatRichText } from '../../core/RichText';
+import { DeepPartial, mergeTheme } from '../../core/Theme';
+import { ElementStyle, resolveElementStyle } from '../../core/SkinParam';
+import { defaultTextMeasurer, measureRichText, TextMeasurer } from '../../core/TextMeasurer';
+import { sourceAttributes } from '../../core/SourceMap';
+import { countOf, diagramHeader, elementTitle, plainText } from '../../core/Accessibility';
+import { linkTags } from '../../core/Link';
+import { sourceMetadata } from '../../core/SourceEmbedding';
 
 export class ComponentRenderer implements Renderer {
     private layoutEngine!: ComponentLayout;
-    private theme: ComponentTheme = defaultTheme;
+    private baseTheme: ComponentTheme;
+    private theme: ComponentTheme;
+    /** The `theme` option, re-applied over a preset picked in the source */
+    private themeOverrides?: DeepPartial<ComponentTheme>;
+    private measurer: TextMeasurer;
+    private idPrefix: string;
+    private textAlternative: boolean;
+    private linkOptions: Pick<RendererOptions, 'linkBase' | 'allowedUrlSchemes'>;
+    private embeddedSource?: string;
+
+    /**
+     * @param theme Overrides deep-merged over the default component theme
+     * @param options Text measurer, id prefix, text alternative, links and embedded source, see RendererOptions;
+     * its `theme` also applies over a `!theme` preset picked in the source.
+     * Labels are always escaped, so safe mode needs nothing extra here.
+     */
+    constructor(theme?: DeepPartial<ComponentTheme>, options: Omit<RendererOptions, 'themeName'> = {}) {
+        this.baseTheme = mergeTheme(defaultTheme, theme);
+        this.themeOverrides = options.theme as DeepPartial<ComponentTheme> | undefined;
+        this.theme = this.baseTheme;
+        this.measurer = options.textMeasurer ?? defaultTextMeasurer;
+        this.idPrefix = options.idPrefix ?? '';
+        this.textAlternative = !!options.textAlternative;
+        this.linkOptions = { linkBase: options.linkBase, allowedUrlSchemes: options.allowedUrlSchemes };
+        this.embeddedSource = options.embeddedSource;
+    }
 
     render(diagram: Diagram): string {
         if (diagram.type !== 'component') {
             throw new Error('ComponentRenderer only supports component diagrams');
         }
         const componentDiagram = diagram as ComponentDiagram;
-        this.layoutEngine = new ComponentLayout(componentDiagram, this.theme);
+        // A !theme preset replaces the renderer's preset but not its overrides; skinparam statements win over both
+        this.theme = mergeTheme(this.baseTheme, componentDiagram.themePreset, this.themeOverrides, componentDiagram.themeOverrides);
+        this.layoutEngine = new ComponentLayout(componentDiagram, this.theme, this.measurer);
         const layoutResult = this.layoutEngine.calculateLayout();
 
         const width = Math.max(layoutResult.width, 100);
         const height = Math.max(layoutResult.height, 100);
 
-        let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`;
+        const header = this.accessibleHeader(componentDiagram);
+        let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"${header.attributes} style="background: ${this.theme.colors.background}">`;
+        svg += header.content;
+        svg += sourceMetadata(this.embeddedSource);
 
         // Defs for markers, filters, gradients
         svg += `<defs>
-            <marker id="comp-arrow-end" markerWidth="10" markerHeight="7" refX="10" refY="3.5" orient="auto" markerUnits="userSpaceOnUse">
+            <marker id="${scopedId(this.idPrefix, 'comp-arrow-end')}" markerWidth="10" markerHeight="7" refX="10" refY="3.5" orient="auto" markerUnits="userSpaceOnUse">
                 <polygon points="0,0 10,3.5 0,7" fill="${this.theme.colors.line}" />
             </marker>
-            <marker id="comp-arrow-open" markerWidth="10" markerHeight="7" refX="10" refY="3.5" orient="auto" markerUnits="userSpaceOnUse">
+            <marker id="${scopedId(this.idPrefix, 'comp-arrow-open')}" markerWidth="10" markerHeight="7" refX="10" refY="3.5" orient="auto" markerUnits="userSpaceOnUse">
                 <polyline points="0,0 10,3.5 0,7" fill="none" stroke="${this.theme.colors.line}" stroke-width="1.5" />
             </marker>
-            <filter id="comp-shadow" x="-4%" y="-4%" width="112%" height="112%">
+            <filter id="${scopedId(this.idPrefix, 'comp-shadow')}" x="-4%" y="-4%" width="112%" height="112%">
                 <feDropShadow dx="1" dy="1" stdDeviation="2" flood-color="#00000020" />
             </filter>
         </defs>`;
@@ -51,29 +88,56 @@ export class ComponentRenderer implements Renderer {
         });
 
         sortedComponents.forEach(node => {
-            svg += this.renderComponentNode(node, componentDiagram, layoutResult);
+            const [linkOpen, linkClose] = linkTags(node.component.link, this.linkOptions);
+            svg += `<g${sourceAttributes(`component-${node.component.name}`, node.component)}>`
+                + elementTitle(`${node.component.type.charAt(0).toUpperCase()}${node.component.type.substring(1)} ${this.componentName(componentDiagram, node.component.name)}`)
+                + linkOpen + this.renderComponentNode(node, componentDiagram, layoutResult) + linkClose + '</g>';
         });
 
         // Draw Notes (layer below arrows)
         layoutResult.notes.forEach(note => {
-            svg += this.renderNote(note);
+            const [linkOpen, linkClose] = linkTags(note.note.link, this.linkOptions);
+            svg += `<g${sourceAttributes(`note-${componentDiagram.notes.indexOf(note.note)}`, note.note)}>`
+                + linkOpen + this.renderNote(note) + linkClose + '</g>';
         });
 
         // Draw Relationships (topmost layer as requested)
         layoutResult.relationships.forEach(rel => {
-            svg += this.renderRelationship(rel, componentDiagram);
+            const [linkOpen, linkClose] = linkTags(rel.relationship.link, this.linkOptions);
+            svg += `<g${sourceAttributes(`relationship-${componentDiagram.relationships.indexOf(rel.relationship)}`, rel.relationship)}>`
+                + elementTitle(this.relationshipText(componentDiagram, rel.relationship, ' to '))
+                + linkOpen + this.renderRelationship(rel, componentDiagram) + linkClose + '</g>';
         });
 
         svg += '</svg>';
         return svg;
     }
 
+    private accessibleHeader(diagram: ComponentDiagram) {
+        const summary = `Component diagram: ${countOf(diagram.components.length, 'component')}, ${countOf(diagram.relationships.length, 'relationship')}`;
+        const interactions = this.textAlternative
+            ? diagram.relationships.map(r => this.relationshipText(diagram, r, ' -> '))
+            : undefined;
+        return diagramHeader(this.idPrefix, diagram.title || 'Component diagram', summary, interactions);
+    }
+
+    /** Spoken name of a component, or of the note a relationship points at */
+    private componentName(diagram: ComponentDiagram, id: string): string {
+        const component = diagram.findComponent(id);
+        return plainText(component?.label || id);
+    }
+
+    private relationshipText(diagram: ComponentDiagram, relationship: Relationship, arrow: string): string {
+        const text = `${this.componentName(diagram, relationship.from)}${arrow}${this.componentName(diagram, relationship.to)}`;
+        return relationship.label ? `${text}: ${plainText(relationship.label)}` : text;
+    }
+
     private renderComponentNode(node: ComponentLayoutNode, diagram: ComponentDiagram, layoutResult: ComponentLayoutResult): string {
         const { component } = node;
 
         switch (component.type) {
             case 'interface':
-                return this.renderInterface(node);
+                return this.renderInterface(node, diagram);
             case 'package':
                 return this.renderPackage(node);
             case 'node':
@@ -99,8 +163,9 @@ export class ComponentRenderer implements Renderer {
     /** SysML Component: Rectangle with component icon (two small rectangles on the left) */
     private renderComponent(node: ComponentLayoutNode, diagram: ComponentDiagram): string {
         const { x, y, width, height, component } = node;
-        const fill = component.color || this.theme.colors.defaultFill;
-        const stroke = this.theme.colors.defaultStroke;
+        const style = resolveElementStyle(diagram.elementStyles, 'component', component.stereotype);
+        const fill = component.color || style.backgroundColor || this.theme.colors.defaultFill;
+        const stroke = style.borderColor || this.theme.colors.defaultStroke;
         const label = component.label || component.name;
         const lines = label.split(/\\n|\n/);
 
@@ -127,22 +192,38 @@ export class ComponentRenderer implements Renderer {
             // Let's keep it centered horizontally but move to top.
         }
 
-        return `
-            <g filter="url(#comp-shadow)">
-                <rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${fill}" stroke="${stroke}" stroke-width="1.5" rx="3" ry="3" />
-                <!-- SysML Component Icon: rectangle with two tabs -->
+        let icon = '';
+        if (this.theme.componentStyle === 'uml2') {
+            // SysML Component Icon: rectangle with two tabs
+            icon = `
                 <rect x="${x + iconX}" y="${y + iconY}" width="${iconW}" height="${iconH}" fill="none" stroke="${this.theme.colors.componentIcon}" stroke-width="1.2" rx="1" />
                 <rect x="${x + iconX - tabW / 2}" y="${y + iconY + 3}" width="${tabW}" height="${tabH}" fill="${fill}" stroke="${this.theme.colors.componentIcon}" stroke-width="1" rx="0.5" />
-                <rect x="${x + iconX - tabW / 2}" y="${y + iconY + 10}" width="${tabW}" height="${tabH}" fill="${fill}" stroke="${this.theme.colors.componentIcon}" stroke-width="1" rx="0.5" />
-                <text x="${textX}" y="${textY}" text-anchor="${anchor}" dominant-baseline="middle" fill="${this.theme.colors.text}" font-family="${this.theme.fontFamily}" font-size="${this.theme.fontSize}">
+                <rect x="${x + iconX - tabW / 2}" y="${y + iconY + 10}" width="${tabW}" height="${tabH}" fill="${fill}" stroke="${this.theme.colors.componentIcon}" stroke-width="1" rx="0.5" />`;
+        } else if (this.theme.componentStyle === 'uml1') {
+            // UML 1 notation: two tabs straddling the left edge
+            const tab1W = 16;
+            const tab1H = 8;
+            icon = `
+                <rect x="${x - tab1W / 2}" y="${y + height / 4 - tab1H / 2}" width="${tab1W}" height="${tab1H}" fill="${fill}" stroke="${stroke}" stroke-width="1.2" />
+                <rect x="${x - tab1W / 2}" y="${y + height * 3 / 4 - tab1H / 2}" width="${tab1W}" height="${tab1H}" fill="${fill}" stroke="${stroke}" stroke-width="1.2" />`;
+        }
+
+        return `
+            <g ${this.shadowFilter()}>
+                <rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${fill}" stroke="${stroke}" stroke-width="${style.borderThickness ?? 1.5}" rx="3" ry="3" />
+                ${icon}
+                <text x="${textX}" y="${textY}" text-anchor="${anchor}" dominant-baseline="middle" ${this.textAttributes(style)}>
                     ${lines.map((line, i) => `<tspan x="${textX}" dy="${i === 0 ? (hasChildren ? 0 : -((lines.length - 1) * 0.6) + 'em') : '1.2em'}">${formatRichText(line)}</tspan>`).join('')}
                 </text>
             </g>
         `;
     }
 
-    private renderInterface(node: ComponentLayoutNode): string {
+    private renderInterface(node: ComponentLayoutNode, diagram: ComponentDiagram): string {
         const { x, y, width, height, component } = node;
+        const style = resolveElementStyle(diagram.elementStyles, 'interface', component.stereotype);
+        const fill = component.color || style.backgroundColor || this.theme.colors.interfaceFill;
+        const stroke = style.borderColor || this.theme.colors.defaultStroke;
         const r = this.theme.interfaceRadius;
         const cx = x + width / 2;
         const cy = y + height / 2;
@@ -151,24 +232,33 @@ export class ComponentRenderer implements Renderer {
 
         return `
             <g>
-                <circle cx="${cx}" cy="${cy}" r="${r}" fill="${this.theme.colors.interfaceFill}" stroke="${this.theme.colors.defaultStroke}" stroke-width="1.5"/>
-                <text x="${cx}" y="${cy + r + 16}" text-anchor="middle" fill="${this.theme.colors.text}" font-family="${this.theme.fontFamily}" font-size="${this.theme.fontSize}">
+                <circle cx="${cx}" cy="${cy}" r="${r}" fill="${fill}" stroke="${stroke}" stroke-width="${style.borderThickness ?? 1.5}"/>
+                <text x="${cx}" y="${cy + r + 16}" text-anchor="middle" ${this.textAttributes(style)}>
                     ${lines.map((line, i) => `<tspan x="${cx}" dy="${i === 0 ? 0 : '1.2em'}">${formatRichText(line)}</tspan>`).join('')}
                 </text>
             </g>
         `;
     }
 
+    private shadowFilter(): string {
+        return this.theme.shadowing ? `filter="url(#${scopedId(this.idPrefix, 'comp-shadow')})"` : '';
+    }
+
+    /** Text attributes for an element, with skinparam styles over the theme */
+    private textAttributes(style: ElementStyle): string {
+        return `fill="${style.fontColor || this.theme.colors.text}" font-family="${style.fontName || this.theme.fontFamily}" font-size="${style.fontSize ?? this.theme.fontSize}"`;
+    }
+
     /** SysML Package: Rectangle with small tab (name compartment) on upper-left */
     private renderPackage(node: ComponentLayoutNode): string {
         const { x, y, width, height, component } = node;
         const label = component.label || component.name;
         const tabH = 22;
-        const textW = label.length * 8 + 20;
+        const textW = measureRichText(this.measurer, label, { fontFamily: this.theme.fontFamily, fontSize: this.theme.fontSize, bold: true }) + 20;
         const tabW = Math.min(Math.max(textW, 60), width * 0.6);
 
         return `
-            <g filter="url(#comp-shadow)">
+            <g ${this.shadowFilter()}>
                 <!-- Package tab -->
                 <path d="M${x},${y + tabH} L${x},${y + 3} Q${x},${y} ${x + 3},${y} L${x + tabW - 5},${y} L${x + tabW},${y + tabH}" fill="${this.theme.colors.packageFill}" stroke="${this.theme.colors.packageStroke}" stroke-width="1.5" />
                 <!-- Package body -->
@@ -188,7 +278,7 @@ export class ComponentRenderer implements Renderer {
         const d = 10; // 3D depth offset
 
         return `
-            <g filter="url(#comp-shadow)">
+            <g ${this.shadowFilter()}>
                 <!-- Top face -->
                 <polygon points="${x},${y + d} ${x + d},${y} ${x + width + d},${y} ${x + width},${y + d}" fill="${this.theme.colors.nodeFill}" stroke="${this.theme.colors.packageStroke}" stroke-width="1.2" />
                 <!-- Right face -->
@@ -210,7 +300,7 @@ export class ComponentRenderer implements Renderer {
         const tabW = Math.min(60, width * 0.35);
 
         return `
-            <g filter="url(#comp-shadow)">
+            <g ${this.shadowFilter()}>
                 <!-- Folder tab -->
                 <path d="M${x},${y + tabH} L${x},${y + 3} Q${x},${y} ${x + 3},${y} L${x + tabW - 8},${y} L${x + tabW},${y + tabH}" fill="${this.theme.colors.folderFill}" stroke="${this.theme.colors.defaultStroke}" stroke-width="1.3" />
                 <!-- Folder body -->
@@ -227,12 +317,12 @@ export class ComponentRenderer implements Renderer {
         const { x, y, width, height, component } = node;
         const label = component.label || component.name;
         const lines = label.split(/\\n|\n/);
-        const maxLineLen = Math.max(...lines.map(l => l.length));
-        const tagW = Math.min(maxLineLen * 8 + 24, width * 0.6);
+        const textW = measureRichText(this.measurer, lines.join('\n'), { fontFamily: this.theme.fontFamily, fontSize: this.theme.fontSize - 1, bold: true });
+        const tagW = Math.min(textW + 24, width * 0.6);
         const tagH = 22 + (lines.length - 1) * 14;
 
         return `
-            <g filter="url(#comp-shadow)">
+            <g ${this.shadowFilter()}>
                 <!-- Frame body -->
                 <rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${this.theme.colors.frameFill}" fill-opacity="0.25" stroke="${this.theme.colors.defaultStroke}" stroke-width="1.5" rx="2" />
                 <!-- Pentagon name tag -->
@@ -256,7 +346,7 @@ export class ComponentRenderer implements Renderer {
         const h = height;
 
         return `
-            <g transform="translate(${x}, ${y})" filter="url(#comp-shadow)">
+            <g transform="translate(${x}, ${y})" ${this.shadowFilter()}>
                 <path d="
                     M${w * 0.25},${h * 0.7}
                     C${w * 0.02},${h * 0.7} ${w * 0.0},${h * 0.45} ${w * 0.15},${h * 0.35}
@@ -282,7 +372,7 @@ export class ComponentRenderer implements Renderer {
         const ry = 12; // ellipse y-radius for top/bottom caps
 
         return `
-            <g transform="translate(${x}, ${y})" filter="url(#comp-shadow)">
+            <g transform="translate(${x}, ${y})" ${this.shadowFilter()}>
                 <!-- Cylinder body -->
                 <rect x="0" y="${ry}" width="${width}" height="${height - ry * 2}" fill="${this.theme.colors.databaseFill}" fill-opacity="0.35" stroke="none" />
                 <!-- Side lines -->
@@ -311,7 +401,7 @@ export class ComponentRenderer implements Renderer {
         // Only use marker if showArrowHead is true
         let markerEnd = '';
         if (relationship.showArrowHead !== false) {
-            markerEnd = relationship.type === 'dashed' ? 'url(#comp-arrow-open)' : 'url(#comp-arrow-end)';
+            markerEnd = `url(#${scopedId(this.idPrefix, relationship.type === 'dashed' ? 'comp-arrow-open' : 'comp-arrow-end')})`;
         }
 
         let d = `M ${start.x} ${start.y}`;
@@ -332,8 +422,9 @@ export class ComponentRenderer implements Renderer {
 
         let labelSvg = '';
         if (rel.labelPosition && relationship.label) {
+            const labelW = measureRichText(this.measurer, relationship.label, { fontFamily: this.theme.fontFamily, fontSize: 11, italic: true });
             labelSvg = `
-                <rect x="${rel.labelPosition.x - relationship.label.length * 3.5 - 4}" y="${rel.labelPosition.y - 10}" width="${relationship.label.length * 7 + 8}" height="16" fill="white" fill-opacity="0.85" rx="3" />
+                <rect x="${rel.labelPosition.x - labelW / 2 - 4}" y="${rel.labelPosition.y - 10}" width="${labelW + 8}" height="16" fill="${this.theme.colors.labelFill}" fill-opacity="0.85" rx="3" />
                 <text x="${rel.labelPosition.x}" y="${rel.labelPosition.y}" text-anchor="middle" dominant-baseline="middle" fill="${this.theme.colors.textLight}" font-family="${this.theme.fontFamily}" font-size="11" font-style="italic">
                     ${formatRichText(relationship.label)}
                 </text>
@@ -342,7 +433,7 @@ export class ComponentRenderer implements Renderer {
 
         return `
             <g>
-                <path d="${d}" fill="none" stroke="${this.theme.colors.line}" stroke-width="1.3" stroke-dasharray="${strokeDash}" marker-end="${markerEnd}"/>
+                <path d="${d}" fill="none" stroke="${this.theme.colors.line}" stroke-width="${this.theme.relationshipStrokeWidth}" stroke-dasharray="${strokeDash}" marker-end="${markerEnd}"/>
                 ${labelSvg}
             </g>
         `;
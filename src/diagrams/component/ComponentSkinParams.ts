@@ -0,0 +1,31 @@
+import { SkinParamMapping } from '../../core/SkinParam';
+
+/**
+ * skinparam names understood by component diagrams.
+ * Components and interfaces also accept per-element and per-stereotype
+ * styles, e.g. `skinparam component<<Legacy>> { BackgroundColor #eee }`.
+ */
+export const componentSkinParams: SkinParamMapping = {
+    theme: {
+        defaultfontsize: { path: 'fontSize', kind: 'number' },
+        defaultfontname: { path: 'fontFamily', kind: 'string' },
+        defaultfontcolor: { path: 'colors.text', kind: 'color' },
+        componentstyle: { path: 'componentStyle', kind: 'string', values: ['uml1', 'uml2', 'rectangle'] },
+        arrowcolor: { path: 'colors.line', kind: 'color' },
+        arrowthickness: { path: 'relationshipStrokeWidth', kind: 'number' },
+        arrowfontcolor: { path: 'colors.textLight', kind: 'color' },
+        notebackgroundcolor: { path: 'colors.noteFill', kind: 'color' },
+        notebordercolor: { path: 'colors.noteStroke', kind: 'color' },
+        componentbackgroundcolor: { path: 'colors.defaultFill', kind: 'color' },
+        componentbordercolor: { path: 'colors.defaultStroke', kind: 'color' },
+        interfacebackgroundcolor: { path: 'colors.interfaceFill', kind: 'color' },
+        packagebackgroundcolor: { path: 'colors.packageFill', kind: 'color' },
+        packagebordercolor: { path: 'colors.packageStroke', kind: 'color' },
+        nodebackgroundcolor: { path: 'colors.nodeFill', kind: 'color' },
+        folderbackgroundcolor: { path: 'colors.folderFill', kind: 'color' },
+        framebackgroundcolor: { path: 'colors.frameFill', kind: 'color' },
+        cloudbackgroundcolor: { path: 'colors.cloudFill', kind: 'color' },
+        databasebackgroundcolor: { path: 'colors.databaseFill', kind: 'color' },
+    },
+    elements: ['component', 'interface'],
+};
@@ -1,3 +1,11 @@
+import { DeepPartial } from '../../core/Theme';
+
+/**
+ * How plain components are drawn, as selected by `skinparam componentStyle`.
+ * uml2 draws the component icon in the corner, uml1 draws the two tabs on
+ * the left edge, rectangle draws a plain box.
+ */
+export type ComponentStyle = 'uml1' | 'uml2' | 'rectangle';
 
 export interface ComponentTheme {
     padding: number;
@@ -8,6 +16,10 @@ export interface ComponentTheme {
     componentGapY: number;
     fontSize: number;
     packagePadding: number;
+    componentStyle: ComponentStyle;
+    relationshipStrokeWidth: number;
+    /** Drop shadow under elements */
+    shadowing: boolean;
     colors: {
         defaultStroke: string;
         defaultFill: string;
@@ -25,6 +37,8 @@ export interface ComponentTheme {
         cloudFill: string;
         databaseFill: string;
         componentIcon: string;
+        background: string;
+        labelFill: string;
     };
     fontFamily: string;
 }
@@ -38,6 +52,9 @@ export const defaultTheme: ComponentTheme = {
     componentGapY: 60,
     fontSize: 13,
     packagePadding: 20,
+    componentStyle: 'uml2',
+    relationshipStrokeWidth: 1.3,
+    shadowing: true,
     colors: {
         defaultStroke: '#5a6270',
         defaultFill: '#e8edf3',
@@ -55,6 +72,83 @@ export const defaultTheme: ComponentTheme = {
         cloudFill: '#ebf0f7',
         databaseFill: '#ebf0f7',
         componentIcon: '#7b8fa8',
+        background: 'transparent',
+        labelFill: '#ffffff',
     },
     fontFamily: "'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif",
 };
+
+/** Built-in presets selectable with `!theme <name>` or the `themeName` render option */
+export const componentThemePresets: Record<string, DeepPartial<ComponentTheme>> = {
+    dark: {
+        shadowing: false,
+        colors: {
+            defaultStroke: '#adbac7',
+            defaultFill: '#2d333b',
+            interfaceFill: '#22272e',
+            noteFill: '#3a3a2e',
+            noteStroke: '#8b8b6a',
+            line: '#adbac7',
+            text: '#e6edf3',
+            textLight: '#9ea7b3',
+            packageFill: '#22272e',
+            packageStroke: '#768390',
+            nodeFill: '#22272e',
+            folderFill: '#22272e',
+            frameFill: '#22272e',
+            cloudFill: '#22272e',
+            databaseFill: '#22272e',
+            componentIcon: '#768390',
+            background: '#0d1117',
+            labelFill: '#0d1117',
+        },
+    },
+    plain: {
+        shadowing: false,
+        relationshipStrokeWidth: 1,
+        colors: {
+            defaultStroke: '#000000',
+            defaultFill: '#ffffff',
+            interfaceFill: '#ffffff',
+            noteFill: '#ffffff',
+            noteStroke: '#000000',
+            line: '#000000',
+            text: '#000000',
+            textLight: '#000000',
+            packageFill: '#ffffff',
+            packageStroke: '#000000',
+            nodeFill: '#ffffff',
+            folderFill: '#ffffff',
+            frameFill: '#ffffff',
+            cloudFill: '#ffffff',
+            databaseFill: '#ffffff',
+            componentIcon: '#000000',
+            background: '#ffffff',
+            labelFill: '#ffffff',
+        },
+    },
+    blueprint: {
+        shadowing: false,
+        colors: {
+            defaultStroke: '#ffffff',
+            defaultFill: '#1f5aa6',
+            interfaceFill: '#174a8c',
+            noteFill: '#2a6bc0',
+            noteStroke: '#ffffff',
+            line: '#ffffff',
+            text: '#ffffff',
+            textLight: '#b3cdf0',
+            packageFill: '#1f5aa6',
+            packageStroke: '#b3cdf0',
+            nodeFill: '#1f5aa6',
+            folderFill: '#1f5aa6',
+            frameFill: '#1f5aa6',
+            cloudFill: '#1f5aa6',
+            databaseFill: '#1f5aa6',
+            componentIcon: '#b3cdf0',
+            background: '#174a8c',
+            labelFill: '#174a8c',
+        },
+        fontFamily: "'Courier New', monospace",
+    },
+};
@@ -0,0 +1,33 @@
+import { DiagramDefinition, getStatements } from '../../core/DiagramRegistry';
+import { SequenceDiagram } from './SequenceDiagram';
+import { formatSequenceStatement } from './SequenceFormatter';
+import { SequenceParser } from './SequenceParser';
+import { sequenceFromJSON, sequenceToJSON } from './SequenceJson';
+import { SequenceRenderer } from './SequenceRenderer';
+import { SequenceTheme, sequenceThemePresets } from './SequenceTheme';
+import { DeepPartial, getThemePreset, mergeTheme } from '../../core/Theme';
+
+// Participant declarations never appear in component diagrams
+const PARTICIPANT_KEYWORDS = /^(participant|actor|boundary|control|entity|collections|queue)\b/i;
+// Control flow that is typical for sequence diagrams
+const CONTROL_FLOW_KEYWORDS = /^(alt|else|loop|group|note|opt|par|break|critical|ref)\b/i;
+
+export const sequenceDefinition: DiagramDefinition<SequenceDiagram> = {
+    type: 'sequence',
+    startTags: ['sequence'],
+    detect(content: string): number {
+        const statements = getStatements(content);
+        let score = 0;
+        if (statements.some(s => PARTICIPANT_KEYWORDS.test(s))) score += 3;
+        if (statements.some(s => CONTROL_FLOW_KEYWORDS.test(s))) score += 2;
+        return score;
+    },
+    createParser: options => new SequenceParser(options),
+    createRenderer: options => new SequenceRenderer(mergeTheme<DeepPartial<SequenceTheme>>(
+        options?.themeName ? getThemePreset(sequenceThemePresets, options.themeName) : {},
+        options?.theme as DeepPartial<SequenceTheme> | undefined
+    ), options),
+    toJSON: sequenceToJSON,
+    fromJSON: sequenceFromJSON,
+    formatStatement: formatSequenceStatement,
+};
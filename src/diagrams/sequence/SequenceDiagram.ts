@@ -1,9 +1,13 @@
-import { Diagram } from '../../core/Diagram';
+import { Diagram, SourceRange } from '../../core/Diagram';
+import { Link } from '../../core/Link';
 import { decodeUnicode } from '../../core/RichText';
+import { DeepPartial } from '../../core/Theme';
+import { ElementStyles } from '../../core/SkinParam';
+import { SequenceTheme } from './SequenceTheme';
 
 export type ParticipantType = 'participant' | 'actor' | 'boundary' | 'control' | 'entity' | 'database' | 'collections' | 'queue';
 
-export interface Participant {
+export interface Participant extends SourceRange {
     name: string;
     label?: string;
     type: ParticipantType;
@@ -12,6 +16,7 @@ export interface Participant {
     stereotype?: string;
     destroyedStep?: number;
     createdStep?: number;
+    link?: Link;
 }
 
 export interface Activation {
@@ -27,7 +32,7 @@ export interface Activation {
 
 export type ArrowHead = 'default' | 'open' | 'async' | 'half' | 'circle' | 'lost' | 'found' | 'none' | 'arrow-circle';
 
-export interface Message {
+export interface Message extends SourceRange {
     from: string;
     to: string;
     text: string;
@@ -38,9 +43,10 @@ export interface Message {
     color?: string;
     bidirectional?: boolean;
     number?: string;
+    link?: Link;
 }
 
-export interface Note {
+export interface Note extends SourceRange {
     participantName?: string;
     participants?: string[];
     position: 'left' | 'right' | 'over' | 'across';
@@ -49,9 +55,10 @@ export interface Note {
     color?: string;
     shape?: 'rectangle' | 'hexagon' | 'bubble' | 'folder';
     owner?: Group;
+    link?: Link;
 }
 
-export interface Group {
+export interface Group extends SourceRange {
     type: string;
     label: string;
     startStep: number;
@@ -114,14 +121,31 @@ export class SequenceDiagram implements Diagram {
     footer?: string;
     hideFootbox: boolean = false;
 
+    // Preset picked with !theme; the renderer's theme overrides sit on top of it
+    themePreset: DeepPartial<SequenceTheme> = {};
+    // Collected from skinparam statements
+    themeOverrides: DeepPartial<SequenceTheme> = {};
+    elementStyles: ElementStyles = {};
+
     private currentStep = 0;
     private groupStack: Group[] = [];
     private autonumberConfig: Autonumber | null = null;
     private currentAutonumbers: number[] = [0];
     private autonumberDelimiter: string = '.';
     private autonumberStopped = false;
+    private sourceRange: SourceRange = {};
     autoactivateEnabled = false;
 
+    /** Sets the source lines recorded on the elements added from now on */
+    setSourceRange(line: number, end: number = line) {
+        this.sourceRange = { sourceLine: line, sourceEnd: end };
+    }
+
+    /** Records the current source lines on an element, e.g. a participant declared after its first use */
+    markSource(element: SourceRange) {
+        Object.assign(element, this.sourceRange);
+    }
+
     setHideFootbox(hide: boolean) {
         this.hideFootbox = hide;
     }
@@ -129,7 +153,7 @@ export class SequenceDiagram implements Diagram {
     addParticipant(name: string, label?: string, type: ParticipantType = 'participant', order?: number, color?: string, stereotype?: string) {
         let participant = this.participants.find(p => p.name === name);
         if (!participant) {
-            participant = { name, label, type, order, color, stereotype };
+            participant = { name, label, type, order, color, stereotype, ...this.sourceRange };
             this.participants.push(participant);
         } else {
             if (label) participant.label = label;
@@ -141,9 +165,10 @@ export class SequenceDiagram implements Diagram {
         this.groupStack.forEach(g => {
             if (!g.participants.includes(name)) g.participants.push(name);
         });
+        return participant;
     }
 
-    addMessage(from: string, to: string, text: string, type: 'arrow' | 'dotted' = 'arrow', arrowHead: ArrowHead = 'default', color?: string, bidirectional?: boolean, startHead: ArrowHead = 'none') {
+    addMessage(from: string, to: string, text: string, type: 'arrow' | 'dotted' = 'arrow', arrowHead: ArrowHead = 'default', color?: string, bidirectional?: boolean, startHead: ArrowHead = 'none', link?: Link) {
         const step = this.currentStep++;
         this.addParticipant(from);
         this.addParticipant(to);
@@ -169,7 +194,7 @@ export class SequenceDiagram implements Diagram {
         // Then decode all Unicode escapes like <U+XXXX>
         text = decodeUnicode(text);
 
-        this.messages.push({ from, to, text, type, step, arrowHead, startHead, color, bidirectional, number: msgNumber });
+        this.messages.push({ from, to, text, type, step, arrowHead, startHead, color, bidirectional, number: msgNumber, link, ...this.sourceRange });
 
         if (this.autoactivateEnabled && from !== to && type === 'arrow') {
             this.activate(to, step, step);
@@ -296,7 +321,7 @@ export class SequenceDiagram implements Diagram {
         this.deactivate(from, step);
     }
 
-    addNote(text: string, position: 'left' | 'right' | 'over' | 'across', participants: string[], color?: string, shape: 'rectangle' | 'hexagon' | 'bubble' | 'folder' = 'folder', step?: number) {
+    addNote(text: string, position: 'left' | 'right' | 'over' | 'across', participants: string[], color?: string, shape: 'rectangle' | 'hexagon' | 'bubble' | 'folder' = 'folder', step?: number, link?: Link) {
         const noteStep = step !== undefined ? step : this.currentStep++;
         const owner = this.groupStack.length > 0 ? this.groupStack[this.groupStack.length - 1] : undefined;
 
@@ -315,7 +340,9 @@ export class SequenceDiagram implements Diagram {
             step: noteStep,
             color,
             shape,
-            owner
+            owner,
+            link,
+            ...this.sourceRange
         });
         return noteStep;
     }
@@ -350,7 +377,8 @@ export class SequenceDiagram implements Diagram {
             startStep: step,
             sections: [],
             level: this.groupStack.length,
-            participants: []
+            participants: [],
+            ...this.sourceRange
         };
         this.groups.push(group);
         this.groupStack.push(group);
@@ -368,6 +396,7 @@ export class SequenceDiagram implements Diagram {
         const group = this.groupStack.pop();
         if (group) {
             group.endStep = this.nextStep();
+            group.sourceEnd = this.sourceRange.sourceEnd;
         }
     }
 
@@ -0,0 +1,144 @@
+import { FormattedStatement, formatName } from '../../core/Formatter';
+import { extractLink } from '../../core/Link';
+
+// The statement patterns below mirror SequenceParser, in the order it tries them
+const CREATE = /^create\s+(?:(actor|boundary|control|entity|database|collections)\s+)?(\w+)$/i;
+const ACTION = /^(activate|deactivate|destroy)\s+(".*?"|\w+)(?:\s+(#\w+))?$/i;
+const TIME_CONSTRAINT = /^\{(\w+)\}\s*<->\s*\{(\w+)\}(?:\s*:\s*(.*))?$/;
+const DELAY = /^\.\.\.(?:\s*(.*?)\s*\.\.\.)?$/;
+const ARROW = /^(?:\{(\w+)\}\s+)?(".*?"|\w+|x|\[|\])?\s*([<ox\\/]*)([-.]+)(?:\[(#\w+)\])?([-.]*)([>ox\\/]*)?\s*(".*?"|\w+|x|\[|\])?\s*(--\+\+|\+\+--|--|\+\+|\*\*|!!)?(?:\s+(#\w+))?(?:\s*:\s*(.*))?$/i;
+const NOTE = /^(h|r|b)?note\s+(left|right|over|across)(?:\s+(?:of\s+)?([^#:]+))?\s*(#\w+)?\s*(?::\s*(.*))?$/i;
+const GROUP = /^(alt|opt|loop|par|break|critical|group)(?:\s+(.*))?$/i;
+const ELSE = /^else(?:\s+(.*))?$/i;
+const REF = /^ref\s+over\s+(.*?)(?:\s*:\s*(.*))?$/i;
+const RETURN = /^return(?:\s+(.*))?$/i;
+const KEYWORD_STATEMENT = /^(autonumber|autoactivate|hide\s+footbox)\b/i;
+const DIVIDER = /^==\s*(.*?)\s*==$/;
+const META = /^(title|header|footer)\s+(.*)$/i;
+const PARTICIPANT = /^(participant|actor|boundary|control|entity|database|collections|queue)\s+(".*?"|\w+)\s*(?:<<\s*(.*?)\s*>>)?(?:\s+as\s+(".*?"|\w+))?\s*(?:<<\s*(.*?)\s*>>)?(?:\s+order\s+(\d+))?(?:\s+(#\w+))?$/i;
+
+const END_NOTE = /^end note|^end ?[hrb]note$/i;
+const END_REF = /^end ref/i;
+
+function participantList(text: string): string {
+    return text.split(',').map(p => formatName(p.trim())).join(', ');
+}
+
+/** Lower-cases the keyword and single-spaces the words of e.g. `autonumber 10 "<b>[000]"` */
+function formatKeywordStatement(keyword: string, statement: string): string {
+    const words = statement.substring(keyword.length).match(/"[^"]*"|\S+/g) ?? [];
+    return [keyword.toLowerCase().replace(/\s+/, ' '), ...words].join(' ');
+}
+
+/**
+ * Writes a sequence diagram statement in canonical form: lower-case
+ * keywords, single spaces, `A -> B: text` messages and names quoted only
+ * when they are not plain identifiers.
+ */
+export function formatSequenceStatement(statement: string): FormattedStatement {
+    // "/" places the element on the same row as the previous one
+    if (statement.startsWith('/')) {
+        const rest = formatSequenceStatement(statement.substring(1).trim());
+        return { ...rest, text: `/${rest.text}`, aliasAt: rest.aliasAt === undefined ? undefined : rest.aliasAt + 1 };
+    }
+    // A link's label stays where it was written, so lines with links keep their text
+    const { text: line, link } = extractLink(statement);
+    const formatted = formatLine(line);
+    return link ? { ...formatted, text: statement, aliasAt: undefined } : formatted;
+}
+
+function formatLine(line: string): FormattedStatement {
+    let match = line.match(CREATE);
+    if (match) return { text: `create ${match[1] ? `${match[1].toLowerCase()} ` : ''}${match[2]}` };
+
+    match = line.match(ACTION);
+    if (match) return { text: `${match[1].toLowerCase()} ${formatName(match[2])}${match[3] ? ` ${match[3]}` : ''}` };
+
+    match = line.match(TIME_CONSTRAINT);
+    if (match) return { text: `{${match[1]}} <-> {${match[2]}}${match[3] ? `: ${match[3]}` : ''}` };
+
+    match = line.match(DELAY);
+    if (match) return { text: match[1] ? `... ${match[1]} ...` : '...' };
+
+    match = line.match(ARROW);
+    if (match && match[4] + (match[6] ?? '')) {
+        const [, tag, from, startHead, line1, color, line2, endHead, to, shorthand, activationColor, text] = match;
+        const arrow = `${startHead}${line1}${color ? `[${color}]` : ''}${line2 ?? ''}${endHead ?? ''}`;
+        let message = tag ? `{${tag}} ` : '';
+        if (from) message += from === '[' ? '[' : `${formatName(from)} `;
+        message += arrow;
+        if (to) message += to === ']' ? ']' : ` ${formatName(to)}`;
+        if (shorthand) message += ` ${shorthand}`;
+        if (activationColor) message += ` ${activationColor}`;
+        // An empty text reads the same as none
+        if (text) message += `: ${text}`;
+        return { text: message };
+    }
+
+    match = line.match(NOTE);
+    if (match) {
+        const [, shape, position, participants, color, text] = match;
+        const where = position.toLowerCase();
+        let note = `${shape ?? ''}note ${where}`;
+        if (participants?.trim()) note += `${where === 'left' || where === 'right' ? ' of' : ''} ${participantList(participants)}`;
+        if (color) note += ` ${color}`;
+        if (text !== undefined) return { text: `${note}:${text ? ` ${text}` : ''}` };
+        return { text: note, bodyEnd: END_NOTE, verbatimBody: true };
+    }
+
+    match = line.match(GROUP);
+    if (match) return { text: `${match[1].toLowerCase()}${match[2] ? ` ${match[2]}` : ''}`, block: 'open' };
+
+    match = line.match(ELSE);
+    if (match) return { text: `else${match[1] ? ` ${match[1]}` : ''}`, block: 'continue' };
+
+    if (line.toLowerCase().startsWith('end')) {
+        return { text: line.toLowerCase() === 'end' ? 'end' : line, block: 'close' };
+    }
+
+    match = line.match(REF);
+    if (match) {
+        const ref = `ref over ${participantList(match[1])}`;
+        if (match[2]) return { text: `${ref}: ${match[2]}` };
+        return { text: ref, bodyEnd: END_REF, verbatimBody: true };
+    }
+
+    match = line.match(RETURN);
+    if (match) return { text: `return${match[1] ? ` ${match[1]}` : ''}` };
+
+    match = line.match(KEYWORD_STATEMENT);
+    if (match) return { text: formatKeywordStatement(match[0], line) };
+
+    match = line.match(DIVIDER);
+    if (match) return { text: match[1] ? `== ${match[1]} ==` : line };
+
+    match = line.match(META);
+    if (match) return { text: `${match[1].toLowerCase()} ${match[2]}` };
+
+    match = line.match(PARTICIPANT);
+    if (match) return formatParticipant(match);
+
+    return { text: line };
+}
+
+/**
+ * `participant "Label" as Id`, keeping the parser's reading of the name and
+ * alias: the alias is the id unless it is quoted.
+ */
+function formatParticipant(match: RegExpMatchArray): FormattedStatement {
+    const [, type, name, stereotype1, alias, stereotype2, order, color] = match;
+    const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1');
+    let declaration = `${type.toLowerCase()} `;
+    if (!alias) {
+        declaration += formatName(name);
+    } else {
+        const quotedAlias = alias.startsWith('"');
+        const id = unquote(quotedAlias ? name : alias);
+        const label = unquote(quotedAlias ? alias : name);
+        declaration += /^\w+$/.test(id) ? `${formatName(label)} as ${id}` : `"${id}" as "${label}"`;
+    }
+    const stereotype = stereotype1 || stereotype2;
+    const rest = `${stereotype ? ` <<${stereotype}>>` : ''}${order ? ` order ${order}` : ''}${color ? ` ${color}` : ''}`;
+    const aliasAt = alias ? declaration.lastIndexOf(' as ') : undefined;
+    return { text: declaration + rest, aliasAt };
+}
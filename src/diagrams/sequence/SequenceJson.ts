@@ -0,0 +1,172 @@
+import { DiagramJson, DiagramJsonError, DIAGRAM_JSON_VERSION, JsonReader, readDiagramJson, toPlainJson } from '../../core/DiagramJson';
+import { DeepPartial } from '../../core/Theme';
+import { ElementStyles } from '../../core/SkinParam';
+import {
+    Activation, ArrowHead, Delay, Divider, Group, Message, Note, Participant, ParticipantType,
+    Reference, SequenceDiagram, Spacing, TimeConstraint
+} from './SequenceDiagram';
+import { SequenceTheme } from './SequenceTheme';
+
+/** A note in the JSON model; `group` is the index of the group it sits in */
+export interface SequenceNoteJson extends Omit<Note, 'owner'> {
+    group?: number;
+}
+
+/** JSON model of a sequence diagram, format version 1 */
+export interface SequenceDiagramJson extends DiagramJson {
+    type: 'sequence';
+    title?: string;
+    header?: string;
+    footer?: string;
+    hideFootbox?: boolean;
+    participants: Participant[];
+    messages: Message[];
+    activations: Activation[];
+    groups: Group[];
+    references: Reference[];
+    notes: SequenceNoteJson[];
+    dividers: Divider[];
+    delays: Delay[];
+    spacings: Spacing[];
+    timeConstraints: TimeConstraint[];
+    /** Steps of the messages tagged with `{tag}`, keyed by tag */
+    taggedSteps: Record<string, number>;
+    /** Preset picked with `!theme` in the source */
+    themePreset?: DeepPartial<SequenceTheme>;
+    themeOverrides: DeepPartial<SequenceTheme>;
+    elementStyles: ElementStyles;
+}
+
+const PARTICIPANT_TYPES: readonly ParticipantType[] = ['participant', 'actor', 'boundary', 'control', 'entity', 'database', 'collections', 'queue'];
+const ARROW_HEADS: readonly ArrowHead[] = ['default', 'open', 'async', 'half', 'circle', 'lost', 'found', 'none', 'arrow-circle'];
+const NOTE_POSITIONS: readonly Note['position'][] = ['left', 'right', 'over', 'across'];
+const NOTE_SHAPES: readonly NonNullable<Note['shape']>[] = ['rectangle', 'hexagon', 'bubble', 'folder'];
+
+export function sequenceToJSON(diagram: SequenceDiagram): SequenceDiagramJson {
+    return toPlainJson({
+        version: DIAGRAM_JSON_VERSION,
+        type: 'sequence',
+        title: diagram.title,
+        header: diagram.header,
+        footer: diagram.footer,
+        hideFootbox: diagram.hideFootbox,
+        participants: diagram.participants,
+        messages: diagram.messages,
+        activations: diagram.activations,
+        groups: diagram.groups,
+        references: diagram.references,
+        // The owner is a reference into the groups, which JSON cannot hold
+        notes: diagram.notes.map(({ owner, ...note }) => ({ ...note, group: owner ? diagram.groups.indexOf(owner) : undefined })),
+        dividers: diagram.dividers,
+        delays: diagram.delays,
+        spacings: diagram.spacings,
+        timeConstraints: diagram.timeConstraints,
+        taggedSteps: Object.fromEntries(diagram.taggedSteps),
+        themePreset: diagram.themePreset,
+        themeOverrides: diagram.themeOverrides,
+        elementStyles: diagram.elementStyles
+    });
+}
+
+/**
+ * Builds a sequence diagram from its JSON model. Participants that messages
+ * use without declaring them are added, as in the PlantUML source.
+ * @throws DiagramJsonError if the model does not match the format
+ */
+export function sequenceFromJSON(json: unknown): SequenceDiagram {
+    const model = readDiagramJson(json, 'sequence');
+    const diagram = new SequenceDiagram();
+    diagram.title = model.optionalString('title');
+    diagram.header = model.optionalString('header');
+    diagram.footer = model.optionalString('footer');
+    diagram.hideFootbox = model.optionalBoolean('hideFootbox') ?? false;
+
+    diagram.participants = model.objects('participants', p => ({
+        name: p.string('name'),
+        label: p.optionalString('label'),
+        type: p.optionalEnum('type', PARTICIPANT_TYPES) ?? 'participant',
+        order: p.optionalInteger('order'),
+        color: p.optionalString('color'),
+        stereotype: p.optionalString('stereotype'),
+        createdStep: p.optionalInteger('createdStep'),
+        destroyedStep: p.optionalInteger('destroyedStep'),
+        link: p.link(),
+        ...p.sourceRange()
+    }));
+    diagram.messages = model.objects('messages', m => ({
+        from: m.string('from'),
+        to: m.string('to'),
+        text: m.optionalString('text') ?? '',
+        type: m.optionalEnum('type', ['arrow', 'dotted'] as const) ?? 'arrow',
+        step: m.integer('step'),
+        arrowHead: m.optionalEnum('arrowHead', ARROW_HEADS) ?? 'default',
+        startHead: m.optionalEnum('startHead', ARROW_HEADS) ?? 'none',
+        color: m.optionalString('color'),
+        bidirectional: m.optionalBoolean('bidirectional'),
+        number: m.optionalString('number'),
+        link: m.link(),
+        ...m.sourceRange()
+    }));
+    diagram.messages.forEach(m => {
+        if (!diagram.participants.some(p => p.name === m.from)) diagram.addParticipant(m.from);
+        if (!diagram.participants.some(p => p.name === m.to)) diagram.addParticipant(m.to);
+    });
+    diagram.activations = model.objects('activations', a => ({
+        participantName: a.string('participantName'),
+        startStep: a.integer('startStep'),
+        endStep: a.optionalInteger('endStep'),
+        level: a.optionalInteger('level') ?? 0,
+        sourceStep: a.optionalInteger('sourceStep'),
+        endSourceStep: a.optionalInteger('endSourceStep'),
+        color: a.optionalString('color')
+    }));
+    diagram.groups = model.objects('groups', g => ({
+        type: g.string('type'),
+        label: g.optionalString('label') ?? '',
+        startStep: g.integer('startStep'),
+        endStep: g.optionalInteger('endStep'),
+        sections: g.objects('sections', s => ({ label: s.optionalString('label') ?? '', startStep: s.integer('startStep') })),
+        level: g.optionalInteger('level') ?? 0,
+        participants: g.strings('participants'),
+        ...g.sourceRange()
+    }));
+    diagram.references = model.objects('references', r => ({
+        participants: r.strings('participants'),
+        label: r.optionalString('label') ?? '',
+        startStep: r.integer('startStep'),
+        endStep: r.integer('endStep')
+    }));
+    diagram.notes = model.objects('notes', n => ({
+        participantName: n.optionalString('participantName'),
+        participants: n.optionalStrings('participants'),
+        position: n.enum('position', NOTE_POSITIONS),
+        text: n.optionalString('text') ?? '',
+        step: n.integer('step'),
+        color: n.optionalString('color'),
+        shape: n.optionalEnum('shape', NOTE_SHAPES) ?? 'folder',
+        owner: readOwner(n, diagram.groups),
+        link: n.link(),
+        ...n.sourceRange()
+    }));
+    diagram.dividers = model.objects('dividers', d => ({ label: d.optionalString('label') ?? '', step: d.integer('step') }));
+    diagram.delays = model.objects('delays', d => ({ text: d.optionalString('text'), step: d.integer('step') }));
+    diagram.spacings = model.objects('spacings', s => ({ height: s.number('height'), step: s.integer('step') }));
+    diagram.timeConstraints = model.objects('timeConstraints', t => ({
+        startTag: t.string('startTag'),
+        endTag: t.string('endTag'),
+        label: t.optionalString('label') ?? ''
+    }));
+    const taggedSteps = model.optionalObject('taggedSteps');
+    taggedSteps?.keys().forEach(tag => diagram.taggedSteps.set(tag, taggedSteps.integer(tag)));
+    diagram.themePreset = model.record('themePreset');
+    diagram.themeOverrides = model.record('themeOverrides');
+    diagram.elementStyles = model.record('elementStyles');
+    return diagram;
+}
+
+function readOwner(note: JsonReader, groups: Group[]): Group | undefined {
+    const index = note.optionalInteger('group');
+    if (index === undefined) return undefined;
+    if (index < 0 || index >= groups.length) throw new DiagramJsonError(note.pathOf('group'), `no group at index ${index}`);
+    return groups[index];
+}
@@ -1,5 +1,7 @@
 import { SequenceDiagram, Note, Participant, Message, Activation, Group, Reference, ArrowHead } from './SequenceDiagram';
 import { SequenceTheme } from './SequenceTheme';
+import { defaultTextMeasurer, measureRichText, TextMeasurer } from '../../core/TextMeasurer';
+import { resolveElementStyle } from '../../core/SkinParam';
 
 export interface Point {
     x: number;
@@ -80,7 +82,17 @@ export interface LayoutResult {
 }
 
 export class LayoutEngine {
-    constructor(private theme: SequenceTheme) { }
+    constructor(private theme: SequenceTheme, private measurer: TextMeasurer = defaultTextMeasurer) { }
+
+    /** Width of the widest line of a message label */
+    private messageTextWidth(text: string): number {
+        return measureRichText(this.measurer, text, { fontFamily: this.theme.fontFamily, fontSize: this.theme.fontSize - 2 });
+    }
+
+    /** Width of the widest line of a note */
+    private noteTextWidth(text: string): number {
+        return measureRichText(this.measurer, text, { fontFamily: this.theme.fontFamily, fontSize: this.theme.fontSize });
+    }
 
     calculateLayout(diagram: SequenceDiagram): LayoutResult {
         // Sort participants
@@ -99,7 +111,7 @@ export class LayoutEngine {
         const currentY = stepHeightResult.totalHeight;
 
         // Horizontal Layout
-        const pWidths = participants.map(p => this.calculateParticipantWidth(p));
+        const pWidths = participants.map(p => this.calculateParticipantWidth(diagram, p));
         const gaps = this.calculateGaps(diagram, participants, pWidths);
 
         const relpCenterX = this.calculateRelativepCenterXs(participants, pWidths, gaps);
@@ -115,8 +127,8 @@ export class LayoutEngine {
 
         // Add space for time constraints if they exist
         if (diagram.timeConstraints.length > 0) {
-            const maxLabelLength = Math.max(...diagram.timeConstraints.map(tc => tc.label.length), 0);
-            const timeConstraintSpace = 50 + (maxLabelLength * 8); // 50px for arrow + label width
+            const maxLabelWidth = Math.max(...diagram.timeConstraints.map(tc => this.messageTextWidth(tc.label)), 0);
+            const timeConstraintSpace = 50 + maxLabelWidth; // 50px for arrow + label width
             totalWidth += timeConstraintSpace;
         }
 
@@ -471,11 +483,15 @@ export class LayoutEngine {
         return { stepY, totalHeight: currentY };
     }
 
-    private calculateParticipantWidth(p: Participant): number {
+    private calculateParticipantWidth(diagram: SequenceDiagram, p: Participant): number {
         const label = (p.label || p.name).replace(/\\n/g, '\n');
-        const lines = label.split('\n');
-        const maxLineLength = Math.max(...lines.map(l => l.length));
-        return Math.max(this.theme.participantWidth, maxLineLength * 9 + 30);
+        const style = resolveElementStyle(diagram.elementStyles, p.type, p.stereotype);
+        const textWidth = measureRichText(this.measurer, label, {
+            fontFamily: style.fontName || this.theme.fontFamily,
+            fontSize: style.fontSize ?? this.theme.fontSize,
+            bold: true
+        });
+        return Math.max(this.theme.participantWidth, textWidth + 30);
     }
 
     // Simplified gap calculation for brevity in this first pass
@@ -506,7 +522,7 @@ export class LayoutEngine {
                 let rightSpace = 15;
                 const selfMsg = diagram.messages.find(m => m.step === s && m.from === name && m.to === name);
                 if (selfMsg) {
-                    const textWidth = Math.max(...selfMsg.text.split('\n').map(l => l.length * 8)) + 20;
+                    const textWidth = this.messageTextWidth(selfMsg.text) + 20;
                     rightSpace = 40 + textWidth + 10;
                 }
                 const activeAlt = diagram.activations.filter(a => a.participantName === name && a.startStep <= s && (a.endStep ?? Infinity) >= s);
@@ -516,7 +532,7 @@ export class LayoutEngine {
                 }
                 const notesR = diagram.notes.filter(n => n.step === s && n.position === 'right' && n.participants?.includes(name));
                 notesR.forEach(n => {
-                    const w = Math.max(60, Math.max(...n.text.split('\n').map(l => l.length * 8.5)) + 20);
+                    const w = Math.max(60, this.noteTextWidth(n.text) + 20);
                     rightSpace += w + 10;
                 });
 
@@ -526,7 +542,7 @@ export class LayoutEngine {
                 let leftSpace = 15;
                 const notesL = diagram.notes.filter(n => n.step === s && n.position === 'left' && n.participants?.includes(name));
                 notesL.forEach(n => {
-                    const w = Math.max(60, Math.max(...n.text.split('\n').map(l => l.length * 8.5)) + 20);
+                    const w = Math.max(60, this.noteTextWidth(n.text) + 20);
                     leftSpace += w + 10;
                 });
 
@@ -544,7 +560,7 @@ export class LayoutEngine {
             const tIdx = participants.findIndex(p => p.name === m.to);
             if (fIdx === -1 || tIdx === -1 || fIdx === tIdx) return;
 
-            const textWidth = Math.max(...m.text.split('\n').map(l => l.length * 8)) + 20;
+            const textWidth = this.messageTextWidth(m.text) + 20;
             const s = Math.min(fIdx, tIdx);
             const e = Math.max(fIdx, tIdx);
             let currentSpace = 0;
@@ -561,8 +577,7 @@ export class LayoutEngine {
         // 3. Handle over/across notes
         diagram.notes.forEach(n => {
             if (n.position !== 'over' && n.position !== 'across') return;
-            const lines = n.text.split('\n');
-            const noteWidth = Math.max(60, Math.max(...lines.map(l => l.length * 8.5)) + 20);
+            const noteWidth = Math.max(60, this.noteTextWidth(n.text) + 20);
 
             if (n.participants && n.participants.length > 0) {
                 const sIdx = participants.findIndex(p => p.name === n.participants![0]);
@@ -612,7 +627,7 @@ export class LayoutEngine {
 
         diagram.notes.forEach(note => {
             const lines = note.text.split('\n');
-            const calculatedWidth = Math.max(...lines.map(l => l.length * 8.5)) + 20;
+            const calculatedWidth = this.noteTextWidth(note.text) + 20;
             const minWidth = 60;
             const noteWidth = Math.max(calculatedWidth, minWidth);
             const noteHeight = lines.length * 20 + 10;
@@ -658,8 +673,7 @@ export class LayoutEngine {
                         );
                         let selfMsgRightOffset = 0;
                         if (selfMessage) {
-                            const textLines = selfMessage.text.split('\n');
-                            const textWidth = Math.max(...textLines.map(l => l.length * 8)) + 20;
+                            const textWidth = this.messageTextWidth(selfMessage.text) + 20;
                             selfMsgRightOffset = 40 + textWidth;
                         }
 
@@ -707,12 +721,10 @@ export class LayoutEngine {
             const toIdx = participants.findIndex(p => p.name === m.to);
             if (fromIdx === -1 || toIdx === -1) return;
 
-            const textLines = m.text.split('\n');
-            const textWidth = Math.max(...textLines.map(l => l.length * 8)) + 20; // simplified calc
+            const textWidth = this.messageTextWidth(m.text) + 20;
 
             if (fromIdx === toIdx) {
                 const cx = relpCenterX[fromIdx];
-                const textWidth = Math.max(...m.text.split('\n').map(l => l.length * 8)) + 20;
                 const rightBound = cx + 40 + textWidth + 10;
                 if (rightBound > maxX) maxX = rightBound;
             } else {
@@ -1,18 +1,42 @@
-import { Parser } from '../../core/Parser';
+import { Parser, ParseResult, ParserOptions } from '../../core/Parser';
+import { Diagnostic, createDiagnostic, diagnosticError } from '../../core/Diagnostic';
+import { PreprocessResult, preprocess } from '../../core/Preprocessor';
+import { SkinParamReader, applySkinParams } from '../../core/SkinParam';
 import { SequenceDiagram, ArrowHead } from './SequenceDiagram';
+import { SequenceTheme, sequenceThemePresets } from './SequenceTheme';
+import { DeepPartial, findThemePreset, parseThemeDirective } from '../../core/Theme';
+import { sequenceSkinParams } from './SequenceSkinParams';
+import { Link, extractLink } from '../../core/Link';
 
 export class SequenceParser implements Parser {
-    parse(content: string): SequenceDiagram {
+    constructor(private options: ParserOptions = {}) { }
+
+    parse(content: string, preprocessed?: PreprocessResult): SequenceDiagram {
+        const { diagram, diagnostics } = this.parseWithDiagnostics(content, preprocessed);
+        const error = diagnostics.find(d => d.severity === 'error');
+        if (error) throw diagnosticError(error);
+        return diagram;
+    }
+
+    parseWithDiagnostics(content: string, expanded?: PreprocessResult): ParseResult<SequenceDiagram> {
         const diagram = new SequenceDiagram();
-        const lines = content.split('\n');
+        const diagnostics: Diagnostic[] = [];
+        // Expand !define, !if, procedures etc. first, unless the caller already did; diagnostics are mapped back at the end
+        const preprocessed = expanded ?? preprocess(content, this.options.preprocess);
+        const lines = preprocessed.lines;
 
         let pendingRef: { participants: string[], label: string[] } | null = null;
-        let pendingNote: { text: string[], position: any, participants: string[], color?: string, shape: any } | null = null;
+        let pendingNote: { text: string[], position: any, participants: string[], color?: string, shape: any, link?: Link } | null = null;
         let lastMessageStep = -1;
         let lastMessageFrom = '';
         let lastMessageTo = '';
         let lastMessageType: string = '';
         let lastActivationStep = new Map<string, number>();
+        // Line indexes of the blocks opened by the pending note/ref and by unclosed groups
+        let pendingBlockLine = -1;
+        const openGroups: { type: string, line: number }[] = [];
+        const skinParams = new SkinParamReader();
+        let preset: DeepPartial<SequenceTheme> = {};
 
         for (let i = 0; i < lines.length; i++) {
             let line = lines[i];
@@ -20,8 +44,7 @@ export class SequenceParser implements Parser {
             line = line.trim();
             // Ignore empty lines, comments (@), and pragma directives
             if (!line || line.startsWith('@') || line.startsWith('!pragma')) continue;
-
-
+            diagram.setSourceRange(preprocessed.lineMap[i] + 1);
 
             if (pendingNote) {
                 const lowerLine = line.toLowerCase();
@@ -57,8 +80,10 @@ export class SequenceParser implements Parser {
                             }
                         }
                     }
-                    const text = pendingNote.text.join('\n').replace(/\\n/g, '\n');
-                    diagram.addNote(text, pendingNote.position, pendingNote.participants, pendingNote.color, pendingNote.shape, associationStep);
+                    const body = extractLink(pendingNote.text.join('\n'));
+                    const text = body.text.replace(/\\n/g, '\n');
+                    diagram.setSourceRange(preprocessed.lineMap[pendingBlockLine] + 1, preprocessed.lineMap[i] + 1);
+                    diagram.addNote(text, pendingNote.position, pendingNote.participants, pendingNote.color, pendingNote.shape, associationStep, pendingNote.link ?? body.link);
                     pendingNote = null;
                 } else {
                     pendingNote.text.push(originalLine);
@@ -78,6 +103,20 @@ export class SequenceParser implements Parser {
 
             if (line.startsWith("'")) continue;
 
+            // Handle skinparam, single-line and block forms
+            if (skinParams.read(originalLine, i)) continue;
+
+            const themeName = parseThemeDirective(line);
+            if (themeName) {
+                const found = findThemePreset(sequenceThemePresets, themeName);
+                if (found) {
+                    preset = found;
+                } else {
+                    diagnostics.push(createDiagnostic('warning', i, originalLine, `Unknown theme: ${themeName}`));
+                }
+                continue;
+            }
+
             // Handle "/" prefix - means "at same step/height as previous"
             let sameStep = false;
             if (line.startsWith('/')) {
@@ -87,6 +126,11 @@ export class SequenceParser implements Parser {
                 diagram.rewindStep();
             }
 
+            // A [[url{tooltip} label]] link belongs to the participant, message or note of this line
+            const statement = extractLink(line);
+            line = statement.text;
+            const link = statement.link;
+
             // Handle explicit create command
             // create <participant>
             // create <type> <participant>
@@ -94,7 +138,9 @@ export class SequenceParser implements Parser {
             if (createMatch) {
                 const [, type, name] = createMatch;
                 // Always add participant, using specified type or default
-                diagram.addParticipant(name, type as any);
+                const participant = diagram.addParticipant(name, type as any);
+                diagram.markSource(participant);
+                if (link) participant.link = link;
                 // Mark this participant to be created at the next message step
                 // We pass the current step, which will be used when a message targets this participant
                 diagram.create(name, diagram.getCurrentStep());
@@ -224,7 +270,7 @@ export class SequenceParser implements Parser {
                     if (from === 'x') startHead = 'found';
 
                     const normalizedText = text.replace(/\\n/g, '\n');
-                    const step = diagram.addMessage(from, to, normalizedText, isDotted ? 'dotted' : 'arrow', arrowHead, msgColor, isBidirectional, startHead);
+                    const step = diagram.addMessage(from, to, normalizedText, isDotted ? 'dotted' : 'arrow', arrowHead, msgColor, isBidirectional, startHead, link);
 
                     // Register tagged step if {tag} was present
                     if (tag) {
@@ -346,10 +392,11 @@ export class SequenceParser implements Parser {
                         }
                     }
                     const normalizedText = text.replace(/\\n/g, '\n');
-                    diagram.addNote(normalizedText, position.toLowerCase() as any, participants, color, shape, associationStep);
+                    diagram.addNote(normalizedText, position.toLowerCase() as any, participants, color, shape, associationStep, link);
                 } else {
                     // Multi-line note start
-                    pendingNote = { text: [], position: position.toLowerCase() as any, participants, color, shape };
+                    pendingNote = { text: [], position: position.toLowerCase() as any, participants, color, shape, link };
+                    pendingBlockLine = i;
                 }
                 continue;
             }
@@ -359,6 +406,7 @@ export class SequenceParser implements Parser {
             if (groupStartMatch) {
                 let [, type, label] = groupStartMatch;
                 diagram.startGroup(type.toLowerCase(), label || '');
+                openGroups.push({ type: type.toLowerCase(), line: i });
                 continue;
             }
 
@@ -366,6 +414,9 @@ export class SequenceParser implements Parser {
             const elseMatch = line.match(/^else(?:\s+(.*))?$/i);
             if (elseMatch) {
                 let [, label] = elseMatch;
+                if (openGroups.length === 0) {
+                    diagnostics.push(createDiagnostic('warning', i, originalLine, "'else' outside of a group"));
+                }
                 diagram.addGroupSection(label || '');
                 continue;
             }
@@ -373,6 +424,9 @@ export class SequenceParser implements Parser {
             // Handle end
             if (line.toLowerCase().startsWith('end')) {
                 // If we were in a group, end it
+                if (openGroups.pop() === undefined) {
+                    diagnostics.push(createDiagnostic('warning', i, originalLine, "'end' without a matching group"));
+                }
                 diagram.endGroup();
                 continue;
             }
@@ -389,6 +443,7 @@ export class SequenceParser implements Parser {
                 } else {
                     // Start multi-line ref
                     pendingRef = { participants, label: [] };
+                    pendingBlockLine = i;
                 }
                 continue;
             }
@@ -505,15 +560,34 @@ export class SequenceParser implements Parser {
                 }
 
                 const order = orderStr ? parseInt(orderStr, 10) : undefined;
-                diagram.addParticipant(participantName, participantLabel, type.toLowerCase() as any, order, color, stereotype);
+                const participant = diagram.addParticipant(participantName, participantLabel, type.toLowerCase() as any, order, color, stereotype);
+                diagram.markSource(participant);
+                if (link) participant.link = link;
                 continue;
             }
 
             if (originalLine.trim() !== '' && !originalLine.trim().startsWith("'")) {
-                throw new Error(`Syntax error at line ${i + 1}: ${line}`);
+                diagnostics.push(createDiagnostic('error', i, originalLine, `Syntax error: ${line}`));
             }
         }
 
-        return diagram;
+        if (pendingNote) {
+            diagnostics.push(createDiagnostic('warning', pendingBlockLine, lines[pendingBlockLine], "Note is missing 'end note'"));
+        }
+        if (pendingRef) {
+            diagnostics.push(createDiagnostic('warning', pendingBlockLine, lines[pendingBlockLine], "Reference is missing 'end ref'"));
+        }
+        openGroups.forEach(g => {
+            diagnostics.push(createDiagnostic('warning', g.line, lines[g.line], `'${g.type}' block is missing 'end'`));
+        });
+
+        skinParams.finish();
+        const applied = applySkinParams<DeepPartial<SequenceTheme>>(skinParams.params, sequenceSkinParams, lines);
+        diagram.themePreset = preset;
+        diagram.themeOverrides = applied.theme;
+        diagram.elementStyles = applied.styles;
+        diagnostics.push(...skinParams.diagnostics, ...applied.diagnostics);
+
+        return { diagram, diagnostics: [...preprocessed.diagnostics, ...preprocessed.mapDiagnostics(diagnostics)] };
     }
 }
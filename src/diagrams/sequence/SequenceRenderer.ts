@@ -1,23 +1,55 @@
-import { Renderer } from '../../core/Renderer';
-import { SequenceDiagram, ArrowHead } from './SequenceDiagram';
+import { Renderer, RendererOptions, scopedId } from '../../core/Renderer';
+import { SequenceDiagram, ArrowHead, Participant } from './SequenceDiagram';
 import { SequenceTheme, defaultTheme } from './SequenceTheme';
 import { LayoutEngine, LayoutResult } from './SequenceLayout';
 import { formatRichText } from '../../core/RichText';
+import { DeepPartial, mergeTheme } from '../../core/Theme';
+import { resolveElementStyle } from '../../core/SkinParam';
+import { defaultTextMeasurer, measureRichText, TextMeasurer } from '../../core/TextMeasurer';
+import { sourceAttributes } from '../../core/SourceMap';
+import { escapeXml } from '../../core/SafeMode';
+import { countOf, diagramHeader, elementTitle, plainText } from '../../core/Accessibility';
+import { linkTags } from '../../core/Link';
+import { sourceMetadata } from '../../core/SourceEmbedding';
 
 export class SequenceRenderer implements Renderer<SequenceDiagram> {
-    private theme: SequenceTheme = defaultTheme;
-    private layoutEngine: LayoutEngine;
-
-    constructor() {
-        this.layoutEngine = new LayoutEngine(this.theme);
+    private baseTheme: SequenceTheme;
+    private theme: SequenceTheme;
+    /** The `theme` option, re-applied over a preset picked in the source */
+    private themeOverrides?: DeepPartial<SequenceTheme>;
+    private measurer: TextMeasurer;
+    private idPrefix: string;
+    private safe: boolean;
+    private textAlternative: boolean;
+    private linkOptions: Pick<RendererOptions, 'linkBase' | 'allowedUrlSchemes'>;
+    private embeddedSource?: string;
+
+    /**
+     * @param theme Overrides deep-merged over the default sequence theme
+     * @param options Text measurer, id prefix, safe mode, text alternative, links and embedded source, see RendererOptions;
+     * its `theme` also applies over a `!theme` preset picked in the source
+     */
+    constructor(theme?: DeepPartial<SequenceTheme>, options: Omit<RendererOptions, 'themeName'> = {}) {
+        this.baseTheme = mergeTheme(defaultTheme, theme);
+        this.themeOverrides = options.theme as DeepPartial<SequenceTheme> | undefined;
+        this.theme = this.baseTheme;
+        this.measurer = options.textMeasurer ?? defaultTextMeasurer;
+        this.idPrefix = options.idPrefix ?? '';
+        this.safe = !!options.safe;
+        this.textAlternative = !!options.textAlternative;
+        this.linkOptions = { linkBase: options.linkBase, allowedUrlSchemes: options.allowedUrlSchemes };
+        this.embeddedSource = options.embeddedSource;
     }
 
     render(diagram: SequenceDiagram): string {
+        // A !theme preset replaces the renderer's preset but not its overrides; skinparam statements win over both
+        this.theme = mergeTheme(this.baseTheme, diagram.themePreset, this.themeOverrides, diagram.themeOverrides);
+
         // 1. Ensure participants
         this.ensureParticipants(diagram);
 
         // 2. Calculate Layout
-        const layout = this.layoutEngine.calculateLayout(diagram);
+        const layout = new LayoutEngine(this.theme, this.measurer).calculateLayout(diagram);
 
         // 3. Render SVG
         return this.generateSvg(diagram, layout);
@@ -32,15 +64,18 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
     }
 
     private generateSvg(diagram: SequenceDiagram, layout: LayoutResult): string {
-        let svg = `<svg width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}" xmlns="http://www.w3.org/2000/svg" style="background: white; font-family: ${this.theme.fontFamily};">`;
+        const header = this.accessibleHeader(diagram);
+        let svg = `<svg width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}" xmlns="http://www.w3.org/2000/svg"${header.attributes} style="background: ${this.theme.colors.background}; font-family: ${this.theme.fontFamily};">`;
+        svg += header.content;
+        svg += sourceMetadata(this.embeddedSource);
 
         svg += this.renderDefs(diagram);
         svg += this.renderLifelines(diagram, layout);
         svg += this.renderActivations(diagram, layout); // Activations need layout linkage, currently relying on stepY match. Ideally LayoutEngine returns ActivationLayouts.
-        svg += this.renderGroups(layout);
+        svg += this.renderGroups(diagram, layout);
         svg += this.renderParticipants(diagram, layout);
         svg += this.renderReferences(diagram, layout);
-        svg += this.renderNotes(layout);
+        svg += this.renderNotes(diagram, layout);
         svg += this.renderMessages(diagram, layout);
         svg += this.renderDividers(diagram, layout);
         svg += this.renderDelays(diagram, layout);
@@ -49,60 +84,83 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
 
         // Title/Header/Footer
         if (diagram.title) {
-            svg += `<text x="${layout.width / 2}" y="${25}" text-anchor="middle" font-size="${this.theme.fontSize + 4}" font-weight="bold">${diagram.title}</text>`;
+            svg += `<text x="${layout.width / 2}" y="${25}" text-anchor="middle" font-size="${this.theme.fontSize + 4}" font-weight="bold" fill="${this.theme.colors.text}">${this.text(diagram.title)}</text>`;
         }
         if (diagram.header) {
-            svg += `<text x="${layout.width - this.theme.padding}" y="${15}" text-anchor="end" font-size="${this.theme.fontSize - 4}">${diagram.header}</text>`;
+            svg += `<text x="${layout.width - this.theme.padding}" y="${15}" text-anchor="end" font-size="${this.theme.fontSize - 4}" fill="${this.theme.colors.text}">${this.text(diagram.header)}</text>`;
         }
         if (diagram.footer) {
-            svg += `<text x="${layout.width / 2}" y="${layout.height - 10}" text-anchor="middle" font-size="${this.theme.fontSize - 4}">${diagram.footer}</text>`;
+            svg += `<text x="${layout.width / 2}" y="${layout.height - 10}" text-anchor="middle" font-size="${this.theme.fontSize - 4}" fill="${this.theme.colors.text}">${this.text(diagram.footer)}</text>`;
         }
 
         svg += '</svg>';
         return svg;
     }
 
+    private accessibleHeader(diagram: SequenceDiagram) {
+        const participants = diagram.participants.filter(p => p.name !== '[' && p.name !== ']');
+        const summary = `Sequence diagram: ${countOf(participants.length, 'participant')}, ${countOf(diagram.messages.length, 'message')}`;
+        const interactions = this.textAlternative ? diagram.messages.map(m => {
+            const from = this.participantName(diagram, m.from);
+            const to = this.participantName(diagram, m.to);
+            return m.text ? `${from} -> ${to}: ${plainText(m.text)}` : `${from} -> ${to}`;
+        }) : undefined;
+        return diagramHeader(this.idPrefix, diagram.title || 'Sequence diagram', summary, interactions);
+    }
+
+    /** Spoken name of a participant; the `[` and `]` pseudo participants are outside the diagram */
+    private participantName(diagram: SequenceDiagram, name: string): string {
+        if (name === '[' || name === ']') return 'outside';
+        const participant = diagram.participants.find(p => p.name === name);
+        return plainText(participant?.label || name);
+    }
+
+    private participantTitle(participant: Participant): string {
+        const type = participant.type.charAt(0).toUpperCase() + participant.type.substring(1);
+        return elementTitle(`${type} ${participant.label || participant.name}`);
+    }
+
     private renderDefs(diagram: SequenceDiagram): string {
         const usedColors = new Set<string>();
-        usedColors.add(this.theme.colors.defaultStroke);
+        usedColors.add(this.theme.colors.arrow);
         diagram.messages.forEach(m => {
-            usedColors.add(this.normalizeColor(m.color, this.theme.colors.defaultStroke));
+            usedColors.add(this.normalizeColor(m.color, this.theme.colors.arrow));
         });
 
         let defs = '<defs>';
         usedColors.forEach(color => {
             const safeColor = color.replace('#', '');
             defs += `
-      <marker id="arrowhead-${safeColor}" markerWidth="10" markerHeight="7" refX="10" refY="3.5" orient="auto">
+      <marker id="${scopedId(this.idPrefix, `arrowhead-${safeColor}`)}" markerWidth="10" markerHeight="7" refX="10" refY="3.5" orient="auto">
         <polygon points="0 0, 10 3.5, 0 7" fill="${color}" />
       </marker>
-      <marker id="arrowhead-reverse-${safeColor}" markerWidth="10" markerHeight="7" refX="0" refY="3.5" orient="auto">
+      <marker id="${scopedId(this.idPrefix, `arrowhead-reverse-${safeColor}`)}" markerWidth="10" markerHeight="7" refX="0" refY="3.5" orient="auto">
         <polygon points="10 0, 0 3.5, 10 7" fill="${color}" />
       </marker>
-      <marker id="arrowhead-open-${safeColor}" markerWidth="10" markerHeight="7" refX="10" refY="3.5" orient="auto">
+      <marker id="${scopedId(this.idPrefix, `arrowhead-open-${safeColor}`)}" markerWidth="10" markerHeight="7" refX="10" refY="3.5" orient="auto">
         <path d="M 0 0 L 10 3.5 L 0 7" fill="none" stroke="${color}" stroke-width="1" />
       </marker>
-      <marker id="arrowhead-open-reverse-${safeColor}" markerWidth="10" markerHeight="7" refX="0" refY="3.5" orient="auto">
+      <marker id="${scopedId(this.idPrefix, `arrowhead-open-reverse-${safeColor}`)}" markerWidth="10" markerHeight="7" refX="0" refY="3.5" orient="auto">
         <path d="M 10 0 L 0 3.5 L 10 7" fill="none" stroke="${color}" stroke-width="1" />
       </marker>
-      <marker id="halfhead-${safeColor}" markerWidth="10" markerHeight="7" refX="10" refY="3.5" orient="auto">
+      <marker id="${scopedId(this.idPrefix, `halfhead-${safeColor}`)}" markerWidth="10" markerHeight="7" refX="10" refY="3.5" orient="auto">
         <polygon points="0 0, 10 3.5, 0 3.5" fill="${color}" />
       </marker>
-      <marker id="halfhead-reverse-${safeColor}" markerWidth="10" markerHeight="7" refX="0" refY="3.5" orient="auto">
+      <marker id="${scopedId(this.idPrefix, `halfhead-reverse-${safeColor}`)}" markerWidth="10" markerHeight="7" refX="0" refY="3.5" orient="auto">
         <polygon points="10 0, 0 3.5, 10 3.5" fill="${color}" />
       </marker>
-      <marker id="circlehead-${safeColor}" markerWidth="8" markerHeight="8" refX="4" refY="4" orient="auto">
-        <circle cx="4" cy="4" r="3" fill="white" stroke="${color}" stroke-width="1.5" />
+      <marker id="${scopedId(this.idPrefix, `circlehead-${safeColor}`)}" markerWidth="8" markerHeight="8" refX="4" refY="4" orient="auto">
+        <circle cx="4" cy="4" r="3" fill="${this.theme.colors.background}" stroke="${color}" stroke-width="1.5" />
       </marker>
-      <marker id="arrowhead-circle-${safeColor}" markerWidth="18" markerHeight="7.5" refX="14" refY="3.5" orient="auto">
+      <marker id="${scopedId(this.idPrefix, `arrowhead-circle-${safeColor}`)}" markerWidth="18" markerHeight="7.5" refX="14" refY="3.5" orient="auto">
         <polygon points="0 0, 10 3.5, 0 7" fill="${color}" />
         <circle cx="14" cy="3.5" r="3" fill="${color}" stroke="${color}" stroke-width="1" />
       </marker>
-      <marker id="arrowhead-circle-reverse-${safeColor}" markerWidth="18" markerHeight="7.5" refX="4" refY="3.5" orient="auto">
+      <marker id="${scopedId(this.idPrefix, `arrowhead-circle-reverse-${safeColor}`)}" markerWidth="18" markerHeight="7.5" refX="4" refY="3.5" orient="auto">
         <polygon points="17 0, 7 3.5, 17 7" fill="${color}" />
         <circle cx="4" cy="3.5" r="3" fill="${color}" stroke="${color}" stroke-width="1" />
       </marker>
-      <marker id="losthead-${safeColor}" markerWidth="10" markerHeight="10" refX="5" refY="5" orient="auto">
+      <marker id="${scopedId(this.idPrefix, `losthead-${safeColor}`)}" markerWidth="10" markerHeight="10" refX="5" refY="5" orient="auto">
         <line x1="0" y1="0" x2="10" y2="10" stroke="${color}" stroke-width="2" />
         <line x1="10" y1="0" x2="0" y2="10" stroke="${color}" stroke-width="2" />
       </marker>`;
@@ -148,7 +206,13 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
     private renderParticipants(diagram: SequenceDiagram, layout: LayoutResult): string {
         let svg = '';
         const draw = (pl: any, top: boolean) => {
-            const fill = this.normalizeColor(pl.participant.color, this.theme.colors.actorFill);
+            const style = resolveElementStyle(diagram.elementStyles, pl.participant.type, pl.participant.stereotype);
+            const fill = this.normalizeColor(pl.participant.color || style.backgroundColor, this.theme.colors.actorFill);
+            const stroke = this.normalizeColor(style.borderColor, this.theme.colors.defaultStroke);
+            const strokeWidth = style.borderThickness ?? 2;
+            const fontAttrs = `font-size="${style.fontSize ?? this.theme.fontSize}" font-weight="bold"`
+                + ` fill="${this.normalizeColor(style.fontColor, this.theme.colors.text)}"`
+                + (style.fontName ? ` font-family="${style.fontName}"` : '');
             const x = pl.x;
             const y = top ? pl.y : layout.height - this.theme.padding - this.theme.participantHeight - 20;
             const cx = pl.centerX;
@@ -158,35 +222,35 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
 
             switch (pl.participant.type) {
                 case 'actor':
-                    svg += `<circle cx="${cx}" cy="${y + 10}" r="8" fill="${fill}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
-                    svg += `<line x1="${cx}" y1="${y + 18}" x2="${cx}" y2="${y + 30}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
-                    svg += `<line x1="${cx - 10}" y1="${y + 22}" x2="${cx + 10}" y2="${y + 22}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
-                    svg += `<line x1="${cx}" y1="${y + 30}" x2="${cx - 8}" y2="${y + 40}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
-                    svg += `<line x1="${cx}" y1="${y + 30}" x2="${cx + 8}" y2="${y + 40}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
+                    svg += `<circle cx="${cx}" cy="${y + 10}" r="8" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
+                    svg += `<line x1="${cx}" y1="${y + 18}" x2="${cx}" y2="${y + 30}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
+                    svg += `<line x1="${cx - 10}" y1="${y + 22}" x2="${cx + 10}" y2="${y + 22}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
+                    svg += `<line x1="${cx}" y1="${y + 30}" x2="${cx - 8}" y2="${y + 40}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
+                    svg += `<line x1="${cx}" y1="${y + 30}" x2="${cx + 8}" y2="${y + 40}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
                     lines.forEach((line: string, j: number) => {
-                        svg += `<text x="${cx}" y="${y + 55 + j * 15}" text-anchor="middle" font-size="${this.theme.fontSize}" font-weight="bold">${line}</text>`;
+                        svg += `<text x="${cx}" y="${y + 55 + j * 15}" text-anchor="middle" ${fontAttrs}>${this.text(line)}</text>`;
                     });
                     break;
                 case 'boundary':
-                    svg += `<line x1="${cx - 20}" y1="${cy}" x2="${cx - 10}" y2="${cy}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
-                    svg += `<line x1="${cx - 20}" y1="${cy - 10}" x2="${cx - 20}" y2="${cy + 10}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
-                    svg += `<circle cx="${cx}" cy="${cy}" r="14" fill="${fill}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
+                    svg += `<line x1="${cx - 20}" y1="${cy}" x2="${cx - 10}" y2="${cy}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
+                    svg += `<line x1="${cx - 20}" y1="${cy - 10}" x2="${cx - 20}" y2="${cy + 10}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
+                    svg += `<circle cx="${cx}" cy="${cy}" r="14" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
                     lines.forEach((line: string, j: number) => {
-                        svg += `<text x="${cx}" y="${y + this.theme.participantHeight + 20 + j * 15}" text-anchor="middle" font-size="${this.theme.fontSize}" font-weight="bold">${line}</text>`;
+                        svg += `<text x="${cx}" y="${y + this.theme.participantHeight + 20 + j * 15}" text-anchor="middle" ${fontAttrs}>${this.text(line)}</text>`;
                     });
                     break;
                 case 'control':
-                    svg += `<circle cx="${cx}" cy="${cy}" r="14" fill="${fill}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
-                    svg += `<path d="M ${cx + 4} ${cy - 18} L ${cx - 4} ${cy - 14} L ${cx + 4} ${cy - 10}" fill="none" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
+                    svg += `<circle cx="${cx}" cy="${cy}" r="14" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
+                    svg += `<path d="M ${cx + 4} ${cy - 18} L ${cx - 4} ${cy - 14} L ${cx + 4} ${cy - 10}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
                     lines.forEach((line: string, j: number) => {
-                        svg += `<text x="${cx}" y="${y + this.theme.participantHeight + 20 + j * 15}" text-anchor="middle" font-size="${this.theme.fontSize}" font-weight="bold">${line}</text>`;
+                        svg += `<text x="${cx}" y="${y + this.theme.participantHeight + 20 + j * 15}" text-anchor="middle" ${fontAttrs}>${this.text(line)}</text>`;
                     });
                     break;
                 case 'entity':
-                    svg += `<circle cx="${cx}" cy="${cy}" r="14" fill="${fill}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
-                    svg += `<line x1="${cx - 14}" y1="${cy + 14}" x2="${cx + 14}" y2="${cy + 14}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
+                    svg += `<circle cx="${cx}" cy="${cy}" r="14" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
+                    svg += `<line x1="${cx - 14}" y1="${cy + 14}" x2="${cx + 14}" y2="${cy + 14}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
                     lines.forEach((line: string, j: number) => {
-                        svg += `<text x="${cx}" y="${y + this.theme.participantHeight + 20 + j * 15}" text-anchor="middle" font-size="${this.theme.fontSize}" font-weight="bold">${line}</text>`;
+                        svg += `<text x="${cx}" y="${y + this.theme.participantHeight + 20 + j * 15}" text-anchor="middle" ${fontAttrs}>${this.text(line)}</text>`;
                     });
                     break;
                 case 'database':
@@ -194,10 +258,10 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
                     const dbH = 40;
                     const dbY = y;
                     const dbX = cx - dbW / 2;
-                    svg += `<path d="M ${dbX} ${dbY + 10} L ${dbX} ${dbY + dbH - 10} A 17 8 0 0 0 ${dbX + dbW} ${dbY + dbH - 10} L ${dbX + dbW} ${dbY + 10} A 17 8 0 0 0 ${dbX} ${dbY + 10} M ${dbX} ${dbY + 10} A 17 8 0 0 1 ${dbX + dbW} ${dbY + 10}" fill="${fill}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
-                    svg += `<path d="M ${dbX} ${dbY + 10} A 17 8 0 0 0 ${dbX + dbW} ${dbY + 10}" fill="none" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
+                    svg += `<path d="M ${dbX} ${dbY + 10} L ${dbX} ${dbY + dbH - 10} A 17 8 0 0 0 ${dbX + dbW} ${dbY + dbH - 10} L ${dbX + dbW} ${dbY + 10} A 17 8 0 0 0 ${dbX} ${dbY + 10} M ${dbX} ${dbY + 10} A 17 8 0 0 1 ${dbX + dbW} ${dbY + 10}" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
+                    svg += `<path d="M ${dbX} ${dbY + 10} A 17 8 0 0 0 ${dbX + dbW} ${dbY + 10}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
                     lines.forEach((line: string, j: number) => {
-                        svg += `<text x="${cx}" y="${y + this.theme.participantHeight + 20 + j * 15}" text-anchor="middle" font-size="${this.theme.fontSize}" font-weight="bold">${line}</text>`;
+                        svg += `<text x="${cx}" y="${y + this.theme.participantHeight + 20 + j * 15}" text-anchor="middle" ${fontAttrs}>${this.text(line)}</text>`;
                     });
                     break;
                 case 'collections':
@@ -205,10 +269,10 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
                     const colH = 34;
                     const colY = y + 3;
                     const colX = cx - colW / 2;
-                    svg += `<rect x="${colX + 4}" y="${colY - 4}" width="${colW}" height="${colH}" fill="${fill}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
-                    svg += `<rect x="${colX}" y="${colY}" width="${colW}" height="${colH}" fill="${fill}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
+                    svg += `<rect x="${colX + 4}" y="${colY - 4}" width="${colW}" height="${colH}" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
+                    svg += `<rect x="${colX}" y="${colY}" width="${colW}" height="${colH}" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
                     lines.forEach((line: string, j: number) => {
-                        svg += `<text x="${cx}" y="${y + this.theme.participantHeight + 20 + j * 15}" text-anchor="middle" font-size="${this.theme.fontSize}" font-weight="bold">${line}</text>`;
+                        svg += `<text x="${cx}" y="${y + this.theme.participantHeight + 20 + j * 15}" text-anchor="middle" ${fontAttrs}>${this.text(line)}</text>`;
                     });
                     break;
                 case 'queue':
@@ -227,20 +291,20 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
 
                     // Strokes
                     // Body Outline (Top, Left Arc, Bottom) - Open
-                    svg += `<path d="M ${qX + qW} ${qY} L ${qX} ${qY} A ${qRx} ${qRy} 0 0 0 ${qX} ${qY + qH} L ${qX + qW} ${qY + qH}" fill="none" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
+                    svg += `<path d="M ${qX + qW} ${qY} L ${qX} ${qY} A ${qRx} ${qRy} 0 0 0 ${qX} ${qY + qH} L ${qX + qW} ${qY + qH}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
 
                     // Right Face Outline (Full Ellipse)
-                    svg += `<ellipse cx="${qX + qW}" cy="${qY + qRy}" rx="${qRx}" ry="${qRy}" fill="none" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
+                    svg += `<ellipse cx="${qX + qW}" cy="${qY + qRy}" rx="${qRx}" ry="${qRy}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
 
                     lines.forEach((line: string, j: number) => {
-                        svg += `<text x="${cx}" y="${y + this.theme.participantHeight + 20 + j * 15}" text-anchor="middle" font-size="${this.theme.fontSize}" font-weight="bold">${line}</text>`;
+                        svg += `<text x="${cx}" y="${y + this.theme.participantHeight + 20 + j * 15}" text-anchor="middle" ${fontAttrs}>${this.text(line)}</text>`;
                     });
                     break;
                 default:
-                    svg += `<rect x="${x}" y="${y}" width="${pl.width}" height="${this.theme.participantHeight}" rx="5" fill="${fill}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
+                    svg += `<rect x="${x}" y="${y}" width="${pl.width}" height="${this.theme.participantHeight}" rx="5" fill="${fill}" stroke="${stroke}" stroke-width="${strokeWidth}" />`;
                     lines.forEach((line: string, j: number) => {
                         const lineY = lines.length > 1 ? (cy - (lines.length - 1) * 7.5 + j * 15) : cy;
-                        svg += `<text x="${cx}" y="${lineY}" text-anchor="middle" dominant-baseline="middle" font-size="${this.theme.fontSize}" font-weight="bold">${line}</text>`;
+                        svg += `<text x="${cx}" y="${lineY}" text-anchor="middle" dominant-baseline="middle" ${fontAttrs}>${this.text(line)}</text>`;
                     });
             }
         };
@@ -250,38 +314,45 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
             if (pl.participant.name === '[' || pl.participant.name === ']') {
                 return;
             }
+            const [linkOpen, linkClose] = linkTags(pl.participant.link, this.linkOptions);
+            svg += `<g${sourceAttributes(`participant-${pl.participant.name}`, pl.participant)}>${this.participantTitle(pl.participant)}${linkOpen}`;
             draw(pl, true);
             if (!diagram.hideFootbox) {
                 draw(pl, false);
             }
+            svg += `${linkClose}</g>`;
         });
         return svg;
     }
 
-    private renderGroups(layout: LayoutResult): string {
+    private renderGroups(diagram: SequenceDiagram, layout: LayoutResult): string {
         let svg = '';
         layout.groups.forEach(g => {
-            svg += `<rect x="${g.x}" y="${g.y}" width="${g.width}" height="${g.height}" fill="none" stroke="#222" stroke-width="2" rx="5" />`;
-            svg += `<path d="M ${g.x} ${g.y} L ${g.x + 70} ${g.y} L ${g.x + 70} ${g.y + 10} L ${g.x + 60} ${g.y + 20} L ${g.x} ${g.y + 20} Z" fill="#eee" stroke="#222" stroke-width="2" />`;
-            svg += `<text x="${g.x + 5}" y="${g.y + 15}" font-size="${this.theme.fontSize - 2}" font-weight="bold">${g.type}</text>`;
-            if (g.label) svg += `<text x="${g.x + 75}" y="${g.y + 15}" font-size="${this.theme.fontSize - 2}" font-weight="bold">[${g.label}]</text>`;
+            svg += `<g${sourceAttributes(`group-${diagram.groups.indexOf(g.group)}`, g.group)}>`;
+            svg += `<rect x="${g.x}" y="${g.y}" width="${g.width}" height="${g.height}" fill="none" stroke="${this.theme.colors.groupStroke}" stroke-width="2" rx="5" />`;
+            svg += `<path d="M ${g.x} ${g.y} L ${g.x + 70} ${g.y} L ${g.x + 70} ${g.y + 10} L ${g.x + 60} ${g.y + 20} L ${g.x} ${g.y + 20} Z" fill="${this.theme.colors.groupHeaderFill}" stroke="${this.theme.colors.groupStroke}" stroke-width="2" />`;
+            svg += `<text x="${g.x + 5}" y="${g.y + 15}" font-size="${this.theme.fontSize - 2}" font-weight="bold" fill="${this.theme.colors.text}">${this.text(g.type)}</text>`;
+            if (g.label) svg += `<text x="${g.x + 75}" y="${g.y + 15}" font-size="${this.theme.fontSize - 2}" font-weight="bold" fill="${this.theme.colors.text}">[${this.text(g.label)}]</text>`;
 
 
             // Render group sections (e.g., "else error" in alt blocks)
             g.sections.forEach(section => {
                 const sectionY = section.y;
-                svg += `<line x1="${g.x}" y1="${sectionY}" x2="${g.x + g.width}" y2="${sectionY}" stroke="#222" stroke-width="1" stroke-dasharray="5,5" />`;
-                svg += `<text x="${g.x + 5}" y="${sectionY + 15}" font-size="${this.theme.fontSize - 2}" font-weight="bold">[${section.label}]</text>`;
+                svg += `<line x1="${g.x}" y1="${sectionY}" x2="${g.x + g.width}" y2="${sectionY}" stroke="${this.theme.colors.groupStroke}" stroke-width="1" stroke-dasharray="5,5" />`;
+                svg += `<text x="${g.x + 5}" y="${sectionY + 15}" font-size="${this.theme.fontSize - 2}" font-weight="bold" fill="${this.theme.colors.text}">[${this.text(section.label)}]</text>`;
             });
+            svg += '</g>';
         });
         return svg;
     }
 
-    private renderNotes(layout: LayoutResult): string {
+    private renderNotes(diagram: SequenceDiagram, layout: LayoutResult): string {
         let svg = '';
         layout.notes.forEach(nl => {
+            const [linkOpen, linkClose] = linkTags(nl.note.link, this.linkOptions);
+            svg += `<g${sourceAttributes(`note-${diagram.notes.indexOf(nl.note)}`, nl.note)}>${linkOpen}`;
             this.drawNoteShape(svg, nl.x, nl.y, nl.width, nl.height, nl.note.shape, nl.note.color, nl.note.text);
-            svg = this.lastSvg; // Using temp hack until helper refactored to return string
+            svg = this.lastSvg + `${linkClose}</g>`; // Using temp hack until helper refactored to return string
         });
         return svg;
     }
@@ -302,8 +373,8 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
         let svg = '';
         l.references.forEach(r => {
             svg += `<rect x="${r.x}" y="${r.y}" width="${r.width}" height="${r.height}" fill="${this.theme.colors.defaultFill}" stroke="${this.theme.colors.defaultStroke}" stroke-width="2" />`;
-            svg += `<path d="M ${r.x} ${r.y} L ${r.x + 70} ${r.y} L ${r.x + 70} ${r.y + 10} L ${r.x + 60} ${r.y + 20} L ${r.x} ${r.y + 20} Z" fill="#eee" stroke="#222" stroke-width="2" />`;
-            svg += `<text x="${r.x + 5}" y="${r.y + 12}" font-size="${this.theme.fontSize - 2}" font-weight="bold">ref</text>`;
+            svg += `<path d="M ${r.x} ${r.y} L ${r.x + 70} ${r.y} L ${r.x + 70} ${r.y + 10} L ${r.x + 60} ${r.y + 20} L ${r.x} ${r.y + 20} Z" fill="${this.theme.colors.groupHeaderFill}" stroke="${this.theme.colors.groupStroke}" stroke-width="2" />`;
+            svg += `<text x="${r.x + 5}" y="${r.y + 12}" font-size="${this.theme.fontSize - 2}" font-weight="bold" fill="${this.theme.colors.text}">ref</text>`;
 
             const lines = r.reference.label.split('\n');
             const lineHeight = this.theme.fontSize + 2;
@@ -319,7 +390,7 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
             }
 
             lines.forEach((line, i) => {
-                svg += `<text x="${r.x + r.width / 2}" y="${startY + i * lineHeight}" text-anchor="middle" dominant-baseline="middle" font-size="${this.theme.fontSize}">${line}</text>`;
+                svg += `<text x="${r.x + r.width / 2}" y="${startY + i * lineHeight}" text-anchor="middle" dominant-baseline="middle" font-size="${this.theme.fontSize}" fill="${this.theme.colors.text}">${this.text(line)}</text>`;
             });
         });
         return svg;
@@ -329,7 +400,11 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
         let svg = '';
         l.messages.forEach(ml => {
             const m = ml.message;
-            const strokeColor = this.normalizeColor(m.color, this.theme.colors.defaultStroke);
+            svg += `<g${sourceAttributes(`message-${d.messages.indexOf(m)}`, m)}>`;
+            svg += elementTitle(`${this.participantName(d, m.from)} to ${this.participantName(d, m.to)}${m.text ? `: ${m.text}` : ''}`);
+            const [linkOpen, linkClose] = linkTags(m.link, this.linkOptions);
+            svg += linkOpen;
+            const strokeColor = this.normalizeColor(m.color, this.theme.colors.arrow);
             const strokeDash = ml.lineStyle === 'dashed' ? '4' : '0';
             const safeColor = strokeColor.replace('#', '');
 
@@ -344,7 +419,7 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
                 else if (type === 'arrow-circle') id = isStart ? `arrowhead-circle-reverse-${safeColor}` : `arrowhead-circle-${safeColor}`;
                 else if (type === 'lost') id = `losthead-${safeColor}`;
                 else if (type === 'found') id = `circlehead-${safeColor}`;
-                return id ? `url(#${id})` : 'none';
+                return id ? `url(#${scopedId(this.idPrefix, id)})` : 'none';
             };
 
             const markerEnd = getMarker(m.arrowHead || 'default', false);
@@ -354,10 +429,10 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
             if (ml.points.length > 2) {
                 // Polyline for self-message
                 const dPath = `M ${ml.points.map(p => `${p.x} ${p.y}`).join(' L ')}`;
-                svg += `<path d="${dPath}" fill="none" stroke="${strokeColor}" stroke-width="1.5" stroke-dasharray="${strokeDash}" marker-end="${markerEnd}" marker-start="${markerStart}" />`;
+                svg += `<path d="${dPath}" fill="none" stroke="${strokeColor}" stroke-width="${this.theme.messageStrokeWidth}" stroke-dasharray="${strokeDash}" marker-end="${markerEnd}" marker-start="${markerStart}" />`;
             } else {
                 const [p1, p2] = ml.points;
-                svg += `<line x1="${p1.x}" y1="${p1.y}" x2="${p2.x}" y2="${p2.y}" stroke="${strokeColor}" stroke-width="1.5" stroke-dasharray="${strokeDash}" marker-end="${markerEnd}" marker-start="${markerStart}" />`;
+                svg += `<line x1="${p1.x}" y1="${p1.y}" x2="${p2.x}" y2="${p2.y}" stroke="${strokeColor}" stroke-width="${this.theme.messageStrokeWidth}" stroke-dasharray="${strokeDash}" marker-end="${markerEnd}" marker-start="${markerStart}" />`;
             }
 
             // Draw text
@@ -378,6 +453,7 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
 
                 svg += `<text x="${ml.labelPosition.x}" y="${y}" text-anchor="${anchor}" font-size="${this.theme.fontSize - 2}" fill="${strokeColor}">${displayContent}</text>`;
             });
+            svg += `${linkClose}</g>`;
         });
         return svg;
     }
@@ -389,9 +465,9 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
             svg += `<line x1="${this.theme.padding}" y1="${y}" x2="${l.width - this.theme.padding}" y2="${y}" stroke="${this.theme.colors.defaultStroke}" stroke-width="1" />`;
             svg += `<line x1="${this.theme.padding}" y1="${y + 4}" x2="${l.width - this.theme.padding}" y2="${y + 4}" stroke="${this.theme.colors.defaultStroke}" stroke-width="1" />`;
             if (div.label) {
-                const labelW = div.label.length * 9 + 20;
-                svg += `<rect x="${l.width / 2 - labelW / 2}" y="${y - 10}" width="${labelW}" height="20" fill="white" stroke="${this.theme.colors.defaultStroke}" stroke-width="1" />`;
-                svg += `<text x="${l.width / 2}" y="${y}" text-anchor="middle" dominant-baseline="middle" font-size="${this.theme.fontSize - 2}" font-weight="bold">${div.label}</text>`;
+                const labelW = measureRichText(this.measurer, div.label, { fontFamily: this.theme.fontFamily, fontSize: this.theme.fontSize - 2, bold: true }) + 20;
+                svg += `<rect x="${l.width / 2 - labelW / 2}" y="${y - 10}" width="${labelW}" height="20" fill="${this.theme.colors.background}" stroke="${this.theme.colors.defaultStroke}" stroke-width="1" />`;
+                svg += `<text x="${l.width / 2}" y="${y}" text-anchor="middle" dominant-baseline="middle" font-size="${this.theme.fontSize - 2}" font-weight="bold" fill="${this.theme.colors.text}">${this.text(div.label)}</text>`;
             }
         });
         return svg;
@@ -407,8 +483,8 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
 
             // Render text if present
             if (delay.text) {
-                const textW = delay.text.length * 8 + 20;
-                svg += `<text x="${midX}" y="${y}" text-anchor="middle" dominant-baseline="middle" font-size="${this.theme.fontSize}" fill="${this.theme.colors.text}">${delay.text}</text>`;
+                const textW = measureRichText(this.measurer, delay.text, { fontFamily: this.theme.fontFamily, fontSize: this.theme.fontSize }) + 20;
+                svg += `<text x="${midX}" y="${y}" text-anchor="middle" dominant-baseline="middle" font-size="${this.theme.fontSize}" fill="${this.theme.colors.text}">${this.text(delay.text)}</text>`;
 
                 // Dots on the left
                 for (let i = 0; i < dotCount; i++) {
@@ -451,7 +527,7 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
             // Draw label
             if (tc.label) {
                 const midY = (y1 + y2) / 2;
-                svg += `<text x="${x + 10}" y="${midY}" text-anchor="start" dominant-baseline="middle" font-size="${this.theme.fontSize - 2}" fill="${color}">${tc.label}</text>`;
+                svg += `<text x="${x + 10}" y="${midY}" text-anchor="start" dominant-baseline="middle" font-size="${this.theme.fontSize - 2}" fill="${color}">${this.text(tc.label)}</text>`;
             }
         });
         return svg;
@@ -475,11 +551,16 @@ export class SequenceRenderer implements Renderer<SequenceDiagram> {
         return formatRichText(text);
     }
 
+    /** Labels drawn without rich text formatting; escaped in safe mode */
+    private text(value: string): string {
+        return this.safe ? escapeXml(value) : value;
+    }
+
     private lastSvg: string = '';
     private drawNoteShape(svg: string, x: number, y: number, w: number, h: number, shape: any, color: string | undefined, text: string) {
         let noteSvg = '';
         const fill = this.normalizeColor(color, this.theme.colors.noteFill);
-        const borderColor = this.theme.colors.defaultStroke;
+        const borderColor = this.theme.colors.noteStroke;
 
         const effectiveShape = shape || 'folder';
 
@@ -0,0 +1,22 @@
+import { SkinParamMapping } from '../../core/SkinParam';
+
+/**
+ * skinparam names understood by sequence diagrams.
+ * Participant types accept per-type and per-stereotype styles,
+ * e.g. `skinparam participant<<Service>> { BackgroundColor #eef }`.
+ */
+export const sequenceSkinParams: SkinParamMapping = {
+    theme: {
+        defaultfontsize: { path: 'fontSize', kind: 'number' },
+        defaultfontname: { path: 'fontFamily', kind: 'string' },
+        defaultfontcolor: { path: 'colors.text', kind: 'color' },
+        arrowcolor: { path: 'colors.arrow', kind: 'color' },
+        arrowthickness: { path: 'messageStrokeWidth', kind: 'number' },
+        sequencearrowcolor: { path: 'colors.arrow', kind: 'color' },
+        sequencearrowthickness: { path: 'messageStrokeWidth', kind: 'number' },
+        sequencelifelinebordercolor: { path: 'colors.line', kind: 'color' },
+        notebackgroundcolor: { path: 'colors.noteFill', kind: 'color' },
+        notebordercolor: { path: 'colors.noteStroke', kind: 'color' },
+    },
+    elements: ['participant', 'actor', 'boundary', 'control', 'entity', 'database', 'collections', 'queue'],
+};
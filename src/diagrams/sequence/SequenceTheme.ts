@@ -1,3 +1,5 @@
+import { DeepPartial } from '../../core/Theme';
+
 export interface SequenceTheme {
     padding: number;
     participantWidth: number;
@@ -6,13 +8,19 @@ export interface SequenceTheme {
     defaultMessageGap: number;
     fontSize: number;
     activationWidth: number;
+    messageStrokeWidth: number;
     colors: {
         defaultStroke: string;
         defaultFill: string;
         actorFill: string;
         noteFill: string;
+        noteStroke: string;
+        arrow: string;
         line: string;
         text: string;
+        background: string;
+        groupStroke: string;
+        groupHeaderFill: string;
     };
     fontFamily: string;
 }
@@ -25,13 +33,70 @@ export const defaultTheme: SequenceTheme = {
     defaultMessageGap: 50,
     fontSize: 14,
     activationWidth: 12,
+    messageStrokeWidth: 1.5,
     colors: {
         defaultStroke: '#333333',
         defaultFill: '#eeeeee',
         actorFill: '#f8f9fa',
         noteFill: '#ffffcc',
+        noteStroke: '#333333',
+        arrow: '#333333',
         line: '#666666',
         text: '#000000',
+        background: 'white',
+        groupStroke: '#222222',
+        groupHeaderFill: '#eeeeee',
     },
     fontFamily: 'sans-serif',
 };
+
+/** Built-in presets selectable with `!theme <name>` or the `themeName` render option */
+export const sequenceThemePresets: Record<string, DeepPartial<SequenceTheme>> = {
+    dark: {
+        colors: {
+            defaultStroke: '#c9d1d9',
+            defaultFill: '#2d333b',
+            actorFill: '#2d333b',
+            noteFill: '#3a3a2e',
+            noteStroke: '#8b8b6a',
+            arrow: '#c9d1d9',
+            line: '#768390',
+            text: '#e6edf3',
+            background: '#0d1117',
+            groupStroke: '#768390',
+            groupHeaderFill: '#22272e',
+        },
+    },
+    plain: {
+        messageStrokeWidth: 1,
+        colors: {
+            defaultStroke: '#000000',
+            defaultFill: '#ffffff',
+            actorFill: '#ffffff',
+            noteFill: '#ffffff',
+            noteStroke: '#000000',
+            arrow: '#000000',
+            line: '#000000',
+            text: '#000000',
+            background: '#ffffff',
+            groupStroke: '#000000',
+            groupHeaderFill: '#ffffff',
+        },
+    },
+    blueprint: {
+        colors: {
+            defaultStroke: '#ffffff',
+            defaultFill: '#1f5aa6',
+            actorFill: '#1f5aa6',
+            noteFill: '#2a6bc0',
+            noteStroke: '#ffffff',
+            arrow: '#ffffff',
+            line: '#b3cdf0',
+            text: '#ffffff',
+            background: '#174a8c',
+            groupStroke: '#b3cdf0',
+            groupHeaderFill: '#2a6bc0',
+        },
+        fontFamily: "'Courier New', monospace",
+    },
+};
@@ -1,32 +1,227 @@
-import { SequenceParser } from './diagrams/sequence/SequenceParser';
-import { SequenceRenderer } from './diagrams/sequence/SequenceRenderer';
-import { ComponentParser } from './diagrams/component/ComponentParser';
-import { ComponentRenderer } from './diagrams/component/ComponentRenderer';
+import { DiagramRegistry, DiagramDefinition } from './core/DiagramRegistry';
+import { Diagram } from './core/Diagram';
+import { Diagnostic, createDiagnostic, diagnosticError } from './core/Diagnostic';
+import { PreprocessResult, preprocess, preprocessAsync } from './core/Preprocessor';
+import { AsyncIncludeResolver, IncludeResolver, preloadIncludes } from './core/Include';
+import { ParserOptions } from './core/Parser';
+import { RendererOptions, scopedId, sourceIdPrefix } from './core/Renderer';
+import { SafeModeOptions, countElements, resolveSafeMode, restrictIncludeSchemes, sanitizeStyles } from './core/SafeMode';
+import { DiagramBlock, splitDiagrams } from './core/DiagramBlocks';
+import { DecodedSourceTooLargeError, decode, encode } from './core/PlantUmlEncoding';
+import { extractSource } from './core/SourceEmbedding';
+import { DiagramJson, DiagramJsonError, readDiagramJson } from './core/DiagramJson';
+import { FormatOptions, formatDiagramLines } from './core/Formatter';
+import { CanvasTextMeasurer, TableTextMeasurer, TextMeasurer } from './core/TextMeasurer';
+import { DeepPartial } from './core/Theme';
+import { SequenceTheme, sequenceThemePresets } from './diagrams/sequence/SequenceTheme';
+import { ComponentTheme } from './diagrams/component/ComponentTheme';
+import { sequenceDefinition } from './diagrams/sequence/SequenceDefinition';
+import { componentDefinition } from './diagrams/component/ComponentDefinition';
+import { defineDiagramElement } from './browser/DiagramElement';
+import { RenderCancelledError, WorkerRenderer } from './browser/WorkerRenderer';
+import { markdownItSeeduml } from './markdown/MarkdownItPlugin';
+import { remarkSeeduml } from './markdown/RemarkPlugin';
 
-export interface InitializeConfig {
+export { DiagramRegistry } from './core/DiagramRegistry';
+export { splitDiagrams } from './core/DiagramBlocks';
+export { encode, decode, DecodedSourceTooLargeError } from './core/PlantUmlEncoding';
+export { extractSource } from './core/SourceEmbedding';
+export type { PlantUmlEncodingFormat, DecodeOptions } from './core/PlantUmlEncoding';
+export type { SafeModeOptions } from './core/SafeMode';
+export type { Link } from './core/Link';
+export type { DiagramBlock } from './core/DiagramBlocks';
+export { preprocess, preprocessAsync } from './core/Preprocessor';
+export type { PreprocessOptions, AsyncPreprocessOptions, PreprocessResult, PreprocessorValue } from './core/Preprocessor';
+export type { IncludeResolver, AsyncIncludeResolver, IncludedFile } from './core/Include';
+export { CanvasTextMeasurer, TableTextMeasurer, defaultTextMeasurer, measureRichText } from './core/TextMeasurer';
+export type { TextMeasurer, TextStyle } from './core/TextMeasurer';
+export type { DiagramDefinition } from './core/DiagramRegistry';
+export type { Diagram } from './core/Diagram';
+export { DiagramJsonError, DIAGRAM_JSON_VERSION } from './core/DiagramJson';
+export type { DiagramJson } from './core/DiagramJson';
+export type { FormatOptions } from './core/Formatter';
+export type { SequenceDiagramJson, SequenceNoteJson } from './diagrams/sequence/SequenceJson';
+export type { ComponentDiagramJson } from './diagrams/component/ComponentJson';
+export type { Parser, ParseResult, ParserOptions } from './core/Parser';
+export type { Diagnostic, DiagnosticSeverity } from './core/Diagnostic';
+export type { Renderer, RendererOptions } from './core/Renderer';
+export type { DeepPartial } from './core/Theme';
+export type { SequenceTheme } from './diagrams/sequence/SequenceTheme';
+export type { ComponentTheme } from './diagrams/component/ComponentTheme';
+export { defineDiagramElement } from './browser/DiagramElement';
+export type { SeedumlDiagramElement, DiagramElementEventDetail } from './browser/DiagramElement';
+export { WorkerRenderer, RenderCancelledError } from './browser/WorkerRenderer';
+export type { WorkerRenderOptions, WorkerRenderResult } from './browser/WorkerRenderer';
+export { markdownItSeeduml } from './markdown/MarkdownItPlugin';
+export { remarkSeeduml } from './markdown/RemarkPlugin';
+export type { MarkdownDiagramOptions, MarkdownDiagramWarning } from './markdown/MarkdownDiagrams';
+
+/**
+ * Registry of the diagram types known to render().
+ * Sequence diagrams are the fallback when no detector recognizes the source.
+ */
+export const registry = new DiagramRegistry('sequence');
+registry.register(sequenceDefinition);
+registry.register(componentDefinition);
+
+/**
+ * Register a custom diagram type (or replace a built-in one)
+ * @param definition Parser/renderer pair with its detector and start tags
+ */
+export function registerDiagram(definition: DiagramDefinition<any>): void {
+    registry.register(definition);
+}
+
+/**
+ * Theme overrides accepted by the render functions.
+ * Keys that exist in both themes (fonts, padding, shared colors) apply to
+ * either diagram type; type-specific keys are ignored by the other type.
+ */
+export type ThemeOverrides = DeepPartial<SequenceTheme> & DeepPartial<ComponentTheme>;
+
+export interface RenderOptions {
+    /** Diagram type such as 'component', used instead of detecting it from the source */
+    type?: string;
+    /** Built-in preset such as 'dark', 'plain' or 'blueprint' (see listThemes()) */
+    themeName?: string;
+    /** Deep-merged over the default theme (and preset) of the rendered diagram type */
+    theme?: ThemeOverrides;
+    /** Resolves `!include`/`!includesub` paths; must be synchronous for render() */
+    includeResolver?: IncludeResolver;
+    /** Path of the source, passed to the include resolver for relative paths */
+    file?: string;
+    /** Measures label widths; pass a CanvasTextMeasurer to use the page's real fonts */
+    textMeasurer?: TextMeasurer;
+    /**
+     * Namespace for the ids in the SVG. Defaults to a hash of the source, so
+     * diagrams inlined in one page keep their own arrowheads and filters.
+     */
+    idPrefix?: string;
+    /**
+     * Safe mode for untrusted sources: escapes every label, drops unsafe style
+     * values, rejects includes and drops links outside the URL scheme allow-list and enforces
+     * size limits. A breached limit is reported as an error diagnostic.
+     */
+    safe?: boolean | SafeModeOptions;
+    /**
+     * Adds a text alternative to the SVG description: every message or
+     * relationship, in order, one per line as `from -> to: label`
+     */
+    textAlternative?: boolean;
+    /** Base URL that relative `[[url]]` links on diagram elements are resolved against */
+    linkBase?: string;
+    /** Embeds the source in the SVG so extractSource() can recover it for editing */
+    embedSource?: boolean;
+}
+
+export type AsyncRenderOptions = Omit<RenderOptions, 'includeResolver'> & {
+    includeResolver?: AsyncIncludeResolver;
+};
+
+function toParserOptions(options: RenderOptions): ParserOptions {
+    const safe = resolveSafeMode(options.safe);
+    const resolveInclude = safe && options.includeResolver
+        ? restrictIncludeSchemes(options.includeResolver, safe.allowedUrlSchemes)
+        : options.includeResolver;
+    return { preprocess: { resolveInclude, file: options.file, maxSteps: safe?.maxPreprocessorSteps, maxLength: safe?.maxSourceLength } };
+}
+
+/** Hash of the source and of the options that change how its markers and filters look */
+function defaultIdPrefix(content: string, options: RenderOptions): string {
+    return sourceIdPrefix(content, { themeName: options.themeName, theme: options.theme, safe: !!options.safe });
+}
+
+/**
+ * Options for one of several diagrams shown together: an `idPrefix` given
+ * for all of them is combined with each diagram's own, so their ids stay apart.
+ * @param content Source of the one diagram
+ */
+export function blockRenderOptions(content: string, options: RenderOptions): RenderOptions {
+    if (options.idPrefix === undefined) return options;
+    return { ...options, idPrefix: scopedId(options.idPrefix, defaultIdPrefix(content, options)) };
+}
+
+function toRendererOptions(content: string, options: RenderOptions): RendererOptions {
+    const safe = resolveSafeMode(options.safe);
+    return {
+        themeName: options.themeName,
+        theme: options.theme,
+        textMeasurer: options.textMeasurer,
+        idPrefix: options.idPrefix ?? defaultIdPrefix(content, options),
+        safe: !!options.safe,
+        textAlternative: options.textAlternative,
+        linkBase: options.linkBase,
+        allowedUrlSchemes: safe?.allowedUrlSchemes,
+        embeddedSource: options.embedSource ? content : undefined
+    };
+}
+
+/** A source's diagram type, and the expanded source if detecting the type needed it */
+interface ResolvedSource {
+    definition: DiagramDefinition;
+    preprocessed?: PreprocessResult;
+}
+
+/**
+ * Picks the diagram type, unless the `type` option names one. Sources with
+ * directives are detected on their expanded text, so diagrams pulled in
+ * with !include are recognized too; the parser reuses that expansion.
+ */
+function resolveDefinition(content: string, options: RenderOptions): ResolvedSource {
+    if (options.type) {
+        const definition = registry.get(options.type);
+        if (!definition) throw new Error(`Unknown diagram type: ${options.type}`);
+        return { definition };
+    }
+    if (!/^\s*!/m.test(content)) return { definition: registry.resolve(content) };
+    const preprocessed = preprocess(content, toParserOptions(options).preprocess);
+    return { definition: registry.resolve(preprocessed.lines.join('\n')), preprocessed };
+}
+
+/**
+ * Names of the built-in theme presets, usable with `!theme <name>`
+ * in the source or with the `themeName` render option.
+ */
+export function listThemes(): string[] {
+    return Object.keys(sequenceThemePresets);
+}
+
+export interface RenderAllOptions extends RenderOptions {
+    /** Render each block only when it comes near the viewport (needs IntersectionObserver) */
+    lazy?: boolean;
+    /** How near the viewport a lazy block must come, as a CSS margin (default '200px') */
+    rootMargin?: string;
+    /** Render in a Web Worker instead of on the main thread */
+    worker?: WorkerRenderer;
+}
+
+export interface InitializeConfig extends RenderAllOptions {
     startOnLoad?: boolean;
     selector?: string;
 }
 
-export function renderSequenceDiagram(content: string): string {
-    const parser = new SequenceParser();
-    const renderer = new SequenceRenderer();
-    try {
-        const diagram = parser.parse(content);
-        return renderer.render(diagram);
-    } catch (e: any) {
-        return renderError(e);
-    }
+export function renderSequenceDiagram(content: string, options: RenderOptions = {}): string {
+    return renderWith(sequenceDefinition, content, options).svg;
 }
 
-export function renderComponentDiagram(content: string): string {
-    const parser = new ComponentParser();
-    const renderer = new ComponentRenderer();
+export function renderComponentDiagram(content: string, options: RenderOptions = {}): string {
+    return renderWith(componentDefinition, content, options).svg;
+}
+
+/**
+ * Parses and renders with a known diagram type. The source only renders
+ * when it parses without errors (and, in safe mode, within the limits);
+ * otherwise the first error is drawn instead.
+ */
+function renderWith(definition: DiagramDefinition, content: string, options: RenderOptions, preprocessed?: PreprocessResult): DiagramRenderResult {
+    let result: DiagramParseResult = { type: definition.type, diagnostics: [] };
     try {
-        const diagram = parser.parse(content);
-        return renderer.render(diagram);
+        result = parseWith(definition, content, options, preprocessed);
+        const error = result.diagnostics.find(d => d.severity === 'error');
+        if (error) throw diagnosticError(error);
+        return { ...result, svg: definition.createRenderer(toRendererOptions(content, options)).render(result.diagram!) };
     } catch (e: any) {
-        return renderError(e);
+        return { ...result, svg: renderError(e) };
     }
 }
 
@@ -43,58 +238,278 @@ function renderError(e: any): string {
     `.trim();
 }
 
-export function render(content: string): string {
-    // Sequence-specific keywords that strongly indicate a sequence diagram.
-    // These take absolute priority because they never appear in component diagrams.
-    const hasSequenceKeywords = /\b(participant|actor|boundary|control|entity|collections|queue)\b/.test(content);
+export interface DiagramParseResult {
+    /** Resolved diagram type, if any */
+    type?: string;
+    /** Parsed diagram; missing when the source could not be parsed at all */
+    diagram?: Diagram;
+    diagnostics: Diagnostic[];
+}
+
+/**
+ * Parse a diagram without rendering it, collecting every problem found
+ * instead of stopping at the first one.
+ * @param content Diagram source
+ */
+export function parse(content: string, options: RenderOptions = {}): DiagramParseResult {
+    let resolved: ResolvedSource;
+    try {
+        resolved = resolveDefinition(content, options);
+    } catch (e: any) {
+        return unresolvedResult(content, e);
+    }
+    return parseWith(resolved.definition, content, options, resolved.preprocessed);
+}
+
+/** Reports a source whose diagram type could not be picked at its `@start` line */
+function unresolvedResult(content: string, e: any): DiagramParseResult {
+    const lines = content.split('\n');
+    const markerLine = Math.max(0, lines.findIndex(l => l.trim().startsWith('@start')));
+    return { diagnostics: [createDiagnostic('error', markerLine, lines[markerLine], e.message)] };
+}
+
+function parseWith(definition: DiagramDefinition, content: string, options: RenderOptions, preprocessed?: PreprocessResult): DiagramParseResult {
+    const safe = resolveSafeMode(options.safe);
+    if (safe && content.length > safe.maxSourceLength) {
+        return { type: definition.type, diagnostics: [createDiagnostic('error', 0, '', `Source is longer than ${safe.maxSourceLength} characters`)] };
+    }
+
+    const result = parseDiagram(definition, content, options, preprocessed);
+    if (safe && result.diagram) {
+        sanitizeStyles(result.diagram);
+        const count = countElements(result.diagram);
+        if (count > safe.maxElements) {
+            const message = `Diagram has ${count} elements, more than the limit of ${safe.maxElements}`;
+            return { type: definition.type, diagnostics: [...result.diagnostics, createDiagnostic('error', 0, '', message)] };
+        }
+    }
+    return result;
+}
+
+function parseDiagram(definition: DiagramDefinition, content: string, options: RenderOptions, preprocessed?: PreprocessResult): DiagramParseResult {
+    const parser = definition.createParser(toParserOptions(options));
+    if (parser.parseWithDiagnostics) {
+        const { diagram, diagnostics } = parser.parseWithDiagnostics(content, preprocessed);
+        return { type: definition.type, diagram, diagnostics };
+    }
+
+    // Parsers without diagnostics support only report their first error
+    try {
+        return { type: definition.type, diagram: parser.parse(content, preprocessed), diagnostics: [] };
+    } catch (e: any) {
+        return { type: definition.type, diagnostics: [createDiagnostic('error', 0, '', e.message || String(e))] };
+    }
+}
+
+export function render(content: string, options: RenderOptions = {}): string {
+    return renderWithDiagnostics(content, options).svg;
+}
+
+/** A rendered diagram with everything parse() reports about it */
+export interface DiagramRenderResult extends DiagramParseResult {
+    svg: string;
+}
 
-    // Component-specific keywords (explicit declarations)
-    const hasComponentKeywords = /\b(component|package|node|cloud|database|frame|folder)\b/.test(content);
+/**
+ * Parses and renders a diagram in one pass, for callers that show the
+ * diagnostics next to the SVG: includes are resolved only once.
+ */
+export function renderWithDiagnostics(content: string, options: RenderOptions = {}): DiagramRenderResult {
+    let resolved: ResolvedSource;
+    try {
+        resolved = resolveDefinition(content, options);
+    } catch (e: any) {
+        return { ...unresolvedResult(content, e), svg: renderError(e) };
+    }
+    return renderWith(resolved.definition, content, options, resolved.preprocessed);
+}
+
+/** A rendered block of a multi-diagram document */
+export interface RenderedDiagram extends DiagramBlock {
+    svg: string;
+}
+
+/**
+ * Render every `@startuml ... @enduml` block of a document separately
+ * @param document Source holding one or more diagrams
+ * @returns One result per block, in document order
+ */
+export function renderDiagrams(document: string, options: RenderOptions = {}): RenderedDiagram[] {
+    return splitDiagrams(document).map(block => ({ ...block, svg: render(block.source, blockRenderOptions(block.source, options)) }));
+}
+
+/**
+ * Converts a parsed diagram (see parse()) to its versioned JSON model,
+ * described by schema/seeduml-diagram.schema.json
+ */
+export function toJSON(diagram: Diagram): DiagramJson {
+    const definition = registry.get(diagram.type);
+    if (!definition?.toJSON) throw new Error(`No JSON format for ${diagram.type} diagrams`);
+    return definition.toJSON(diagram);
+}
+
+/**
+ * Builds a diagram from its JSON model, given as an object or as JSON text
+ * @throws DiagramJsonError if the model does not match the format
+ */
+export function fromJSON(json: DiagramJson | string): Diagram {
+    let data: unknown = json;
+    if (typeof json === 'string') {
+        try {
+            data = JSON.parse(json);
+        } catch (e: any) {
+            throw new DiagramJsonError('', `invalid JSON: ${e.message}`);
+        }
+    }
+    const type = readDiagramJson(data).string('type');
+    const definition = registry.get(type);
+    if (!definition?.fromJSON) throw new DiagramJsonError('/type', `no JSON format for ${type} diagrams`);
+    return definition.fromJSON(data);
+}
 
-    // Component bracket syntax [Name], but only when at the start of a line
-    // to avoid matching group labels like "group My Label [label2]"
-    const hasComponentBrackets = /^\s*\[[^\]]+\]/m.test(content);
+/**
+ * Renders a diagram from its JSON model, so tools can generate diagrams as
+ * data instead of PlantUML text. Invalid models render as an error, like
+ * invalid sources do; with `embedSource`, the JSON text is embedded.
+ */
+export function renderJSON(json: DiagramJson | string, options: RenderOptions = {}): string {
+    try {
+        const diagram = fromJSON(json);
+        const safe = resolveSafeMode(options.safe);
+        if (safe) {
+            sanitizeStyles(diagram);
+            const count = countElements(diagram);
+            if (count > safe.maxElements) throw new Error(`Diagram has ${count} elements, more than the limit of ${safe.maxElements}`);
+        }
+        const text = typeof json === 'string' ? json : JSON.stringify(json);
+        return registry.get(diagram.type)!.createRenderer(toRendererOptions(text, options)).render(diagram);
+    } catch (e: any) {
+        return renderError(e);
+    }
+}
 
-    const isComponent = hasComponentKeywords || hasComponentBrackets;
-    const isSequence = hasSequenceKeywords;
+/**
+ * Pretty-prints the diagrams of a document as canonical PlantUML: blocks are
+ * indented, names quoted consistently and aliases aligned, while comments
+ * and blank-line grouping are kept. Text outside the diagrams is unchanged.
+ * A diagram that would read differently once rewritten is only re-indented,
+ * or left as written if even that would change it.
+ */
+export function format(source: string, options: FormatOptions = {}): string {
+    const newline = source.includes('\r\n') ? '\r\n' : '\n';
+    const lines = source.split(/\r?\n/);
+    const output: string[] = [];
+    let next = 0;
+    splitDiagrams(source).forEach(block => {
+        output.push(...lines.slice(next, block.line - 1), ...formatBlock(lines.slice(block.line - 1, block.endLine), options));
+        next = block.endLine;
+    });
+    output.push(...lines.slice(next));
+    while (output.length > 0 && !output[output.length - 1].trim()) output.pop();
+    return output.length > 0 ? output.join(newline) + newline : '';
+}
 
-    // Sequence wins if it has sequence-specific keywords (participant etc.)
-    if (isSequence && !isComponent) return renderSequenceDiagram(content);
-    if (isComponent && !isSequence) return renderComponentDiagram(content);
+function formatBlock(lines: string[], options: FormatOptions): string[] {
+    const content = lines.join('\n');
+    let definition: DiagramDefinition;
+    try {
+        definition = resolveDefinition(content, {}).definition;
+    } catch {
+        return lines;
+    }
+    if (!definition.formatStatement || !definition.toJSON) return lines;
 
-    // Both or neither: prefer sequence when sequence-related control flow detected
-    if (/\b(alt|else|loop|group|note|opt|par|break|critical|ref)\b/.test(content)) {
-        return renderSequenceDiagram(content);
+    const meaning = describeMeaning(definition, content);
+    for (const normalize of [true, false]) {
+        const formatted = formatDiagramLines(lines, definition.formatStatement, options, normalize);
+        if (describeMeaning(definition, formatted.join('\n')) === meaning) return formatted;
     }
+    return lines;
+}
 
-    // Fallback: [Bracket] at line start → component
-    if (hasComponentBrackets) return renderComponentDiagram(content);
+/** What a source means, regardless of where its statements sit: the model and the problems found */
+function describeMeaning(definition: DiagramDefinition, content: string): string {
+    const { diagram, diagnostics } = parseDiagram(definition, content, {});
+    return JSON.stringify({
+        model: diagram && definition.toJSON!(diagram),
+        diagnostics: diagnostics.map(d => `${d.severity}: ${d.message}`)
+    }, (key, value) => key === 'sourceLine' || key === 'sourceEnd' ? undefined : value);
+}
 
-    // Default
-    return renderSequenceDiagram(content);
+/**
+ * Like render(), but accepts an asynchronous include resolver
+ * (e.g. one that fetches files over HTTP).
+ */
+export async function renderAsync(content: string, options: AsyncRenderOptions = {}): Promise<string> {
+    return render(content, await preloadRenderOptions(content, options));
 }
 
+/**
+ * Like parse(), but accepts an asynchronous include resolver.
+ */
+export async function parseAsync(content: string, options: AsyncRenderOptions = {}): Promise<DiagramParseResult> {
+    return parse(content, await preloadRenderOptions(content, options));
+}
+
+async function preloadRenderOptions(content: string, options: AsyncRenderOptions): Promise<RenderOptions> {
+    const { includeResolver, ...rest } = options;
+    const safe = resolveSafeMode(options.safe);
+    // Check schemes before anything is fetched
+    const resolver = safe && includeResolver ? restrictIncludeSchemes(includeResolver, safe.allowedUrlSchemes) : includeResolver;
+    return {
+        ...rest,
+        includeResolver: resolver ? await preloadIncludes(content, resolver, options.file) : undefined
+    };
+}
 
 /**
- * Automatically render all seeduml diagram blocks on the page
+ * Automatically render all seeduml diagram blocks on the page.
+ * A block holding several `@startuml ... @enduml` diagrams renders each of them.
  * @param selector CSS selector for diagram blocks (default: 'pre.seeduml')
+ * @param options Render options applied to every block, and whether to render lazily or in a worker
  */
-export function renderAll(selector: string = 'pre.seeduml'): void {
+export function renderAll(selector: string = 'pre.seeduml', options: RenderAllOptions = {}): void {
     if (typeof document === 'undefined') return;
 
-    const blocks = document.querySelectorAll(selector);
-    blocks.forEach((block) => {
+    const { lazy, rootMargin = '200px', worker, ...renderOptions } = options;
+    const renderBlock = (block: Element) => {
         const content = block.textContent || '';
-        const svg = render(content);
+        if (!worker) {
+            replaceBlock(block, renderDiagrams(content, renderOptions));
+            return;
+        }
+        const rendered = splitDiagrams(content).map(diagram =>
+            worker.render(diagram.source, blockRenderOptions(diagram.source, renderOptions)).then(({ svg }) => ({ ...diagram, svg })));
+        // Only cancellation rejects; the block then keeps its source
+        Promise.all(rendered).then(diagrams => replaceBlock(block, diagrams), () => { });
+    };
 
-        // Replace the pre element with an SVG container
+    const blocks = Array.from(document.querySelectorAll(selector));
+    if (!lazy || typeof IntersectionObserver === 'undefined') {
+        blocks.forEach(renderBlock);
+        return;
+    }
+    const observer = new IntersectionObserver(entries => {
+        entries.forEach(entry => {
+            if (!entry.isIntersecting) return;
+            observer.unobserve(entry.target);
+            renderBlock(entry.target);
+        });
+    }, { rootMargin });
+    blocks.forEach(block => observer.observe(block));
+}
+
+/** Replaces a diagram block with one SVG container per diagram it holds */
+function replaceBlock(block: Element, diagrams: RenderedDiagram[]): void {
+    const containers = diagrams.map(({ name, svg }) => {
         const container = document.createElement('div');
         container.className = 'seeduml-diagram';
         container.innerHTML = svg;
         container.style.display = 'inline-block';
-
-        block.parentNode?.replaceChild(container, block);
+        if (name) container.dataset.name = name;
+        return container;
     });
+    block.replaceWith(...containers);
 }
 
 /**
@@ -102,7 +517,7 @@ export function renderAll(selector: string = 'pre.seeduml'): void {
  * @param config Configuration options
  */
 export function initialize(config: InitializeConfig = {}): void {
-    const { startOnLoad = true, selector = 'pre.seeduml' } = config;
+    const { startOnLoad = true, selector = 'pre.seeduml', ...options } = config;
 
     if (!startOnLoad) return;
 
@@ -111,10 +526,10 @@ export function initialize(config: InitializeConfig = {}): void {
     // If document is already loaded
     if (document.readyState === 'loading') {
         document.addEventListener('DOMContentLoaded', () => {
-            renderAll(selector);
+            renderAll(selector, options);
         });
     } else {
-        renderAll(selector);
+        renderAll(selector, options);
     }
 }
 
@@ -124,9 +539,37 @@ if (typeof window !== 'undefined') {
         renderSequenceDiagram,
         renderComponentDiagram,
         render,
+        renderWithDiagnostics,
+        renderAsync,
+        renderDiagrams,
+        blockRenderOptions,
+        renderJSON,
+        toJSON,
+        fromJSON,
+        format,
+        DiagramJsonError,
+        splitDiagrams,
+        parse,
+        parseAsync,
         renderAll,
-        initialize
+        initialize,
+        defineDiagramElement,
+        WorkerRenderer,
+        RenderCancelledError,
+        markdownItSeeduml,
+        remarkSeeduml,
+        registerDiagram,
+        listThemes,
+        preprocess,
+        preprocessAsync,
+        encode,
+        decode,
+        DecodedSourceTooLargeError,
+        extractSource,
+        CanvasTextMeasurer,
+        TableTextMeasurer
     };
+    defineDiagramElement();
 }
 
 // Export for ES modules
@@ -134,6 +577,33 @@ export default {
     renderSequenceDiagram,
     renderComponentDiagram,
     render,
+    renderWithDiagnostics,
+    renderAsync,
+    renderDiagrams,
+    blockRenderOptions,
+    renderJSON,
+    toJSON,
+    fromJSON,
+    format,
+    DiagramJsonError,
+    splitDiagrams,
+    parse,
+    parseAsync,
     renderAll,
-    initialize
+    initialize,
+    defineDiagramElement,
+    WorkerRenderer,
+    RenderCancelledError,
+    markdownItSeeduml,
+    remarkSeeduml,
+    registerDiagram,
+    listThemes,
+    preprocess,
+    preprocessAsync,
+    encode,
+    decode,
+    DecodedSourceTooLargeError,
+    extractSource,
+    CanvasTextMeasurer,
+    TableTextMeasurer
 };
@@ -0,0 +1,70 @@
+import { blockRenderOptions, renderWithDiagnostics } from '../index';
+import { splitDiagrams } from '../core/DiagramBlocks';
+import { DiagnosticSeverity } from '../core/Diagnostic';
+import { SafeModeOptions, escapeXml } from '../core/SafeMode';
+import { plainText } from '../core/Accessibility';
+
+/** Options shared by the markdown-it and remark plugins */
+export interface MarkdownDiagramOptions {
+    /** Fence languages rendered as diagrams (default plantuml, seeduml and puml) */
+    languages?: string[];
+    /** Built-in theme preset applied to every diagram */
+    themeName?: string;
+    /** Safe mode for diagrams from untrusted documents, see RenderOptions */
+    safe?: boolean | SafeModeOptions;
+    /** Prepended to the per-diagram id namespace */
+    idPrefix?: string;
+    /** Emit each diagram as an `<img>` with an SVG data URI instead of inline SVG */
+    image?: boolean;
+    /** Called for every error or warning in a diagram; defaults to console.warn */
+    onWarning?: (warning: MarkdownDiagramWarning) => void;
+}
+
+/** A problem in a diagram fence, located in the Markdown document */
+export interface MarkdownDiagramWarning {
+    severity: DiagnosticSeverity;
+    /** 1-based line in the Markdown document */
+    line: number;
+    column: number;
+    message: string;
+}
+
+const DEFAULT_LANGUAGES = ['plantuml', 'seeduml', 'puml'];
+
+/** Whether a fence with this info string (or language) holds a diagram */
+export function isDiagramFence(info: string | null | undefined, options: MarkdownDiagramOptions): boolean {
+    const language = (info ?? '').trim().split(/\s+/)[0].toLowerCase();
+    return (options.languages ?? DEFAULT_LANGUAGES).some(l => l.toLowerCase() === language);
+}
+
+export function reportWarning(warning: MarkdownDiagramWarning, options: MarkdownDiagramOptions): void {
+    if (options.onWarning) {
+        options.onWarning(warning);
+    } else {
+        console.warn(`seeduml: line ${warning.line}: ${warning.message}`);
+    }
+}
+
+/**
+ * Renders the content of a diagram fence, one element per `@startuml` block.
+ * @param firstLine 1-based document line of the fence's first content line
+ */
+export function renderFence(content: string, firstLine: number, options: MarkdownDiagramOptions): { html: string, warnings: MarkdownDiagramWarning[] } {
+    const warnings: MarkdownDiagramWarning[] = [];
+    const html = splitDiagrams(content).map(block => {
+        const renderOptions = blockRenderOptions(block.source, { themeName: options.themeName, safe: options.safe, idPrefix: options.idPrefix });
+        const { diagram, diagnostics, svg } = renderWithDiagnostics(block.source, renderOptions);
+        diagnostics.filter(d => d.severity !== 'info').forEach(d => warnings.push({
+            severity: d.severity,
+            line: firstLine + block.line - 1 + d.line - 1,
+            column: d.column,
+            message: d.message
+        }));
+
+        if (!options.image) return `<div class="seeduml-diagram">${svg}</div>`;
+        const title = (diagram as { title?: string } | undefined)?.title;
+        const alt = title ? plainText(title) : block.name ?? 'diagram';
+        return `<img class="seeduml-diagram" alt="${escapeXml(alt)}" src="data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}">`;
+    }).join('\n');
+    return { html: html + '\n', warnings };
+}
@@ -0,0 +1,37 @@
+import { MarkdownDiagramOptions, isDiagramFence, renderFence, reportWarning } from './MarkdownDiagrams';
+
+/** The parts of a markdown-it token the plugin reads */
+interface FenceToken {
+    info: string;
+    content: string;
+    /** 0-based lines of the fence, opening line first */
+    map: [number, number] | null;
+}
+
+type FenceRule = (tokens: FenceToken[], idx: number, options: unknown, env: unknown, self: unknown) => string;
+
+/** The parts of a markdown-it instance the plugin uses */
+interface MarkdownIt {
+    renderer: { rules: { fence?: FenceRule } };
+}
+
+/**
+ * markdown-it plugin rendering plantuml and seeduml fences as diagrams:
+ *
+ *     md.use(markdownItSeeduml, { themeName: 'dark' });
+ *
+ * Other fences are left to the previous fence rule.
+ */
+export function markdownItSeeduml(md: MarkdownIt, options: MarkdownDiagramOptions = {}): void {
+    const fallback = md.renderer.rules.fence;
+    md.renderer.rules.fence = (tokens, idx, mdOptions, env, self) => {
+        const token = tokens[idx];
+        if (!isDiagramFence(token.info, options)) {
+            return fallback ? fallback(tokens, idx, mdOptions, env, self) : '';
+        }
+        const firstLine = token.map ? token.map[0] + 2 : 1;
+        const { html, warnings } = renderFence(token.content, firstLine, options);
+        warnings.forEach(warning => reportWarning(warning, options));
+        return html;
+    };
+}
@@ -0,0 +1,51 @@
+import { MarkdownDiagramOptions, isDiagramFence, renderFence, reportWarning } from './MarkdownDiagrams';
+
+/** The parts of an mdast node the plugin reads and rewrites */
+interface MdastNode {
+    type: string;
+    lang?: string | null;
+    meta?: string | null;
+    value?: string;
+    children?: MdastNode[];
+    position?: { start: { line: number, column: number } };
+}
+
+/** The parts of a vfile the plugin reports warnings to */
+interface VFile {
+    message(reason: string, place?: { line: number, column: number }): unknown;
+}
+
+/**
+ * remark (unified) plugin turning plantuml and seeduml code blocks into
+ * `html` nodes holding the rendered diagrams:
+ *
+ *     unified().use(remarkParse).use(remarkSeeduml).use(remarkRehype, { allowDangerousHtml: true })
+ *
+ * Problems in a diagram are reported as vfile messages at their document
+ * line, and to `onWarning` when it is given.
+ */
+export function remarkSeeduml(options: MarkdownDiagramOptions = {}) {
+    return (tree: MdastNode, file?: VFile) => {
+        const visit = (node: MdastNode) => {
+            if (node.type === 'code' && isDiagramFence(node.lang, options)) {
+                const firstLine = node.position ? node.position.start.line + 1 : 1;
+                const { html, warnings } = renderFence(node.value ?? '', firstLine, options);
+                warnings.forEach(warning => {
+                    if (file) {
+                        file.message(warning.message, { line: warning.line, column: warning.column });
+                        if (options.onWarning) options.onWarning(warning);
+                    } else {
+                        reportWarning(warning, options);
+                    }
+                });
+                node.type = 'html';
+                node.value = html.trimEnd();
+                delete node.lang;
+                delete node.meta;
+                return;
+            }
+            node.children?.forEach(visit);
+        };
+        visit(tree);
+    };
+}
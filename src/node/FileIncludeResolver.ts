@@ -0,0 +1,43 @@
+import { readFileSync, promises as fs } from 'fs';
+import { dirname, isAbsolute, resolve } from 'path';
+import { AsyncIncludeResolver, IncludedFile, IncludeResolver } from '../core/Include';
+
+/** Resolves `path` against the directory of the including file, or `baseDir` for the root source */
+function resolvePath(baseDir: string, path: string, from?: string): string {
+    if (isAbsolute(path)) return path;
+    return resolve(from ? dirname(resolve(baseDir, from)) : baseDir, path);
+}
+
+function isMissing(e: unknown): boolean {
+    const code = (e as NodeJS.ErrnoException).code;
+    return code === 'ENOENT' || code === 'EISDIR' || code === 'ENOTDIR';
+}
+
+/**
+ * Include resolver reading files from disk, relative to the including file.
+ * Missing files resolve to undefined and are reported as diagnostics.
+ */
+export function createFileIncludeResolver(baseDir: string = process.cwd()): IncludeResolver {
+    return (path, from) => {
+        const absolute = resolvePath(baseDir, path, from);
+        try {
+            return { path: absolute, content: readFileSync(absolute, 'utf8') };
+        } catch (e) {
+            if (isMissing(e)) return undefined;
+            throw e;
+        }
+    };
+}
+
+/** Asynchronous variant of createFileIncludeResolver(), for renderAsync() */
+export function createAsyncFileIncludeResolver(baseDir: string = process.cwd()): AsyncIncludeResolver {
+    return async (path, from): Promise<IncludedFile | undefined> => {
+        const absolute = resolvePath(baseDir, path, from);
+        try {
+            return { path: absolute, content: await fs.readFile(absolute, 'utf8') };
+        } catch (e) {
+            if (isMissing(e)) return undefined;
+            throw e;
+        }
+    };
+}
@@ -0,0 +1,96 @@
+import { readdirSync, statSync } from 'fs';
+import { join, relative, resolve, sep } from 'path';
+
+const GLOB_CHARS = /[*?[{]/;
+
+/** Whether a command-line argument is a glob pattern rather than a path */
+export function isGlob(pattern: string): boolean {
+    return GLOB_CHARS.test(pattern);
+}
+
+/**
+ * Converts a glob to a regular expression over `/`-separated paths.
+ * Supports `*`, `**`, `?`, `[...]` and `{a,b}`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let re = '';
+    let braces = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        const ch = pattern[i];
+        if (ch === '*') {
+            if (pattern[i + 1] === '*') {
+                // `**/` matches any number of directories, including none
+                const slash = pattern[i + 2] === '/';
+                re += slash ? '(?:[^/]*/)*' : '.*';
+                i += slash ? 2 : 1;
+            } else {
+                re += '[^/]*';
+            }
+        } else if (ch === '?') {
+            re += '[^/]';
+        } else if (ch === '[') {
+            const close = pattern.indexOf(']', i + 1);
+            if (close === -1) {
+                re += '\\[';
+            } else {
+                re += '[' + pattern.substring(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+                i = close;
+            }
+        } else if (ch === '{') {
+            braces++;
+            re += '(?:';
+        } else if (ch === '}' && braces > 0) {
+            braces--;
+            re += ')';
+        } else if (ch === ',' && braces > 0) {
+            re += '|';
+        } else {
+            re += ch.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${re}$`);
+}
+
+/**
+ * Expands a glob against the file system. Walks from the pattern's static
+ * prefix, skipping `node_modules` and dot-directories.
+ * @returns Matching file paths relative to `cwd`, sorted
+ */
+export function expandGlob(pattern: string, cwd: string = process.cwd()): string[] {
+    const normalized = pattern.split(sep).join('/');
+    const segments = normalized.split('/');
+    const staticSegments: string[] = [];
+    for (const segment of segments) {
+        if (isGlob(segment)) break;
+        staticSegments.push(segment);
+    }
+    const base = resolve(cwd, staticSegments.join('/') || '.');
+    const matcher = globToRegExp(segments.slice(staticSegments.length).join('/'));
+
+    const results: string[] = [];
+    const walk = (dir: string) => {
+        let entries;
+        try {
+            entries = readdirSync(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            const path = join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+                walk(path);
+            } else if (matcher.test(relative(base, path).split(sep).join('/'))) {
+                results.push(relative(cwd, path));
+            }
+        }
+    };
+
+    try {
+        if (!statSync(base).isDirectory()) return [];
+    } catch {
+        return [];
+    }
+    walk(base);
+    return results.sort();
+}
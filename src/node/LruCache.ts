@@ -0,0 +1,42 @@
+/**
+ * Least-recently-used cache. Map iteration order is insertion order, so the
+ * first key is always the least recently used one.
+ */
+export class LruCache<K, V> {
+    private entries = new Map<K, V>();
+    hits = 0;
+    misses = 0;
+
+    constructor(private capacity: number) {
+        if (capacity < 1) throw new Error('LRU cache capacity must be at least 1');
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    get(key: K): V | undefined {
+        if (!this.entries.has(key)) {
+            this.misses++;
+            return undefined;
+        }
+        const value = this.entries.get(key)!;
+        // Move to the most recently used end
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        this.hits++;
+        return value;
+    }
+
+    set(key: K, value: V): void {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        if (this.entries.size > this.capacity) {
+            this.entries.delete(this.entries.keys().next().value as K);
+        }
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
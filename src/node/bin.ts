@@ -0,0 +1,8 @@
+import { runCli } from './cli';
+
+runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+}, e => {
+    process.stderr.write(`seeduml: ${e instanceof Error ? e.stack : e}\n`);
+    process.exitCode = 2;
+});
@@ -0,0 +1,448 @@
+import { existsSync, mkdirSync, readFileSync, watch, writeFileSync, FSWatcher } from 'fs';
+import { basename, dirname, extname, join, relative, resolve } from 'path';
+import { Diagnostic, createDiagnostic } from '../core/Diagnostic';
+import { IncludeResolver } from '../core/Include';
+import { format, listThemes, renderWithDiagnostics, RenderOptions, splitDiagrams } from '../index';
+import { createFileIncludeResolver } from './FileIncludeResolver';
+import { expandGlob, isGlob } from './Glob';
+import { createRenderServer } from './server';
+import { prerenderHtml } from './prerender';
+
+/** Exit codes of the command-line tool */
+export const EXIT_OK = 0;
+/** A diagram has errors, or `--check` found stale output */
+export const EXIT_FAILURE = 1;
+/** Bad arguments or unreadable input */
+export const EXIT_USAGE = 2;
+
+const USAGE = `Usage: seeduml [options] <files or globs...>
+       seeduml prerender [options] [--selector <selector>] <html files or globs...>
+       seeduml format [--check] [--out-dir <dir>] <files or globs...>
+       seeduml serve [--port <port>] [--host <host>] [--theme <name>]
+
+Renders PlantUML sources to SVG. Each @startuml block is written to its own
+file: <name>.svg for named blocks, otherwise <source>.svg, <source>_001.svg, ...
+
+Options:
+  -o, --out-dir <dir>  Write SVGs into <dir> instead of next to the sources
+  -t, --theme <name>   Use a built-in theme (${listThemes().join(', ')})
+      --stdout         Write SVGs to stdout instead of files
+      --check          Fail if an SVG is missing or differs from the rendered one
+      --embed-source   Embed each diagram's source in its SVG (see extractSource)
+  -w, --watch          Re-render when a source or an included file changes
+  -h, --help           Show this help
+
+Reads stdin and writes stdout when no file is given or the only file is "-".
+"prerender" replaces the diagram blocks of HTML pages (pre.seeduml, or
+--selector) with their SVG, in place or into --out-dir.
+"format" pretty-prints sources as canonical PlantUML, in place or into
+--out-dir; with --check it only lists the files that need formatting.
+"serve" starts an HTTP server answering PlantUML server URLs (/svg/<encoded>,
+/uml/<encoded>, POST /svg) and /health, on 127.0.0.1:8080 by default; it
+renders in safe mode, since anyone who can send it a URL picks the source.
+Exits with 1 when a diagram has errors or --check finds stale output, and with
+2 on usage errors.
+`;
+
+export interface CliIO {
+    cwd: string;
+    readStdin(): Promise<string>;
+    stdout(text: string): void;
+    stderr(text: string): void;
+    /** Ends watch mode; without it, watching lasts until the process exits */
+    signal?: AbortSignal;
+}
+
+export interface CliOptions {
+    inputs: string[];
+    /** Set by the `serve` subcommand */
+    serve: boolean;
+    /** Set by the `prerender` subcommand */
+    prerender: boolean;
+    /** Set by the `format` subcommand */
+    format: boolean;
+    /** Diagram elements of the pages to prerender */
+    selector?: string;
+    port: number;
+    host: string;
+    outDir?: string;
+    themeName?: string;
+    stdout: boolean;
+    check: boolean;
+    embedSource: boolean;
+    watch: boolean;
+    help: boolean;
+}
+
+export class CliUsageError extends Error { }
+
+export function parseCliArgs(args: string[]): CliOptions {
+    const options: CliOptions = {
+        inputs: [], serve: false, prerender: false, format: false, port: 8080, host: '127.0.0.1', stdout: false, check: false, embedSource: false, watch: false, help: false
+    };
+    const value = (i: number, flag: string) => {
+        if (i >= args.length || args[i].startsWith('-') && args[i] !== '-') {
+            throw new CliUsageError(`${flag} needs a value`);
+        }
+        return args[i];
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (i === 0 && arg === 'serve') {
+            options.serve = true;
+            continue;
+        }
+        if (i === 0 && arg === 'prerender') {
+            options.prerender = true;
+            continue;
+        }
+        if (i === 0 && arg === 'format') {
+            options.format = true;
+            continue;
+        }
+        switch (arg) {
+            case '-p': case '--port': options.port = Number(value(++i, arg)); break;
+            case '--host': options.host = value(++i, arg); break;
+            case '-o': case '--out-dir': options.outDir = value(++i, arg); break;
+            case '-t': case '--theme': options.themeName = value(++i, arg); break;
+            case '--selector': options.selector = value(++i, arg); break;
+            case '--stdout': options.stdout = true; break;
+            case '--check': options.check = true; break;
+            case '--embed-source': options.embedSource = true; break;
+            case '-w': case '--watch': options.watch = true; break;
+            case '-h': case '--help': options.help = true; break;
+            default:
+                if (arg.startsWith('-') && arg !== '-') throw new CliUsageError(`Unknown option: ${arg}`);
+                options.inputs.push(arg);
+        }
+    }
+
+    if (options.themeName && !listThemes().includes(options.themeName.toLowerCase())) {
+        throw new CliUsageError(`Unknown theme: ${options.themeName}`);
+    }
+    if (!Number.isInteger(options.port) || options.port < 0 || options.port > 65535) {
+        throw new CliUsageError('--port needs a port number');
+    }
+    if (options.serve && options.inputs.length > 0) {
+        throw new CliUsageError('serve does not take files');
+    }
+    if (options.inputs.includes('-') && options.inputs.length > 1) {
+        throw new CliUsageError('"-" (stdin) cannot be combined with files');
+    }
+    if (options.check && (options.stdout || options.watch)) {
+        throw new CliUsageError('--check cannot be combined with --stdout or --watch');
+    }
+    if (options.selector !== undefined && !options.prerender) {
+        throw new CliUsageError('--selector only applies to prerender');
+    }
+    if (options.format && (options.watch || options.themeName || options.embedSource)) {
+        throw new CliUsageError('--watch, --theme and --embed-source do not apply to format');
+    }
+    // Rewriting a watched page in place would trigger the watcher again
+    if (options.prerender && options.watch && !options.outDir) {
+        throw new CliUsageError('prerender --watch needs --out-dir');
+    }
+    return options;
+}
+
+interface RenderedSource {
+    /** SVG files, or the prerendered page or formatted source */
+    outputs: { path: string, content: string }[];
+    diagnostics: Diagnostic[];
+    /** Files pulled in with !include */
+    dependencies: string[];
+}
+
+/** File include resolver recording the files it resolves */
+function trackIncludes(cwd: string): { includeResolver: IncludeResolver, dependencies: Set<string> } {
+    const dependencies = new Set<string>();
+    const fileResolver = createFileIncludeResolver(cwd);
+    const includeResolver: IncludeResolver = (path, from) => {
+        const resolved = fileResolver(path, from);
+        if (resolved && typeof resolved !== 'string') dependencies.add(resolved.path);
+        return resolved;
+    };
+    return { includeResolver, dependencies };
+}
+
+/**
+ * A block name as a file name, with characters other than letters, digits,
+ * `_`, `.` and `-` replaced by `_`. Undefined for names that are paths or
+ * start with a dot, which could point outside the output directory.
+ */
+function blockFileName(name: string): string | undefined {
+    if (/[/\\]|^\./.test(name)) return undefined;
+    return name.replace(/[^\w.-]/g, '_') || undefined;
+}
+
+/**
+ * Renders every block of a source. Diagnostic lines are made relative to
+ * the whole file. A block whose name is no usable file name, or names a
+ * file another block already writes, gets a numbered name with a warning.
+ */
+function renderSource(source: string, file: string | undefined, outDir: string | undefined, renderOptions: RenderOptions, cwd: string): RenderedSource {
+    const { includeResolver, dependencies } = trackIncludes(cwd);
+    const options = { ...renderOptions, includeResolver };
+
+    const blocks = splitDiagrams(source);
+    const base = file ? basename(file, extname(file)) : 'diagram';
+    const dir = outDir ?? (file ? dirname(file) : '.');
+    const diagnostics: Diagnostic[] = [];
+    const lines = source.split('\n');
+    const names = new Set<string>();
+    const outputs = blocks.map((block, i) => {
+        const result = renderWithDiagnostics(block.source, options);
+        result.diagnostics.forEach(d => diagnostics.push({ ...d, line: d.line + block.line - 1 }));
+
+        let name = block.name === undefined ? undefined : blockFileName(block.name);
+        if (name === undefined || names.has(name)) {
+            let fallback = i === 0 ? base : `${base}_${String(i).padStart(3, '0')}`;
+            while (names.has(fallback)) fallback += '_';
+            if (block.name !== undefined) {
+                const problem = name ? `another block is already written to ${name}.svg` : 'it is not a usable file name';
+                diagnostics.push(createDiagnostic('warning', block.line - 1, lines[block.line - 1], `Block name "${block.name}" not used, since ${problem}; writing ${fallback}.svg`));
+            }
+            name = fallback;
+        }
+        names.add(name);
+        return { path: join(dir, `${name}.svg`), content: result.svg };
+    });
+    return { outputs, diagnostics, dependencies: [...dependencies] };
+}
+
+/**
+ * Prerenders the diagrams of an HTML page. The page is written in place,
+ * or under `outDir` at its path relative to the working directory.
+ */
+function prerenderSource(source: string, file: string | undefined, outDir: string | undefined, renderOptions: RenderOptions, selector: string | undefined, cwd: string): RenderedSource {
+    const { includeResolver, dependencies } = trackIncludes(cwd);
+    let result;
+    try {
+        result = prerenderHtml(source, { ...renderOptions, includeResolver, selector });
+    } catch (e: any) {
+        throw new CliUsageError(e.message);
+    }
+    return { outputs: [{ path: rewrittenPath(file, outDir, cwd), content: result.html }], diagnostics: result.diagnostics, dependencies: [...dependencies] };
+}
+
+/** Pretty-prints a source, in place or under `outDir` like a prerendered page */
+function formatSource(source: string, file: string | undefined, outDir: string | undefined, cwd: string): RenderedSource {
+    return { outputs: [{ path: rewrittenPath(file, outDir, cwd), content: format(source) }], diagnostics: [], dependencies: [] };
+}
+
+/** Where a file rewritten as a whole goes: in place, or under `outDir` at its path relative to the working directory */
+function rewrittenPath(file: string | undefined, outDir: string | undefined, cwd: string): string {
+    if (!file) return '-';
+    if (!outDir) return file;
+    const shown = relative(cwd, file);
+    return join(outDir, shown.startsWith('..') ? basename(file) : shown);
+}
+
+function formatDiagnostic(file: string, d: Diagnostic): string {
+    const chain = d.includeChain && d.includeChain.length > 1 ? ` (included from ${d.includeChain.join(' -> ')})` : '';
+    return `${file}:${d.line}:${d.column}: ${d.severity}: ${d.message}${chain}\n`;
+}
+
+function resolveInputs(inputs: string[], cwd: string): string[] {
+    const files: string[] = [];
+    for (const input of inputs) {
+        if (isGlob(input)) {
+            const matches = expandGlob(input, cwd);
+            if (matches.length === 0) throw new CliUsageError(`No files match ${input}`);
+            files.push(...matches);
+        } else if (existsSync(resolve(cwd, input))) {
+            files.push(input);
+        } else {
+            throw new CliUsageError(`File not found: ${input}`);
+        }
+    }
+    return [...new Set(files)];
+}
+
+/**
+ * Runs the `seeduml` command.
+ * @returns The process exit code
+ */
+export async function runCli(args: string[], io: CliIO = processIO()): Promise<number> {
+    let options: CliOptions;
+    let files: string[];
+    try {
+        options = parseCliArgs(args);
+        if (options.help) {
+            io.stdout(USAGE);
+            return EXIT_OK;
+        }
+        if (options.serve) {
+            return serve(options, io);
+        }
+        const stdin = options.inputs.length === 0 || options.inputs.includes('-');
+        if (stdin && (options.check || options.watch)) {
+            throw new CliUsageError('--check and --watch need files');
+        }
+        if (stdin) {
+            return renderStdin(await io.readStdin(), options, io);
+        }
+        files = resolveInputs(options.inputs, io.cwd);
+    } catch (e) {
+        if (!(e instanceof CliUsageError)) throw e;
+        io.stderr(`seeduml: ${e.message}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+
+    const outDir = options.outDir ? resolve(io.cwd, options.outDir) : undefined;
+    const dependencies = new Map<string, string[]>();
+
+    const processFile = (file: string): number => {
+        const path = resolve(io.cwd, file);
+        let source: string;
+        try {
+            source = readFileSync(path, 'utf8');
+        } catch (e: any) {
+            io.stderr(`seeduml: Cannot read ${file}: ${e.message}\n`);
+            return EXIT_USAGE;
+        }
+
+        const renderOptions = { themeName: options.themeName, embedSource: options.embedSource, file: path };
+        let result: RenderedSource;
+        try {
+            if (options.format) result = formatSource(source, path, outDir, io.cwd);
+            else if (options.prerender) result = prerenderSource(source, path, outDir, renderOptions, options.selector, io.cwd);
+            else result = renderSource(source, path, outDir, renderOptions, io.cwd);
+        } catch (e) {
+            if (!(e instanceof CliUsageError)) throw e;
+            io.stderr(`seeduml: ${e.message}\n`);
+            return EXIT_USAGE;
+        }
+        dependencies.set(path, result.dependencies);
+        result.diagnostics.forEach(d => io.stderr(formatDiagnostic(file, d)));
+        let code = result.diagnostics.some(d => d.severity === 'error') ? EXIT_FAILURE : EXIT_OK;
+
+        for (const output of result.outputs) {
+            const shown = relative(io.cwd, output.path);
+            if (options.stdout) {
+                io.stdout(withNewline(output.content));
+            } else if (options.check) {
+                if (!existsSync(output.path)) {
+                    io.stderr(`${shown}: missing\n`);
+                    code = EXIT_FAILURE;
+                } else if (readFileSync(output.path, 'utf8') !== output.content) {
+                    io.stderr(`${shown}: ${options.format ? 'needs formatting' : 'out of date'}\n`);
+                    code = EXIT_FAILURE;
+                }
+            } else {
+                mkdirSync(dirname(output.path), { recursive: true });
+                writeFileSync(output.path, output.content);
+            }
+        }
+        return code;
+    };
+
+    const code = files.reduce((worst, file) => Math.max(worst, processFile(file)), EXIT_OK);
+    if (!options.watch) return code;
+
+    await watchFiles(files.map(f => resolve(io.cwd, f)), dependencies, file => {
+        const status = processFile(relative(io.cwd, file));
+        io.stderr(`${status === EXIT_OK ? 'Rendered' : 'Rendered with errors'} ${relative(io.cwd, file)}\n`);
+    }, io.signal);
+    return code;
+}
+
+async function serve(options: CliOptions, io: CliIO): Promise<number> {
+    const server = createRenderServer({ renderOptions: { themeName: options.themeName } });
+    await new Promise<void>((resolvePromise, reject) => {
+        server.once('error', reject);
+        server.listen(options.port, options.host, resolvePromise);
+    });
+    const address = server.address();
+    const port = address && typeof address === 'object' ? address.port : options.port;
+    io.stderr(`seeduml server listening on http://${options.host}:${port}\n`);
+
+    await new Promise<void>(resolvePromise => {
+        if (io.signal?.aborted) resolvePromise();
+        else io.signal?.addEventListener('abort', () => resolvePromise(), { once: true });
+    });
+    await new Promise(resolvePromise => server.close(resolvePromise));
+    return EXIT_OK;
+}
+
+function renderStdin(source: string, options: CliOptions, io: CliIO): number {
+    const renderOptions = { themeName: options.themeName, embedSource: options.embedSource };
+    let result: RenderedSource;
+    if (options.format) result = formatSource(source, undefined, undefined, io.cwd);
+    else if (options.prerender) result = prerenderSource(source, undefined, undefined, renderOptions, options.selector, io.cwd);
+    else result = renderSource(source, undefined, undefined, renderOptions, io.cwd);
+    result.diagnostics.forEach(d => io.stderr(formatDiagnostic('<stdin>', d)));
+    result.outputs.forEach(output => io.stdout(withNewline(output.content)));
+    return result.diagnostics.some(d => d.severity === 'error') ? EXIT_FAILURE : EXIT_OK;
+}
+
+/** SVGs are printed one per line; prerendered pages and formatted sources keep their own final newline */
+function withNewline(text: string): string {
+    return text.endsWith('\n') ? text : text + '\n';
+}
+
+/**
+ * Watches sources and the files they include until `signal` aborts.
+ * Changes are debounced, since editors often write a file in several steps.
+ */
+function watchFiles(sources: string[], dependencies: Map<string, string[]>, onChange: (source: string) => void, signal?: AbortSignal): Promise<void> {
+    const watchers = new Map<string, FSWatcher>();
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const schedule = (source: string) => {
+        clearTimeout(timers.get(source));
+        timers.set(source, setTimeout(() => {
+            timers.delete(source);
+            onChange(source);
+            update();
+        }, 50));
+    };
+
+    // Watches every source and dependency, dropping watchers no longer needed
+    const update = () => {
+        const wanted = new Set<string>(sources);
+        sources.forEach(s => (dependencies.get(s) ?? []).forEach(d => wanted.add(d)));
+        watchers.forEach((watcher, path) => {
+            if (!wanted.has(path)) {
+                watcher.close();
+                watchers.delete(path);
+            }
+        });
+        wanted.forEach(path => {
+            if (watchers.has(path) || !existsSync(path)) return;
+            watchers.set(path, watch(path, event => {
+                // Editors that save by renaming replace the watched file
+                if (event === 'rename') {
+                    watchers.get(path)?.close();
+                    watchers.delete(path);
+                }
+                sources.filter(s => s === path || (dependencies.get(s) ?? []).includes(path)).forEach(schedule);
+            }));
+        });
+    };
+    update();
+
+    return new Promise(resolvePromise => {
+        const stop = () => {
+            watchers.forEach(w => w.close());
+            timers.forEach(t => clearTimeout(t));
+            resolvePromise();
+        };
+        if (signal?.aborted) stop();
+        else signal?.addEventListener('abort', stop, { once: true });
+    });
+}
+
+function processIO(): CliIO {
+    return {
+        cwd: process.cwd(),
+        readStdin: async () => {
+            const chunks: Buffer[] = [];
+            for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+            return Buffer.concat(chunks).toString('utf8');
+        },
+        stdout: text => process.stdout.write(text),
+        stderr: text => process.stderr.write(text),
+    };
+}
@@ -0,0 +1,24 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { render, RenderOptions } from '../index';
+import { createFileIncludeResolver } from './FileIncludeResolver';
+
+export * from '../index';
+export { createFileIncludeResolver, createAsyncFileIncludeResolver } from './FileIncludeResolver';
+export { createRenderServer } from './server';
+export type { RenderServerOptions } from './server';
+export { LruCache } from './LruCache';
+export { prerenderHtml } from './prerender';
+export type { PrerenderOptions, PrerenderResult } from './prerender';
+
+/**
+ * Renders a diagram file, resolving `!include` relative to it by default.
+ */
+export function renderFile(file: string, options: RenderOptions = {}): string {
+    const path = resolve(file);
+    return render(readFileSync(path, 'utf8'), {
+        includeResolver: createFileIncludeResolver(),
+        ...options,
+        file: path
+    });
+}
@@ -0,0 +1,137 @@
+import { Diagnostic } from '../core/Diagnostic';
+import { escapeXml } from '../core/SafeMode';
+import { blockRenderOptions, renderWithDiagnostics, RenderOptions, splitDiagrams } from '../index';
+
+export interface PrerenderOptions extends RenderOptions {
+    /** Elements holding diagram sources, as for renderAll() (default 'pre.seeduml') */
+    selector?: string;
+}
+
+export interface PrerenderResult {
+    html: string;
+    /** Number of diagram elements replaced */
+    count: number;
+    /** Problems in the diagrams, with lines of the HTML document */
+    diagnostics: Diagnostic[];
+}
+
+/** A compound selector: optional tag name, classes and id */
+interface SimpleSelector {
+    tag?: string;
+    classes: string[];
+    id?: string;
+}
+
+/**
+ * Parses the selectors a static page can be matched with without a DOM:
+ * comma-separated lists of `tag`, `.class` and `#id` combinations.
+ * @throws Error for combinators, attribute selectors and pseudo-classes
+ */
+export function parseSimpleSelectors(selector: string): SimpleSelector[] {
+    return selector.split(',').map(part => {
+        const text = part.trim();
+        const match = text.match(/^([a-z][\w-]*|\*)?((?:[.#][\w-]+)*)$/i);
+        if (!text || !match) throw new Error(`Unsupported selector: ${text}`);
+        const parts = match[2].match(/[.#][\w-]+/g) ?? [];
+        return {
+            tag: match[1] && match[1] !== '*' ? match[1].toLowerCase() : undefined,
+            classes: parts.filter(p => p.startsWith('.')).map(p => p.substring(1)),
+            id: parts.find(p => p.startsWith('#'))?.substring(1)
+        };
+    });
+}
+
+const ATTRIBUTE = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+// Comments and raw text elements are skipped; anything else is a candidate start tag
+const MARKUP = /<!--[\s\S]*?-->|<(script|style|textarea)\b(?:[^>"']|"[^"]*"|'[^']*')*>[\s\S]*?<\/\1\s*>|<([a-z][\w-]*)((?:\s(?:[^>"']|"[^"]*"|'[^']*')*)?)>/gi;
+
+function parseAttributes(text: string): Map<string, string> {
+    const attributes = new Map<string, string>();
+    for (const match of text.matchAll(ATTRIBUTE)) {
+        attributes.set(match[1].toLowerCase(), decodeEntities(match[2] ?? match[3] ?? match[4] ?? ''));
+    }
+    return attributes;
+}
+
+function matches(selectors: SimpleSelector[], tag: string, attributeText: string): boolean {
+    // Attributes are only read for tags a selector can match
+    const candidates = selectors.filter(s => !s.tag || s.tag === tag);
+    if (candidates.length === 0) return false;
+    const attributes = parseAttributes(attributeText);
+    const classes = (attributes.get('class') ?? '').split(/\s+/);
+    return candidates.some(s => s.classes.every(c => classes.includes(c))
+        && (!s.id || attributes.get('id') === s.id));
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === '#') {
+            const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.substring(2), 16) : parseInt(name.substring(1), 10);
+            // Like the HTML parser, references to code points that are not characters become U+FFFD
+            return code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff) ? '\ufffd' : String.fromCodePoint(code);
+        }
+        return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    });
+}
+
+/** Index just past the end tag closing the element whose content starts at `from` */
+function findEndTag(html: string, tag: string, from: number): { contentEnd: number, end: number } | undefined {
+    const tags = new RegExp(`<(/?)${tag}\\b(?:[^>"']|"[^"]*"|'[^']*')*>`, 'gi');
+    tags.lastIndex = from;
+    let depth = 1;
+    for (let match = tags.exec(html); match; match = tags.exec(html)) {
+        depth += match[1] ? -1 : 1;
+        if (depth === 0) return { contentEnd: match.index, end: match.index + match[0].length };
+    }
+    return undefined;
+}
+
+/**
+ * Replaces the diagram elements of an HTML page with their rendered SVG,
+ * the way renderAll() does in the browser, so pages show diagrams without
+ * JavaScript. Works on the HTML text, without a DOM; the output only
+ * depends on the input and options.
+ */
+export function prerenderHtml(html: string, options: PrerenderOptions = {}): PrerenderResult {
+    const { selector = 'pre.seeduml', ...renderOptions } = options;
+    const selectors = parseSimpleSelectors(selector);
+    const diagnostics: Diagnostic[] = [];
+    let output = '';
+    let copied = 0;
+    let count = 0;
+
+    MARKUP.lastIndex = 0;
+    for (let match = MARKUP.exec(html); match; match = MARKUP.exec(html)) {
+        const tag = match[2]?.toLowerCase();
+        if (!tag || !matches(selectors, tag, match[3])) continue;
+        const contentStart = match.index + match[0].length;
+        const close = findEndTag(html, tag, contentStart);
+        if (!close) continue;
+
+        let content = decodeEntities(html.substring(contentStart, close.contentEnd).replace(/<[^>]*>/g, ''));
+        let line = html.substring(0, contentStart).split('\n').length;
+        // Like the HTML parser, ignore the newline that directly follows <pre>
+        if (tag === 'pre' && /^\r?\n/.test(content)) {
+            content = content.replace(/^\r?\n/, '');
+            line++;
+        }
+
+        output += html.substring(copied, match.index) + renderElement(content, line, renderOptions, diagnostics);
+        copied = close.end;
+        MARKUP.lastIndex = close.end;
+        count++;
+    }
+    return { html: output + html.substring(copied), count, diagnostics };
+}
+
+/** One container per diagram, matching the markup renderAll() creates */
+function renderElement(content: string, line: number, options: RenderOptions, diagnostics: Diagnostic[]): string {
+    return splitDiagrams(content).map(block => {
+        const { svg, diagnostics: found } = renderWithDiagnostics(block.source, blockRenderOptions(block.source, options));
+        found.forEach(d => diagnostics.push({ ...d, line: d.line + block.line + line - 2 }));
+        const name = block.name ? ` data-name="${escapeXml(block.name)}"` : '';
+        return `<div class="seeduml-diagram" style="display: inline-block;"${name}>${svg}</div>`;
+    }).join('');
+}
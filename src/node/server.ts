@@ -0,0 +1,154 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createHash } from 'crypto';
+import { brotliDecompressSync } from 'zlib';
+import { decode, DecodedSourceTooLargeError, renderWithDiagnostics, RenderOptions } from '../index';
+import { LruCache } from './LruCache';
+
+export interface RenderServerOptions {
+    /**
+     * Applied to every diagram; the include resolver and file are not used.
+     * Sources come from anyone who can send a URL, so `safe` defaults to true.
+     */
+    renderOptions?: Omit<RenderOptions, 'includeResolver' | 'file'>;
+    /** Number of rendered diagrams kept in memory (default 500) */
+    cacheSize?: number;
+    /** Largest accepted POST body, and largest source decoded from a URL, in bytes (default 1 MiB) */
+    maxBodySize?: number;
+}
+
+interface CachedDiagram {
+    svg: string;
+    hash: string;
+    /** First error found in the source, reported like the PlantUML server does */
+    error?: { line: number, message: string };
+}
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function readBody(req: IncomingMessage, limit: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > limit) {
+                reject(new HttpError(413, 'Diagram source is too large'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+/** Decompresses `~1` brotli data, stopping once the output grows past `limit` instead of filling memory */
+function decompressBrotli(data: Uint8Array, limit?: number): Uint8Array {
+    try {
+        return brotliDecompressSync(data, limit === undefined ? {} : { maxOutputLength: limit });
+    } catch (e: any) {
+        if (limit !== undefined && e?.code === 'ERR_BUFFER_TOO_LARGE') throw new DecodedSourceTooLargeError(limit);
+        throw e;
+    }
+}
+
+/**
+ * HTTP server answering PlantUML server URLs:
+ * - `GET /svg/{encoded}` and `POST /svg` (source as the body) return SVG
+ * - `GET /uml/{encoded}` returns a page showing the diagram and its source
+ * - `GET /health` reports status and cache statistics
+ *
+ * Rendered diagrams are cached by the SHA-256 of their source.
+ */
+export function createRenderServer(options: RenderServerOptions = {}): Server {
+    const cache = new LruCache<string, CachedDiagram>(options.cacheSize ?? 500);
+    const maxBodySize = options.maxBodySize ?? 1024 * 1024;
+    const renderOptions: RenderOptions = { safe: true, ...options.renderOptions };
+
+    const renderCached = (source: string): CachedDiagram => {
+        const hash = createHash('sha256').update(source).digest('hex');
+        let entry = cache.get(hash);
+        if (!entry) {
+            const { svg, diagnostics } = renderWithDiagnostics(source, renderOptions);
+            const error = diagnostics.find(d => d.severity === 'error');
+            entry = {
+                svg,
+                hash,
+                error: error && { line: error.line, message: error.message }
+            };
+            cache.set(hash, entry);
+        }
+        return entry;
+    };
+
+    const sendSvg = (req: IncomingMessage, res: ServerResponse, diagram: CachedDiagram) => {
+        const etag = `"${diagram.hash}"`;
+        const headers: Record<string, string> = {
+            'Content-Type': 'image/svg+xml; charset=utf-8',
+            'Cache-Control': 'public, max-age=31536000, immutable',
+            'ETag': etag
+        };
+        if (diagram.error) {
+            headers['X-PlantUML-Diagram-Error'] = diagram.error.message.replace(/[^\x20-\x7e]/g, '?');
+            headers['X-PlantUML-Diagram-Error-Line'] = String(diagram.error.line);
+        }
+        if (req.headers['if-none-match'] === etag) {
+            res.writeHead(304, headers).end();
+            return;
+        }
+        // Like the PlantUML server, broken diagrams still get an image
+        res.writeHead(diagram.error ? 400 : 200, headers).end(diagram.svg);
+    };
+
+    const handle = async (req: IncomingMessage, res: ServerResponse) => {
+        const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+        const route = path.match(/^\/(svg|uml)(?:\/(.*))?$/);
+
+        if (path === '/health') {
+            res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+                status: 'ok',
+                cache: { size: cache.size, hits: cache.hits, misses: cache.misses }
+            }));
+        } else if (route && route[1] === 'svg' && req.method === 'POST' && !route[2]) {
+            sendSvg(req, res, renderCached(await readBody(req, maxBodySize)));
+        } else if (route && route[2] && (req.method === 'GET' || req.method === 'HEAD')) {
+            let source: string;
+            try {
+                source = decode(route[2], { decompressBrotli, maxOutputLength: maxBodySize });
+            } catch (e: any) {
+                if (e instanceof DecodedSourceTooLargeError) throw new HttpError(413, 'Diagram source is too large');
+                throw new HttpError(400, e.message);
+            }
+            const diagram = renderCached(source);
+            if (route[1] === 'svg') {
+                sendSvg(req, res, diagram);
+            } else {
+                res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(
+                    '<!DOCTYPE html><html><head><meta charset="utf-8"><title>seeduml</title></head><body>'
+                    + `<div>${diagram.svg}</div><pre>${escapeHtml(source)}</pre></body></html>`
+                );
+            }
+        } else if (route) {
+            throw new HttpError(405, 'Method not allowed');
+        } else {
+            throw new HttpError(404, 'Not found');
+        }
+    };
+
+    return createServer((req, res) => {
+        handle(req, res).catch(e => {
+            const status = e instanceof HttpError ? e.status : 500;
+            if (!res.headersSent) res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+            res.end(e instanceof HttpError ? e.message : 'Internal server error');
+        });
+    });
+}
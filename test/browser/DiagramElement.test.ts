@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { defineDiagramElement, SeedumlDiagramElement } from '../../src/browser/DiagramElement';
+import { render } from '../../src/index';
+
+/** Just enough of the DOM for the element: attributes, a shadow root and mutation callbacks */
+class FakeElement extends EventTarget {
+    textContent: string | null = '';
+    isConnected = false;
+    shadow = { innerHTML: '' };
+    private attributes = new Map<string, string>();
+
+    attachShadow() {
+        return this.shadow;
+    }
+
+    getAttribute(name: string): string | null {
+        return this.attributes.get(name) ?? null;
+    }
+
+    setAttribute(name: string, value: string) {
+        const old = this.getAttribute(name);
+        this.attributes.set(name, value);
+        (this as any).attributeChangedCallback(name, old, value);
+    }
+}
+
+let observers: (() => void)[];
+let registry: Map<string, new () => SeedumlDiagramElement & FakeElement>;
+
+function createElement(source: string): SeedumlDiagramElement & FakeElement & { connectedCallback(): void } {
+    defineDiagramElement();
+    const element = new (registry.get('seeduml-diagram')!)() as any;
+    element.textContent = source;
+    element.isConnected = true;
+    return element;
+}
+
+describe('<seeduml-diagram>', () => {
+    beforeEach(() => {
+        observers = [];
+        registry = new Map();
+        vi.stubGlobal('HTMLElement', FakeElement);
+        vi.stubGlobal('MutationObserver', class {
+            constructor(callback: () => void) {
+                observers.push(callback);
+            }
+            observe() { }
+            disconnect() { }
+        });
+        vi.stubGlobal('customElements', {
+            get: (name: string) => registry.get(name),
+            define: (name: string, constructor: any) => registry.set(name, constructor),
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should render its text when connected', () => {
+        const element = createElement('A -> B: hello');
+        const events: CustomEvent[] = [];
+        element.addEventListener('render', e => events.push(e as CustomEvent));
+        element.connectedCallback();
+
+        expect(element.svg).toBe(render('A -> B: hello'));
+        expect(element.shadow.innerHTML).toContain(element.svg);
+        expect(element.diagram?.type).toBe('sequence');
+        expect(events).toHaveLength(1);
+        expect(events[0].detail).toMatchObject({ svg: element.svg, diagnostics: [] });
+    });
+
+    it('should render again when the text or attributes change', () => {
+        const element = createElement('A -> B');
+        element.connectedCallback();
+        const renders = vi.fn();
+        element.addEventListener('render', renders);
+
+        element.textContent = 'A -> C';
+        observers.forEach(notify => notify());
+        expect(element.svg).toBe(render('A -> C'));
+
+        element.setAttribute('theme', 'dark');
+        expect(element.svg).toBe(render('A -> C', { themeName: 'dark' }));
+
+        element.source = '[Web] --> [Api]';
+        observers.forEach(notify => notify());
+        expect(element.diagram?.type).toBe('component');
+        expect(renders).toHaveBeenCalledTimes(3);
+    });
+
+    it('should honor the type and safe attributes', () => {
+        const element = createElement('title <b>T</b>\nA -> B');
+        element.setAttribute('safe', '');
+        element.setAttribute('type', 'component');
+        element.connectedCallback();
+        expect(element.svg).toBe(render('title <b>T</b>\nA -> B', { type: 'component', safe: true }));
+        expect(element.diagram?.type).toBe('component');
+    });
+
+    it('should fire error events with the diagnostics', () => {
+        const element = createElement('A -> B\nthis is not a statement');
+        const errors: CustomEvent[] = [];
+        element.addEventListener('error', e => errors.push(e as CustomEvent));
+        element.connectedCallback();
+
+        expect(errors).toHaveLength(1);
+        expect(errors[0].detail.diagnostics[0]).toMatchObject({ severity: 'error', line: 2 });
+        expect(element.svg).toContain('Syntax error');
+    });
+
+    it('should not define the element twice', () => {
+        defineDiagramElement();
+        const first = registry.get('seeduml-diagram');
+        defineDiagramElement();
+        expect(registry.get('seeduml-diagram')).toBe(first);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RenderCancelledError, serveRenderRequests, WorkerRenderer } from '../../src/browser/WorkerRenderer';
+import { render } from '../../src/index';
+
+/** A page and a worker scope talking through cloned, asynchronously delivered messages */
+function connect() {
+    const pageListeners: ((event: { data: any }) => void)[] = [];
+    const workerListeners: ((event: { data: any }) => void)[] = [];
+    const deliver = (listeners: typeof pageListeners, message: unknown) => {
+        const data = structuredClone(message);
+        setTimeout(() => listeners.forEach(listener => listener({ data })), 0);
+    };
+    const scope = {
+        postMessage: vi.fn((message: any) => deliver(pageListeners, message)),
+        addEventListener: (_type: 'message', listener: (event: { data: any }) => void) => workerListeners.push(listener),
+    };
+    serveRenderRequests(scope);
+    const errorListeners = new Map<string, (event: { message?: string }) => void>();
+    const worker = {
+        postMessage: (message: any) => deliver(workerListeners, message),
+        addEventListener: (type: string, listener: (event: any) => void) => {
+            if (type === 'message') pageListeners.push(listener);
+            else errorListeners.set(type, listener);
+        },
+        terminate: vi.fn(),
+        /** Reports a worker failure the way a Worker dispatches its error events */
+        fail: (type: 'error' | 'messageerror', event: { message?: string } = {}) => errorListeners.get(type)!(event),
+    };
+    return { renderer: new WorkerRenderer(worker), scope, worker };
+}
+
+describe('WorkerRenderer', () => {
+    it('should render in the worker like render() does', async () => {
+        const { renderer } = connect();
+        const result = await renderer.render('A -> B: hi\nnot a statement', { themeName: 'dark' });
+        expect(result.svg).toBe(render('A -> B: hi\nnot a statement', { themeName: 'dark' }));
+        expect(result.diagnostics).toMatchObject([{ severity: 'error', line: 2 }]);
+    });
+
+    it('should leave out options that cannot be posted', async () => {
+        const { renderer } = connect();
+        const result = await renderer.render('A -> B', { includeResolver: () => undefined, idPrefix: 'x' });
+        expect(result.svg).toBe(render('A -> B', { idPrefix: 'x' }));
+    });
+
+    it('should cancel a render superseded under the same key', async () => {
+        const { renderer, scope } = connect();
+        const first = renderer.render('A -> B', {}, 'editor');
+        const second = renderer.render('A -> C', {}, 'editor');
+        const other = renderer.render('X -> Y', {}, 'preview');
+
+        await expect(first).rejects.toBeInstanceOf(RenderCancelledError);
+        expect((await second).svg).toBe(render('A -> C'));
+        expect((await other).svg).toBe(render('X -> Y'));
+        // The stale request never reached the renderer
+        expect(scope.postMessage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cancel by key and on terminate', async () => {
+        const { renderer, worker } = connect();
+        const cancelled = renderer.render('A -> B', {}, 'editor');
+        renderer.cancel('editor');
+        await expect(cancelled).rejects.toThrow('Rendering was cancelled');
+
+        const pending = renderer.render('A -> B');
+        renderer.terminate();
+        await expect(pending).rejects.toBeInstanceOf(RenderCancelledError);
+        expect(worker.terminate).toHaveBeenCalled();
+    });
+
+    it('should reject pending renders when the worker fails', async () => {
+        const { renderer, worker } = connect();
+        const first = renderer.render('A -> B', {}, 'editor');
+        const second = renderer.render('A -> C');
+        worker.fail('error', { message: 'Uncaught ReferenceError: x is not defined' });
+        await expect(first).rejects.toThrow('Rendering worker failed: Uncaught ReferenceError: x is not defined');
+        await expect(second).rejects.toThrow('Rendering worker failed');
+
+        const unreadable = renderer.render('A -> B');
+        worker.fail('messageerror');
+        await expect(unreadable).rejects.toThrow('Rendering worker sent a message that could not be read');
+        // Later renders still reach the worker
+        expect((await renderer.render('X -> Y')).svg).toBe(render('X -> Y'));
+    });
+});
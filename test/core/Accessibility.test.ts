@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { plainText } from '../../src/core/Accessibility';
+import { render } from '../../src/index';
+
+const SEQUENCE = [
+    'title Login <b>flow</b>',
+    'actor User',
+    'User -> Api: login',
+    'Api --> User: token',
+].join('\n');
+
+describe('accessible SVG', () => {
+    it('should label sequence diagrams with their title and a summary', () => {
+        const svg = render(SEQUENCE, { idPrefix: 'd1' });
+        expect(svg).toMatch(/^<svg [^>]*role="img" aria-labelledby="d1-title" aria-describedby="d1-desc"/);
+        expect(svg).toContain('<title id="d1-title">Login flow</title>');
+        expect(svg).toContain('<desc id="d1-desc">Sequence diagram: 2 participants, 2 messages</desc>');
+    });
+
+    it('should give participants and messages their own titles', () => {
+        const svg = render(SEQUENCE);
+        expect(svg).toMatch(/<g data-element-id="participant-User"[^>]*><title>Actor User<\/title>/);
+        expect(svg).toMatch(/<g data-element-id="message-1"[^>]*><title>Api to User: token<\/title>/);
+    });
+
+    it('should describe component diagrams', () => {
+        const svg = render('[Web] --> [Api] : calls\n[Api] --> [Db]', { idPrefix: 'c' });
+        expect(svg).toContain('<title id="c-title">Component diagram</title>');
+        expect(svg).toContain('<desc id="c-desc">Component diagram: 3 components, 2 relationships</desc>');
+        expect(svg).toMatch(/<g data-element-id="component-Web"[^>]*><title>Component Web<\/title>/);
+        expect(svg).toMatch(/<g data-element-id="relationship-0"[^>]*><title>Web to Api: calls<\/title>/);
+    });
+
+    it('should list interactions in order as a text alternative', () => {
+        expect(render(SEQUENCE, { idPrefix: 'd', textAlternative: true })).toContain(
+            '<desc id="d-desc">Sequence diagram: 2 participants, 2 messages\n1. User -&gt; Api: login\n2. Api -&gt; User: token</desc>'
+        );
+        expect(render('[Web] --> [Api] : calls', { idPrefix: 'c', textAlternative: true })).toContain(
+            '<desc id="c-desc">Component diagram: 2 components, 1 relationship\n1. Web -&gt; Api: calls</desc>'
+        );
+    });
+
+    it('should strip markup and escape accessible text', () => {
+        expect(plainText('<b>Bold</b> and **strong**\\nnext <font color=red>line</font>')).toBe('Bold and strong next line');
+        expect(render('A -> B: a < b & c')).toContain('<title>A to B: a &lt; b &amp; c</title>');
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { SequenceParser } from '../../src/diagrams/sequence/SequenceParser';
+import { ComponentParser } from '../../src/diagrams/component/ComponentParser';
+import { parse } from '../../src/index';
+
+describe('Sequence parser diagnostics', () => {
+    it('should report every syntax error with line and column', () => {
+        const parser = new SequenceParser();
+        const { diagram, diagnostics } = parser.parseWithDiagnostics([
+            'A -> B: first',
+            '  this is wrong',
+            'B -> A: second',
+            'also ??? wrong',
+        ].join('\n'));
+
+        expect(diagram.messages).toHaveLength(2);
+        expect(diagnostics).toHaveLength(2);
+        expect(diagnostics[0]).toMatchObject({
+            severity: 'error',
+            line: 2,
+            column: 3,
+            endColumn: 16,
+            source: 'this is wrong'
+        });
+        expect(diagnostics[1]).toMatchObject({ severity: 'error', line: 4, column: 1, source: 'also ??? wrong' });
+    });
+
+    it('should keep throwing the first error from parse()', () => {
+        const parser = new SequenceParser();
+        expect(() => parser.parse('A -> B\nbad line\nworse line')).toThrow('Line 2: Syntax error: bad line');
+    });
+
+    it('should throw with the message of the first error', () => {
+        const parser = new SequenceParser({ preprocess: { resolveInclude: () => undefined } });
+        expect(() => parser.parse('!include missing.iuml\nA -> B')).toThrow('Line 1: Cannot find included file: missing.iuml (!include missing.iuml)');
+    });
+
+    it('should warn about unclosed blocks', () => {
+        const parser = new SequenceParser();
+        const { diagnostics } = parser.parseWithDiagnostics([
+            'alt ok',
+            '  A -> B',
+            'note over A',
+            '  text',
+        ].join('\n'));
+
+        expect(diagnostics.map(d => [d.severity, d.line])).toEqual([
+            ['warning', 3],
+            ['warning', 1],
+        ]);
+        expect(diagnostics[1].message).toContain("'alt' block is missing 'end'");
+    });
+
+    it('should warn about end without a group', () => {
+        const parser = new SequenceParser();
+        const { diagnostics } = parser.parseWithDiagnostics('A -> B\nend');
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0]).toMatchObject({ severity: 'warning', line: 2 });
+    });
+});
+
+describe('Component parser diagnostics', () => {
+    it('should report unrecognized statements as warnings', () => {
+        const parser = new ComponentParser();
+        const { diagram, diagnostics } = parser.parseWithDiagnostics([
+            '[Web] --> [Api]',
+            '    ??? nonsense',
+        ].join('\n'));
+
+        expect(diagram.components).toHaveLength(2);
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0]).toMatchObject({ severity: 'warning', line: 2, column: 5, source: '??? nonsense' });
+    });
+
+    it('should report unbalanced groups', () => {
+        const parser = new ComponentParser();
+        const { diagnostics } = parser.parseWithDiagnostics('package P {\n[A]\n');
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0].message).toContain("missing closing '}'");
+        expect(diagnostics[0].line).toBe(1);
+    });
+
+    it('should still parse silently with parse()', () => {
+        const parser = new ComponentParser();
+        expect(() => parser.parse('[A]\n??? nonsense')).not.toThrow();
+    });
+});
+
+describe('parse()', () => {
+    it('should return the resolved type, diagram and diagnostics', () => {
+        const result = parse('participant A\nA -> B\nbad line');
+        expect(result.type).toBe('sequence');
+        expect(result.diagram).toBeDefined();
+        expect(result.diagnostics).toHaveLength(1);
+        expect(result.diagnostics[0].line).toBe(3);
+    });
+
+    it('should report unsupported start tags on the marker line', () => {
+        const result = parse('\n@startgantt\n@endgantt');
+        expect(result.diagram).toBeUndefined();
+        expect(result.diagnostics[0]).toMatchObject({ severity: 'error', line: 2 });
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { splitDiagrams, matchStartMarker } from '../../src/core/DiagramBlocks';
+import { renderAll, renderDiagrams } from '../../src/index';
+
+const DOCUMENT = [
+    "' shared header, ignored",
+    '@startuml login',
+    'User -> Api: login',
+    '@enduml',
+    '',
+    '@startuml(id=components)',
+    '[Web] --> [Api]',
+    '@enduml',
+    '@startuml',
+    'A -> B',
+].join('\n');
+
+describe('splitDiagrams', () => {
+    it('should split a document into named blocks with offsets', () => {
+        const blocks = splitDiagrams(DOCUMENT);
+        expect(blocks.map(b => [b.name, b.tag, b.line, b.endLine])).toEqual([
+            ['login', 'uml', 2, 4],
+            ['components', 'uml', 6, 8],
+            [undefined, 'uml', 9, 10],
+        ]);
+        blocks.forEach(b => expect(DOCUMENT.substring(b.start, b.end)).toBe(b.source));
+        expect(blocks[0].source).toBe('@startuml login\nUser -> Api: login\n@enduml');
+    });
+
+    it('should treat a document without markers as one block', () => {
+        expect(splitDiagrams('A -> B\nB -> C')).toEqual([
+            { source: 'A -> B\nB -> C', start: 0, end: 13, line: 1, endLine: 2 },
+        ]);
+    });
+
+    it('should keep offsets in CRLF documents', () => {
+        const source = '@startuml\r\nA -> B\r\n@enduml\r\n@startuml\r\nB -> C\r\n@enduml\r\n';
+        const blocks = splitDiagrams(source);
+        expect(blocks.map(b => b.source)).toEqual(['@startuml\r\nA -> B\r\n@enduml', '@startuml\r\nB -> C\r\n@enduml']);
+        expect(blocks[1].start).toBe(source.indexOf('@startuml', 1));
+    });
+
+    it('should read marker names', () => {
+        expect(matchStartMarker('@startuml "My diagram"')).toEqual({ tag: 'uml', name: 'My diagram' });
+        expect(matchStartMarker('  @startjson')).toEqual({ tag: 'json', name: undefined });
+        expect(matchStartMarker('@enduml')).toBeUndefined();
+    });
+});
+
+describe('renderDiagrams', () => {
+    it('should render each block separately', () => {
+        const results = renderDiagrams(DOCUMENT);
+        expect(results).toHaveLength(3);
+        expect(results[0].svg).toContain('login');
+        expect(results[0].svg).not.toContain('Web');
+        expect(results[1].svg).toContain('Web');
+        expect(results[1].svg).not.toContain('login');
+        expect(results[1]).toMatchObject({ name: 'components', line: 6 });
+    });
+});
+
+describe('renderAll', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should render every diagram of a block', () => {
+        const replaced: any[] = [];
+        const pre = { textContent: DOCUMENT, replaceWith: (...nodes: any[]) => replaced.push(...nodes) };
+        vi.stubGlobal('document', {
+            querySelectorAll: () => [pre],
+            createElement: () => ({ style: {}, dataset: {} }),
+        });
+
+        renderAll();
+        expect(replaced).toHaveLength(3);
+        expect(replaced.map(c => c.dataset.name)).toEqual(['login', 'components', undefined]);
+        expect(replaced[0].innerHTML).toContain('<svg');
+    });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parse, toJSON, fromJSON, render, renderJSON, DiagramJsonError } from '../../src/index';
+import { SequenceDiagram } from '../../src/diagrams/sequence/SequenceDiagram';
+
+const SEQUENCE = `@startuml
+title Checkout
+autonumber
+actor User [[https://example.com/user]]
+{start} User -> Shop ++ : order
+alt paid
+    {end} Shop --> User -- : receipt
+    note left: thanks
+else
+    Shop ->x Bank
+end
+{start} <-> {end} : 2s
+== Later ==
+...
+||20||
+ref over User, Shop : refund
+skinparam participantBackgroundColor #EEEEEE
+@enduml`;
+
+const COMPONENT = `@startuml
+title Services
+package Backend {
+    [Api] as api
+}
+[Web] --> api : calls
+note as N
+floating
+end note
+N .. [Web]
+note right of [Web] : client
+@enduml`;
+
+/** Checks a value against the subset of JSON Schema the model schema uses */
+function validate(schema: any, value: unknown, root: any, path = ''): string[] {
+    if (schema.$ref) return validate(root.$defs[schema.$ref.replace('#/$defs/', '')], value, root, path);
+    if (schema.oneOf) {
+        const passing = schema.oneOf.filter((s: any) => validate(s, value, root, path).length === 0);
+        if (passing.length !== 1) return [`${path}: matches ${passing.length} alternatives`];
+    }
+    if ('const' in schema && value !== schema.const) return [`${path}: expected ${schema.const}`];
+    if (schema.enum && !schema.enum.includes(value)) return [`${path}: not in enum`];
+    const types: Record<string, (v: any) => boolean> = {
+        object: v => typeof v === 'object' && v !== null && !Array.isArray(v),
+        array: Array.isArray,
+        string: v => typeof v === 'string',
+        number: v => typeof v === 'number',
+        integer: Number.isInteger,
+        boolean: v => typeof v === 'boolean'
+    };
+    if (schema.type && !types[schema.type](value)) return [`${path}: expected ${schema.type}`];
+    if (schema.minimum !== undefined && (value as number) < schema.minimum) return [`${path}: below minimum`];
+    const errors: string[] = [];
+    if (schema.type === 'array') (value as unknown[]).forEach((item, i) => errors.push(...validate(schema.items, item, root, `${path}/${i}`)));
+    if (schema.type === 'object') {
+        const record = value as Record<string, unknown>;
+        (schema.required ?? []).forEach((key: string) => {
+            if (!(key in record)) errors.push(`${path}/${key}: missing`);
+        });
+        Object.keys(record).forEach(key => {
+            const property = schema.properties?.[key] ?? schema.additionalProperties;
+            if (property === false) errors.push(`${path}/${key}: not allowed`);
+            else if (property) errors.push(...validate(property, record[key], root, `${path}/${key}`));
+        });
+    }
+    return errors;
+}
+
+describe('Diagram JSON', () => {
+    it('should round-trip parsed diagrams and render them identically', () => {
+        [SEQUENCE, COMPONENT].forEach(source => {
+            const json = toJSON(parse(source).diagram!);
+            expect(toJSON(fromJSON(JSON.stringify(json)))).toEqual(json);
+            expect(renderJSON(json, { idPrefix: 'd' })).toBe(render(source, { idPrefix: 'd' }));
+        });
+    });
+
+    it('should write a versioned, plain JSON model', () => {
+        const json = toJSON(parse(SEQUENCE).diagram!) as any;
+        expect(json).toMatchObject({ version: 1, type: 'sequence', title: 'Checkout', taggedSteps: { start: 0, end: 2 } });
+        expect(json.participants[0]).toEqual({ name: 'User', type: 'actor', link: { url: 'https://example.com/user' }, sourceLine: 4, sourceEnd: 4 });
+        // Notes point at their group by index instead of holding it
+        expect(json.notes[0]).toMatchObject({ text: 'thanks', group: 0 });
+        expect(json.notes[0].owner).toBeUndefined();
+        expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+    });
+
+    it('should restore note owners', () => {
+        const diagram = fromJSON(toJSON(parse(SEQUENCE).diagram!)) as SequenceDiagram;
+        expect(diagram.notes[0].owner).toBe(diagram.groups[0]);
+    });
+
+    it('should match the JSON Schema', () => {
+        const schema = JSON.parse(readFileSync(join(__dirname, '../../schema/seeduml-diagram.schema.json'), 'utf8'));
+        [SEQUENCE, COMPONENT, 'A -> B', '[A] --> [B]'].forEach(source => {
+            expect(validate(schema, toJSON(parse(source).diagram!), schema)).toEqual([]);
+        });
+        expect(validate(schema, { version: 1, type: 'sequence', messages: [{ from: 'A', to: 'B' }] }, schema)).not.toEqual([]);
+    });
+
+    it('should render minimal hand-written models', () => {
+        const svg = renderJSON({
+            version: 1,
+            type: 'sequence',
+            messages: [{ from: 'Client', to: 'Server', text: 'ping', step: 0 }, { from: 'Server', to: 'Client', text: 'pong', type: 'dotted', step: 1 }]
+        } as any);
+        expect(svg).toContain('data-element-id');
+        expect(svg).toContain('ping');
+        expect(svg).toContain('Server');
+
+        const component = renderJSON('{"version":1,"type":"component","components":[{"name":"A"},{"name":"B","type":"database"}],"relationships":[{"from":"A","to":"B"}]}');
+        expect(component).toContain('component-A');
+    });
+
+    it('should report where a model is invalid', () => {
+        const error = (json: unknown) => {
+            try {
+                fromJSON(json as any);
+            } catch (e) {
+                expect(e).toBeInstanceOf(DiagramJsonError);
+                return (e as Error).message;
+            }
+            return undefined;
+        };
+        expect(error({ version: 2, type: 'sequence' })).toBe('/version: unsupported version 2, expected 1');
+        expect(error({ version: 1, type: 'state' })).toBe('/type: no JSON format for state diagrams');
+        expect(error({ version: 1, type: 'sequence', messages: [{ from: 'A', to: 'B', step: 'one' }] })).toBe('/messages/0/step: expected an integer');
+        expect(error({ version: 1, type: 'sequence', notes: [{ position: 'under', step: 0 }] })).toBe('/notes/0/position: expected one of left, right, over, across');
+        expect(error({ version: 1, type: 'sequence', notes: [{ position: 'left', step: 0, group: 1 }] })).toBe('/notes/0/group: no group at index 1');
+        expect(error({ version: 1, type: 'component', relationships: [{ from: 'A', to: 'B' }] })).toBe('/relationships/0/from: unknown component A');
+        expect(error({ version: 1, type: 'component', components: [{ name: 'A', parentId: 'B' }, { name: 'B', parentId: 'A' }] })).toBe('/components/0/parentId: A is nested in itself');
+        expect(error('{')).toMatch(/^\/: invalid JSON/);
+        expect(renderJSON({ version: 1, type: 'nope' })).toContain('no JSON format for nope diagrams');
+    });
+
+    it('should apply safe mode to rendered models', () => {
+        const json = { version: 1, type: 'component', components: [{ name: 'A' }, { name: 'B' }] };
+        expect(renderJSON(json, { safe: { maxElements: 1 } })).toContain('more than the limit of 1');
+    });
+});
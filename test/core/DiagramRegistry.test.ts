@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { DiagramRegistry, DiagramDefinition, getStatements } from '../../src/core/DiagramRegistry';
+import { sequenceDefinition } from '../../src/diagrams/sequence/SequenceDefinition';
+import { componentDefinition } from '../../src/diagrams/component/ComponentDefinition';
+import { render, registerDiagram, registry } from '../../src/index';
+
+function createRegistry() {
+    const r = new DiagramRegistry('sequence');
+    r.register(sequenceDefinition);
+    r.register(componentDefinition);
+    return r;
+}
+
+const jsonDefinition: DiagramDefinition = {
+    type: 'json',
+    startTags: ['json'],
+    createParser: () => ({ parse: () => ({ type: 'json' }) }),
+    createRenderer: () => ({ render: () => '<svg data-type="json"></svg>' }),
+};
+
+describe('DiagramRegistry', () => {
+    it('should detect sequence diagrams from participant declarations', () => {
+        const r = createRegistry();
+        expect(r.resolve('participant A\nA -> B: hello').type).toBe('sequence');
+    });
+
+    it('should detect component diagrams from bracket syntax', () => {
+        const r = createRegistry();
+        expect(r.resolve('[Frontend] --> [Backend]').type).toBe('component');
+    });
+
+    it('should ignore keywords inside note bodies', () => {
+        const r = createRegistry();
+        const content = `
+component Web
+note right of Web
+  the actor calls this participant
+end note
+        `;
+        expect(r.resolve(content).type).toBe('component');
+    });
+
+    it('should ignore keywords inside single-line notes and comments', () => {
+        const r = createRegistry();
+        const content = `
+' participant is not declared here
+[Web] --> [Api]
+note right of [Web]: used by every actor
+        `;
+        expect(r.resolve(content).type).toBe('component');
+    });
+
+    it('should fall back to the default type when nothing is recognized', () => {
+        const r = createRegistry();
+        expect(r.resolve('A -> B').type).toBe('sequence');
+    });
+
+    it('should honor explicit start tags', () => {
+        const r = createRegistry();
+        r.register(jsonDefinition);
+        expect(r.resolve('@startjson\n{ "participant": 1 }\n@endjson').type).toBe('json');
+        expect(r.resolve('@startcomponent\nA --> B\n@endcomponent').type).toBe('component');
+    });
+
+    it('should run detection for @startuml', () => {
+        const r = createRegistry();
+        r.register(jsonDefinition);
+        expect(r.resolve('@startuml\n[A] --> [B]\n@enduml').type).toBe('component');
+    });
+
+    it('should reject unknown start tags', () => {
+        const r = createRegistry();
+        expect(() => r.resolve('@startgantt\n@endgantt')).toThrow('Unsupported diagram type: @startgantt');
+    });
+
+    it('should replace a definition registered under the same type', () => {
+        const r = createRegistry();
+        r.register({ ...componentDefinition, detect: () => 0 });
+        expect(r.list()).toHaveLength(2);
+        expect(r.resolve('[A] --> [B]').type).toBe('sequence');
+    });
+
+    it('should prefer the highest detector score', () => {
+        const r = createRegistry();
+        r.register({ ...jsonDefinition, detect: content => content.trim().startsWith('{') ? 10 : 0 });
+        expect(r.resolve('{ "a": 1 }').type).toBe('json');
+    });
+});
+
+describe('getStatements', () => {
+    it('should skip comments, markers and multi-line note bodies', () => {
+        const statements = getStatements(`
+@startuml
+/' block
+   comment '/
+' line comment
+A -> B
+note over A
+  body text
+end note
+B -> A
+@enduml
+        `);
+        expect(statements).toEqual(['A -> B', 'note over A', 'B -> A']);
+    });
+});
+
+describe('render() with the registry', () => {
+    it('should render custom diagram types registered by the host', () => {
+        registerDiagram(jsonDefinition);
+        try {
+            expect(render('@startjson\n{}\n@endjson')).toBe('<svg data-type="json"></svg>');
+        } finally {
+            registry.unregister('json');
+        }
+    });
+
+    it('should render an error for unsupported start tags', () => {
+        expect(render('@startgantt\n@endgantt')).toContain('Unsupported diagram type');
+    });
+
+    it('should use the type option instead of detection', () => {
+        expect(render('[Web] --> [Api]', { type: 'sequence' })).toContain('Syntax error');
+        expect(render('A -> B', { type: 'component' })).toContain('data-element-id="component-A"');
+        expect(render('A -> B', { type: 'gantt' })).toContain('Unknown diagram type: gantt');
+    });
+});
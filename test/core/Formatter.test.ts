@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { format, parse, toJSON } from '../../src/index';
+
+/** The JSON model of a source, without source positions */
+function model(source: string) {
+    const { diagram } = parse(source);
+    return JSON.parse(JSON.stringify(toJSON(diagram!), (key, value) => key === 'sourceLine' || key === 'sourceEnd' ? undefined : value));
+}
+
+describe('format', () => {
+    it('should indent sequence groups and normalize messages', () => {
+        const source = [
+            '@startuml',
+            'Alice->Bob :hello',
+            'alt   ok',
+            'Bob-->Alice: fine',
+            '  loop 3 times',
+            '  Alice ->> Bob',
+            '  end',
+            'else failed',
+            'Bob -> Alice',
+            'END',
+            '@enduml'
+        ].join('\n');
+        expect(format(source)).toBe([
+            '@startuml',
+            'Alice -> Bob: hello',
+            'alt ok',
+            '    Bob --> Alice: fine',
+            '    loop 3 times',
+            '        Alice ->> Bob',
+            '    end',
+            'else failed',
+            '    Bob -> Alice',
+            'end',
+            '@enduml',
+            ''
+        ].join('\n'));
+    });
+
+    it('should quote names consistently and align aliases', () => {
+        const source = '@startuml\nparticipant   "Api"\nparticipant "Web Client"   as  Web\nactor "User" as U\ndatabase Db as "Main DB" #lightblue\nWeb -> "Api": call\n@enduml';
+        expect(format(source)).toBe([
+            '@startuml',
+            'participant Api',
+            'participant "Web Client" as Web',
+            'actor User               as U',
+            'database "Main DB"       as Db #lightblue',
+            'Web -> Api: call',
+            '@enduml',
+            ''
+        ].join('\n'));
+    });
+
+    it('should indent component packages and description bodies', () => {
+        const source = [
+            '@startuml',
+            'package "Front End" {',
+            '[Web UI] as web',
+            'interface  "REST API"   as rest',
+            'node Servers {',
+            '() "Health check"',
+            '}',
+            '}',
+            'component Api [',
+            '  Handles',
+            '      requests',
+            ']',
+            'web-->rest : calls',
+            '@enduml'
+        ].join('\n');
+        expect(format(source)).toBe([
+            '@startuml',
+            'package "Front End" {',
+            '    [Web UI]             as web',
+            '    interface "REST API" as rest',
+            '    node Servers {',
+            '        () "Health check"',
+            '    }',
+            '}',
+            'component Api [',
+            '    Handles',
+            '    requests',
+            ']',
+            'web --> rest: calls',
+            '@enduml',
+            ''
+        ].join('\n'));
+    });
+
+    it('should keep comments and collapse blank lines', () => {
+        const source = "@startuml\n\n' Actors\nactor User\n\n\n\n/' the\n   flow '/\nalt ok\n' inside\nUser -> Api\nend\n\n@enduml\n\n\n";
+        expect(format(source)).toBe("@startuml\n' Actors\nactor User\n\n/' the\n   flow '/\nalt ok\n    ' inside\n    User -> Api\nend\n@enduml\n");
+    });
+
+    it('should keep the text of multi-line sequence notes, whose indentation is significant', () => {
+        const source = '@startuml\nalt ok\nnote left of A\n  indented\n    more\nend note\nend\n@enduml';
+        expect(format(source)).toBe('@startuml\nalt ok\n    note left of A\n  indented\n    more\n    end note\nend\n@enduml\n');
+    });
+
+    it('should only re-indent when rewriting would change the diagram', () => {
+        // The parser does not accept the spaced form, which normalizing would fix
+        const source = '@startuml\nalt ok\nA->B\nend\nhide   footbox\n@enduml';
+        expect(format(source)).toBe('@startuml\nalt ok\n    A->B\nend\nhide   footbox\n@enduml\n');
+    });
+
+    it('should keep text outside the diagrams, line endings and the indent option', () => {
+        const source = 'Intro\r\n@startuml\r\nalt ok\r\nA->B\r\nend\r\n@enduml\r\nOutro';
+        expect(format(source, { indent: '\t' })).toBe('Intro\r\n@startuml\r\nalt ok\r\n\tA -> B\r\nend\r\n@enduml\r\nOutro\r\n');
+    });
+
+    it('should be idempotent and keep the meaning of the diagram', () => {
+        const sources = [
+            '@startuml\ntitle   Login\nautonumber  10\nactor User as U order 2\nparticipant "Auth Server" as Auth <<service>>\nU ->  Auth ++ : login\n...  later ...\n== Done ==\n||45||\nAuth --> U -- : token\n[-> U : start\nU ->] : leave\nref over U , Auth : handshake\ngroup  retry\nU -> Auth\nend\n@enduml',
+            '@startuml\n[A] left  of [B]\ncomponent "C" <<lib>> #red\nportin p1\n[A] ..> [B] : uses\nnote  right of [B]\nline one\nend note\nnote as N\nfloating\nend note\nN .. [A]\n@enduml'
+        ];
+        sources.forEach(source => {
+            const formatted = format(source);
+            expect(format(formatted)).toBe(formatted);
+            expect(model(formatted)).toEqual(model(source));
+        });
+    });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { preprocess, preprocessAsync } from '../../src/core/Preprocessor';
+import { IncludeResolver } from '../../src/core/Include';
+import { parse, parseAsync, render, renderAsync, renderWithDiagnostics } from '../../src/index';
+import { createFileIncludeResolver, createAsyncFileIncludeResolver, renderFile } from '../../src/node/index';
+
+function mapResolver(files: Record<string, string>): IncludeResolver {
+    return path => files[path];
+}
+
+describe('!include', () => {
+    it('should inline included files and expand their definitions', () => {
+        const resolveInclude = mapResolver({
+            'common.iuml': '!$api = "Api"\nparticipant $api',
+        });
+        const result = preprocess('!include common.iuml\nWeb -> $api', { resolveInclude });
+        expect(result.lines).toEqual(['participant Api', 'Web -> Api']);
+        // Included lines map to the include directive
+        expect(result.lineMap).toEqual([0, 1]);
+    });
+
+    it('should select @startuml blocks by index or id', () => {
+        const resolveInclude = mapResolver({
+            'lib.puml': '@startuml\nA -> B: first\n@enduml\n@startuml(id=SECOND)\nA -> B: second\n@enduml',
+        });
+        expect(preprocess('!include lib.puml', { resolveInclude }).lines).toEqual(['A -> B: first']);
+        expect(preprocess('!include lib.puml!1', { resolveInclude }).lines).toEqual(['A -> B: second']);
+        expect(preprocess('!include lib.puml!SECOND', { resolveInclude }).lines).toEqual(['A -> B: second']);
+    });
+
+    it('should include parts with !includesub', () => {
+        const resolveInclude = mapResolver({
+            'parts.iuml': '!startsub USERS\nactor User\n!endsub\n!startsub DB\ndatabase Db\n!endsub',
+        });
+        const result = preprocess('!includesub parts.iuml!DB\nUser -> Db', { resolveInclude });
+        expect(result.lines).toEqual(['database Db', 'User -> Db']);
+
+        const missing = preprocess('!includesub parts.iuml!CACHE', { resolveInclude });
+        expect(missing.diagnostics).toMatchObject([{ severity: 'error', line: 1 }]);
+    });
+
+    it('should include a file only once with !include_once', () => {
+        const resolveInclude = mapResolver({ 'a.iuml': 'participant A' });
+        const result = preprocess('!include_once a.iuml\n!include_once a.iuml\n!include a.iuml', { resolveInclude });
+        expect(result.lines).toEqual(['participant A', 'participant A']);
+    });
+
+    it('should report missing files with the include chain', () => {
+        const resolveInclude = mapResolver({ 'a.iuml': 'participant A\n!include b.iuml' });
+        const result = preprocess('!include a.iuml', { resolveInclude, file: 'main.puml' });
+        expect(result.diagnostics).toHaveLength(1);
+        expect(result.diagnostics[0]).toMatchObject({ severity: 'error', line: 1 });
+        expect(result.diagnostics[0].message).toContain('b.iuml');
+        expect(result.diagnostics[0].includeChain).toEqual(['main.puml', 'a.iuml', 'b.iuml']);
+    });
+
+    it('should report include cycles', () => {
+        const resolveInclude = mapResolver({
+            'a.iuml': '!include b.iuml',
+            'b.iuml': '!include a.iuml',
+        });
+        const result = preprocess('!include a.iuml\nA -> B', { resolveInclude, file: 'main.puml' });
+        expect(result.lines).toEqual(['A -> B']);
+        expect(result.diagnostics).toHaveLength(1);
+        expect(result.diagnostics[0].message).toContain('a.iuml -> b.iuml -> a.iuml');
+        expect(result.diagnostics[0].includeChain).toEqual(['main.puml', 'a.iuml', 'b.iuml', 'a.iuml']);
+    });
+
+    it('should report includes without a resolver', () => {
+        const result = preprocess('!include a.iuml');
+        expect(result.diagnostics).toMatchObject([{ severity: 'error', line: 1 }]);
+    });
+
+    it('should map parser diagnostics in included lines to the include directive', () => {
+        const { diagnostics } = parse('participant A\n!include bad.iuml', {
+            includeResolver: mapResolver({ 'bad.iuml': 'participant B\nthis is wrong' }),
+        });
+        expect(diagnostics).toMatchObject([{ severity: 'error', line: 2, source: '!include bad.iuml' }]);
+    });
+
+    it('should detect the diagram type of included content', () => {
+        const svg = render('!include parts.iuml', {
+            includeResolver: mapResolver({ 'parts.iuml': 'component Web\n[Web] --> [Api]' }),
+        });
+        expect(svg).toContain('Web');
+        expect(parse('!include parts.iuml', {
+            includeResolver: mapResolver({ 'parts.iuml': 'component Web\n[Web] --> [Api]' }),
+        }).type).toBe('component');
+    });
+
+    it('should resolve each include once per render', () => {
+        const calls: string[] = [];
+        const options = { includeResolver: (path: string) => { calls.push(path); return '[Web] --> [Api]'; } };
+        expect(render('!include parts.iuml', options)).toContain('Web');
+        expect(calls).toEqual(['parts.iuml']);
+
+        calls.length = 0;
+        const result = renderWithDiagnostics('!include parts.iuml\n[Api] --> [Db]\nbogus', options);
+        expect(result.svg).toContain('Db');
+        expect(result.type).toBe('component');
+        expect(result.diagnostics).toMatchObject([{ severity: 'warning', line: 3 }]);
+        expect(calls).toEqual(['parts.iuml']);
+    });
+
+    it('should render include errors of every diagram type', () => {
+        const options = { includeResolver: mapResolver({ 'loop.iuml': '!include loop.iuml' }) };
+        expect(render('!include missing.iuml\n[A] --> [B]', options)).toContain('Cannot find included file: missing.iuml');
+        expect(render('!include loop.iuml\n[A] --> [B]', options)).toContain('Include cycle: loop.iuml -&gt; loop.iuml');
+    });
+});
+
+describe('Async include resolvers', () => {
+    const files: Record<string, string> = {
+        'a.iuml': '!include b.iuml\nparticipant A',
+        'b.iuml': 'participant B',
+    };
+    const resolver = async (path: string) => files[path];
+
+    it('should preload nested includes', async () => {
+        const result = await preprocessAsync('!include a.iuml\nA -> B', { resolveInclude: resolver });
+        expect(result.lines).toEqual(['participant B', 'participant A', 'A -> B']);
+        expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should render and parse with renderAsync() and parseAsync()', async () => {
+        const svg = await renderAsync('!include a.iuml\nA -> B: hi', { includeResolver: resolver });
+        expect(svg).toContain('hi');
+        const { diagram } = await parseAsync('!include a.iuml', { includeResolver: resolver });
+        expect(diagram).toBeDefined();
+    });
+
+    it('should report resolver failures as diagnostics', async () => {
+        const failing = async () => { throw new Error('network down'); };
+        const result = await preprocessAsync('!include a.iuml', { resolveInclude: failing });
+        expect(result.diagnostics).toHaveLength(1);
+        expect(result.diagnostics[0].message).toContain('network down');
+    });
+});
+
+describe('File include resolver', () => {
+    let dir: string | undefined;
+
+    afterEach(() => {
+        if (dir) rmSync(dir, { recursive: true, force: true });
+        dir = undefined;
+    });
+
+    function setup() {
+        dir = mkdtempSync(join(tmpdir(), 'seeduml-'));
+        mkdirSync(join(dir, 'lib'));
+        writeFileSync(join(dir, 'main.puml'), '@startuml\n!include lib/actors.iuml\nUser -> Api: call\n@enduml');
+        writeFileSync(join(dir, 'lib', 'actors.iuml'), '!include styles.iuml\nactor User');
+        writeFileSync(join(dir, 'lib', 'styles.iuml'), 'participant Api');
+        return dir;
+    }
+
+    it('should resolve includes relative to the including file', () => {
+        const root = setup();
+        const result = preprocess('!include lib/actors.iuml', { resolveInclude: createFileIncludeResolver(root) });
+        expect(result.lines).toEqual(['participant Api', 'actor User']);
+        expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should resolve asynchronously', async () => {
+        const root = setup();
+        const result = await preprocessAsync('!include lib/actors.iuml', { resolveInclude: createAsyncFileIncludeResolver(root) });
+        expect(result.lines).toEqual(['participant Api', 'actor User']);
+    });
+
+    it('should report missing files', () => {
+        const root = setup();
+        const result = preprocess('!include lib/missing.iuml', { resolveInclude: createFileIncludeResolver(root) });
+        expect(result.diagnostics).toMatchObject([{ severity: 'error', line: 1 }]);
+    });
+
+    it('should render files with renderFile()', () => {
+        const root = setup();
+        const svg = renderFile(join(root, 'main.puml'));
+        expect(svg).toContain('User');
+        expect(svg).toContain('call');
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { extractLink, linkTags, resolveLinkUrl } from '../../src/core/Link';
+import { SequenceParser } from '../../src/diagrams/sequence/SequenceParser';
+import { ComponentParser } from '../../src/diagrams/component/ComponentParser';
+import { render } from '../../src/index';
+
+describe('links', () => {
+    it('should take links out of statements, keeping their label', () => {
+        expect(extractLink('participant API [[https://wiki/api]]')).toEqual({ text: 'participant API', link: { url: 'https://wiki/api' } });
+        expect(extractLink('A -> B : [[http://x{the tooltip} label]]')).toEqual({ text: 'A -> B : label', link: { url: 'http://x', tooltip: 'the tooltip' } });
+        expect(extractLink('[[ "docs/a b.html" ]] text')).toEqual({ text: 'text', link: { url: 'docs/a b.html' } });
+        expect(extractLink('no link here')).toEqual({ text: 'no link here' });
+    });
+
+    it('should resolve relative URLs against the base', () => {
+        expect(resolveLinkUrl('docs/billing.html', 'https://example.com/app/')).toBe('https://example.com/app/docs/billing.html');
+        expect(resolveLinkUrl('docs/billing.html', '/static/')).toBe('/static/docs/billing.html');
+        expect(resolveLinkUrl('https://wiki/api', 'https://example.com/')).toBe('https://wiki/api');
+        expect(resolveLinkUrl('#top', 'https://example.com/')).toBe('#top');
+        expect(resolveLinkUrl('docs/billing.html')).toBe('docs/billing.html');
+    });
+
+    it('should parse links on sequence participants, messages and notes', () => {
+        const diagram = new SequenceParser().parse([
+            'participant API [[https://wiki/api]]',
+            'User -> API : [[http://x{Opens the spec} login]]',
+            'note left of User : see [[docs/user.html]]',
+            'note right of API [[docs/api.html{API notes}]]',
+            'rate limited',
+            'end note',
+        ].join('\n'));
+        expect(diagram.participants.find(p => p.name === 'API')!.link).toEqual({ url: 'https://wiki/api' });
+        expect(diagram.messages[0]).toMatchObject({ text: 'login', link: { url: 'http://x', tooltip: 'Opens the spec' } });
+        expect(diagram.notes[0]).toMatchObject({ text: 'see', link: { url: 'docs/user.html' } });
+        expect(diagram.notes[1]).toMatchObject({ text: 'rate limited', link: { url: 'docs/api.html', tooltip: 'API notes' } });
+    });
+
+    it('should parse links on components, relationships and notes', () => {
+        const diagram = new ComponentParser().parse([
+            '[Billing] [[docs/billing.html]]',
+            'package Payments [[docs/payments.html]] {',
+            '}',
+            '[Billing] --> [Db] : [[docs/db.html{Schema} stores]]',
+            'note right of [Db] : [[docs/backup.html backups]]',
+        ].join('\n'));
+        expect(diagram.findComponent('Billing')!.link).toEqual({ url: 'docs/billing.html' });
+        expect(diagram.findComponent('Payments')!.link).toEqual({ url: 'docs/payments.html' });
+        expect(diagram.relationships[0]).toMatchObject({ label: 'stores', link: { url: 'docs/db.html', tooltip: 'Schema' } });
+        expect(diagram.notes[0]).toMatchObject({ text: 'backups', link: { url: 'docs/backup.html' } });
+    });
+
+    it('should wrap linked elements in anchors with tooltips', () => {
+        const svg = render('participant API [[https://wiki/api{The API}]]\nUser -> API : [[docs/login.html login]]', { linkBase: 'https://example.com/' });
+        expect(svg).toMatch(/<g data-element-id="participant-API"[^>]*><title>Participant API<\/title><a href="https:\/\/wiki\/api"><title>The API<\/title><rect/);
+        expect(svg).toContain('<a href="https://example.com/docs/login.html">');
+        expect(render('[Billing] [[docs/billing.html]]')).toMatch(/<a href="docs\/billing.html">[\s\S]*<\/a><\/g>/);
+    });
+
+    it('should drop links outside the safe mode allow-list', () => {
+        const source = 'A -> B : [[javascript:alert(1) run]]\nB -> A : [[https://ok.example done]]';
+        expect(render(source)).toContain('<a href="javascript:alert(1)">');
+        const svg = render(source, { safe: true });
+        expect(svg).not.toContain('javascript:');
+        expect(svg).toContain('<a href="https://ok.example">');
+        expect(linkTags({ url: 'ftp://files' }, { allowedUrlSchemes: ['ftp'] })[0]).toBe('<a href="ftp://files">');
+    });
+});
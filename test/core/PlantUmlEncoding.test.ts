@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { brotliCompressSync, brotliDecompressSync, deflateRawSync, inflateRawSync, deflateSync } from 'zlib';
+import { deflate, inflate } from '../../src/core/Deflate';
+import { encode, decode, DecodedSourceTooLargeError } from '../../src/core/PlantUmlEncoding';
+
+const SAMPLES = [
+    '',
+    'Bob->Alice : hello',
+    '@startuml\nAlice -> Bob: 認証リクエスト 🚀\nBob --> Alice: ok\n@enduml',
+    Array.from({ length: 300 }, (_, i) => `Service${i % 7} -> Db: query ${i}`).join('\n'),
+    'a'.repeat(1000),
+];
+
+describe('Deflate', () => {
+    it('should produce data zlib can inflate', () => {
+        SAMPLES.forEach(sample => {
+            const bytes = Buffer.from(sample);
+            expect(inflateRawSync(deflate(bytes)).toString()).toBe(sample);
+        });
+    });
+
+    it('should inflate zlib output, including dynamic and stored blocks', () => {
+        SAMPLES.forEach(sample => {
+            const bytes = Buffer.from(sample);
+            expect(Buffer.from(inflate(deflateRawSync(bytes))).toString()).toBe(sample);
+            expect(Buffer.from(inflate(deflateRawSync(bytes, { level: 0 }))).toString()).toBe(sample);
+        });
+    });
+
+    it('should compress repetitive sources', () => {
+        expect(deflate(Buffer.from(SAMPLES[3])).length).toBeLessThan(SAMPLES[3].length / 4);
+    });
+
+    it('should reject corrupt data', () => {
+        expect(() => inflate(Uint8Array.from([0xff, 0xff]))).toThrow();
+        expect(() => inflate(new Uint8Array(0))).toThrow('Unexpected end of compressed data');
+    });
+});
+
+describe('PlantUML text encoding', () => {
+    it('should decode the example from the PlantUML documentation', () => {
+        expect(decode('SyfFKj2rKt3CoKnELR1Io4ZDoSa70000')).toBe('Bob -> Alice : hello');
+    });
+
+    it('should round-trip sources', () => {
+        SAMPLES.forEach(sample => {
+            expect(decode(encode(sample))).toBe(sample);
+            expect(decode(encode(sample, 'hex'))).toBe(sample);
+        });
+        expect(encode('Bob->Alice : hello')).toMatch(/^[0-9A-Za-z_-]+$/);
+    });
+
+    it('should decode ~h hex, ~1 brotli and zlib-wrapped text', () => {
+        expect(encode('A -> B', 'hex')).toBe('~h41202d3e2042');
+        expect(decode('~h41202d3e2042')).toBe('A -> B');
+        const brotli = '~1' + encode64(brotliCompressSync(Buffer.from('A -> B: brotli')));
+        expect(decode(brotli, { decompressBrotli: data => brotliDecompressSync(data) })).toBe('A -> B: brotli');
+        expect(() => decode(brotli)).toThrow('needs a brotli decompressor');
+
+        const zlib = deflateSync(Buffer.from('A -> B: wrapped'));
+        const encoded = decode(encode64(zlib));
+        expect(encoded).toBe('A -> B: wrapped');
+    });
+
+    it('should stop decoding texts that grow past maxOutputLength', () => {
+        const bomb = deflateRawSync(Buffer.alloc(8 * 1024 * 1024, 'A'));
+        expect(bomb.length).toBeLessThan(10000);
+        expect(() => inflate(bomb, 1024)).toThrow(DecodedSourceTooLargeError);
+        expect(() => decode(encode64(bomb), { maxOutputLength: 1024 })).toThrow('Decoded source is longer than 1024 bytes');
+        expect(() => decode(encode64(deflateSync(Buffer.alloc(2048, 'A'))), { maxOutputLength: 1024 })).toThrow(DecodedSourceTooLargeError);
+        expect(() => decode('~h' + '41'.repeat(2048), { maxOutputLength: 1024 })).toThrow(DecodedSourceTooLargeError);
+
+        const brotli = '~1' + encode64(brotliCompressSync(Buffer.alloc(2048, 'A')));
+        const limits: (number | undefined)[] = [];
+        const decompressBrotli = (data: Uint8Array, limit?: number) => {
+            limits.push(limit);
+            return brotliDecompressSync(data);
+        };
+        expect(() => decode(brotli, { decompressBrotli, maxOutputLength: 1024 })).toThrow(DecodedSourceTooLargeError);
+        expect(limits).toEqual([1024]);
+        expect(decode(encode('A -> B'), { maxOutputLength: 6 })).toBe('A -> B');
+    });
+
+    it('should throw on invalid text', () => {
+        expect(() => decode('not valid!')).toThrow(/Invalid PlantUML encoding/);
+        expect(() => decode('~hxyz')).toThrow(/Invalid PlantUML encoding/);
+    });
+});
+
+// Encodes arbitrary bytes with the PlantUML alphabet
+function encode64(bytes: Uint8Array): string {
+    const alphabet = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_';
+    let result = '';
+    for (let i = 0; i < bytes.length; i += 3) {
+        const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+        result += alphabet[(n >> 18) & 63] + alphabet[(n >> 12) & 63] + alphabet[(n >> 6) & 63] + alphabet[n & 63];
+    }
+    return result;
+}
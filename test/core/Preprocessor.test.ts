@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { preprocess } from '../../src/core/Preprocessor';
+import { SequenceParser } from '../../src/diagrams/sequence/SequenceParser';
+import { ComponentParser } from '../../src/diagrams/component/ComponentParser';
+import { parse } from '../../src/index';
+
+function expand(source: string) {
+    return preprocess(source, { now: new Date(2024, 2, 5, 9, 7, 3) });
+}
+
+describe('Preprocessor', () => {
+    it('should leave sources without directives untouched', () => {
+        const result = expand('A -> B: hello\nB --> A');
+        expect(result.lines).toEqual(['A -> B: hello', 'B --> A']);
+        expect(result.lineMap).toEqual([0, 1]);
+    });
+
+    it('should substitute variables and keep unknown $ text', () => {
+        const result = expand('!$server = "Api"\n!$port ?= 8080\n!$port ?= 9090\nA -> $server: port $port, costs $5');
+        expect(result.lines).toEqual(['A -> Api: port 8080, costs $5']);
+        expect(result.lineMap).toEqual([3]);
+    });
+
+    it('should evaluate expressions', () => {
+        const result = expand('!$n = 2 + 3 * 4\n!$s = "a" + $n\nA -> B: $n $s %strlen($s) %upper("x")');
+        expect(result.lines).toEqual(['A -> B: 14 a14 3 X']);
+    });
+
+    it('should expand !define constants and macros', () => {
+        const result = expand('!define SERVICE participant\n!define CALL(a, b) a -> b : call\nSERVICE Api\nCALL(Web, Api)');
+        expect(result.lines).toEqual(['participant Api', 'Web -> Api : call']);
+    });
+
+    it('should pick branches of !if, !elseif and !else', () => {
+        const source = [
+            '!$env = "prod"',
+            '!if $env == "dev"',
+            'A -> B: dev',
+            '!elseif ($env == "prod")',
+            'A -> B: prod',
+            '!if 1 > 2',
+            'A -> B: nested',
+            '!endif',
+            '!else',
+            'A -> B: other',
+            '!endif',
+        ].join('\n');
+        const result = expand(source);
+        expect(result.lines).toEqual(['A -> B: prod']);
+        expect(result.lineMap).toEqual([4]);
+    });
+
+    it('should support !ifdef and !ifndef', () => {
+        const result = expand('!define DEBUG\n!ifdef DEBUG\nA -> B: debug\n!endif\n!ifndef $missing\nA -> B: default\n!endif');
+        expect(result.lines).toEqual(['A -> B: debug', 'A -> B: default']);
+    });
+
+    it('should expand procedures with default and named arguments', () => {
+        const source = [
+            '!procedure $call($from, $to, $label="request")',
+            '$from -> $to: $label',
+            '$to --> $from',
+            '!endprocedure',
+            '$call("Web", "Api")',
+            '$call("Api", "Db", $label="query")',
+        ].join('\n');
+        const result = expand(source);
+        expect(result.lines).toEqual(['Web -> Api: request', 'Api --> Web', 'Api -> Db: query', 'Db --> Api']);
+        // Expanded lines map to the call site
+        expect(result.lineMap).toEqual([4, 4, 5, 5]);
+    });
+
+    it('should evaluate functions with !return, including one-line functions', () => {
+        const source = [
+            '!function $double($x)',
+            '!if $x > 10',
+            '!return "big"',
+            '!endif',
+            '!return $x * 2',
+            '!endfunction',
+            '!function $greet($name) !return "Hello " + $name',
+            'A -> B: $double(4) $double(20) $greet("Bob")',
+        ].join('\n');
+        expect(expand(source).lines).toEqual(['A -> B: 8 big Hello Bob']);
+    });
+
+    it('should loop with !foreach over JSON arrays and split strings', () => {
+        const source = [
+            '!$services = ["Api", "Db"]',
+            '!foreach $s in $services',
+            'participant $s',
+            '!endfor',
+            '!foreach $x in %splitstr("a,b", ",")',
+            'note over A: $x',
+            '!endfor',
+        ].join('\n');
+        const result = expand(source);
+        expect(result.lines).toEqual(['participant Api', 'participant Db', 'note over A: a', 'note over A: b']);
+        expect(result.lineMap).toEqual([2, 2, 5, 5]);
+    });
+
+    it('should read members of JSON values', () => {
+        const result = expand('!$cfg = { "name": "Shop", "tiers": ["web", "db"] }\ncomponent $cfg.name\n[$cfg.tiers[1]]');
+        expect(result.lines).toEqual(['component Shop', '[db]']);
+    });
+
+    it('should format %date()', () => {
+        const result = expand('A -> B: %date("yyyy-MM-dd HH:mm:ss") %date()');
+        expect(result.lines).toEqual(['A -> B: 2024-03-05 09:07:03 Tue Mar 05 09:07:03 2024']);
+    });
+
+    it('should pass through directives handled by the parsers', () => {
+        const result = expand('!pragma teoz true\n!theme dark\nA -> B');
+        expect(result.lines).toEqual(['!pragma teoz true', '!theme dark', 'A -> B']);
+    });
+
+    it('should not expand comments', () => {
+        const result = expand("!$a = 1\n' $a stays\n/' $a\nstays '/\nA -> B: $a");
+        expect(result.lines).toEqual(["' $a stays", "/' $a", "stays '/", 'A -> B: 1']);
+    });
+
+    it('should report errors at source lines', () => {
+        const result = expand('A -> B\n!if $undefined == 1\nA -> C\n!endif\n!endif\n!procedure $p()\nA -> B');
+        expect(result.diagnostics.map(d => [d.line, d.message])).toEqual([
+            [2, 'Undefined variable: $undefined'],
+            [5, '!endif without a matching !if'],
+            [6, '!procedure is missing !endprocedure'],
+        ]);
+    });
+
+    it('should stop runaway recursion', () => {
+        const result = expand('!procedure $loop()\n$loop()\n!endprocedure\n$loop()');
+        expect(result.diagnostics).toMatchObject([{ severity: 'error', line: 2, message: 'Maximum call depth exceeded in $loop' }]);
+    });
+});
+
+describe('Preprocessing in the parsers', () => {
+    it('should parse expanded sequence diagrams', () => {
+        const diagram = new SequenceParser().parse('!$peer = "Api"\n!if %strlen($peer) > 0\nWeb -> $peer: call\n!endif');
+        expect(diagram.messages).toMatchObject([{ from: 'Web', to: 'Api', text: 'call' }]);
+    });
+
+    it('should parse expanded component diagrams', () => {
+        const diagram = new ComponentParser().parse('!foreach $c in ["Web", "Api"]\ncomponent $c\n!endfor\n[Web] --> [Api]');
+        expect(diagram.components.map(c => c.name)).toEqual(['Web', 'Api']);
+    });
+
+    it('should map parser diagnostics back to source lines', () => {
+        const { diagnostics } = parse([
+            '!procedure $bad()',
+            'participant A',
+            'this is wrong',
+            '!endprocedure',
+            'A -> B',
+            '$bad()',
+        ].join('\n'));
+        expect(diagnostics).toMatchObject([{ severity: 'error', line: 6, source: '$bad()' }]);
+    });
+
+    it('should keep columns for lines that were not rewritten', () => {
+        const { diagnostics } = parse('!$x = 1\nparticipant A\n  oops ???');
+        expect(diagnostics).toMatchObject([{ line: 3, column: 3, endColumn: 11 }]);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { scopedId, sourceIdPrefix } from '../../src/core/Renderer';
+import { render, renderDiagrams } from '../../src/index';
+
+/** Every id defined in an SVG and every url(#...) reference in it */
+function ids(svg: string): { defined: string[], referenced: string[] } {
+    return {
+        defined: [...svg.matchAll(/\sid="([^"]+)"/g)].map(m => m[1]),
+        referenced: [...svg.matchAll(/url\(#([^)]+)\)/g)].map(m => m[1]),
+    };
+}
+
+describe('id namespaces', () => {
+    it('should derive a stable prefix from the source', () => {
+        expect(sourceIdPrefix('A -> B')).toBe(sourceIdPrefix('A -> B'));
+        expect(sourceIdPrefix('A -> B')).not.toBe(sourceIdPrefix('A -> C'));
+        expect(sourceIdPrefix('A -> B')).toMatch(/^seeduml-[0-9a-z]+$/);
+    });
+
+    it('should give the same source rendered with other styling its own prefix', () => {
+        const prefixes = [
+            sourceIdPrefix('A -> B'),
+            sourceIdPrefix('A -> B', { themeName: 'dark' }),
+            sourceIdPrefix('A -> B', { theme: { colors: { arrow: '#f00' } } }),
+            sourceIdPrefix('A -> B', { safe: true })
+        ];
+        expect(new Set(prefixes).size).toBe(prefixes.length);
+        const [light, dark] = [render('A -> B'), render('A -> B', { themeName: 'dark' })].map(svg => ids(svg).defined);
+        expect(light.filter(id => dark.includes(id))).toEqual([]);
+    });
+
+    it('should drop characters that are not valid in ids', () => {
+        expect(scopedId('my diagram#1', 'marker')).toBe('mydiagram1-marker');
+        expect(scopedId('', 'marker')).toBe('marker');
+    });
+
+    it('should namespace every sequence marker and reference', () => {
+        const svg = render('A -> B: call\nB --> A: reply', { idPrefix: 'seq' });
+        const { defined, referenced } = ids(svg);
+        expect(defined.length).toBeGreaterThan(0);
+        defined.forEach(id => expect(id.startsWith('seq-')).toBe(true));
+        referenced.forEach(id => expect(defined).toContain(id));
+    });
+
+    it('should namespace component markers and filters', () => {
+        const svg = render('[Web] --> [Api]\n[Api] ..> [Db]', { idPrefix: 'comp' });
+        const { defined, referenced } = ids(svg);
+        expect(defined).toEqual(['comp-title', 'comp-desc', 'comp-comp-arrow-end', 'comp-comp-arrow-open', 'comp-comp-shadow']);
+        expect(referenced).toContain('comp-comp-shadow');
+        referenced.forEach(id => expect(defined).toContain(id));
+    });
+
+    it('should keep ids of diagrams on one page apart by default', () => {
+        const [first, second] = renderDiagrams('@startuml\nA -> B\n@enduml\n@startuml\nA -> C\n@enduml')
+            .map(d => ids(d.svg).defined);
+        expect(first.filter(id => second.includes(id))).toEqual([]);
+        expect(render('A -> B')).toBe(render('A -> B'));
+    });
+
+    it('should combine a shared id prefix with a part for each diagram', () => {
+        const [first, second] = renderDiagrams('@startuml\nA -> B\n@enduml\n@startuml\nA -> C\n@enduml', { idPrefix: 'page' })
+            .map(d => ids(d.svg).defined);
+        expect(first.filter(id => second.includes(id))).toEqual([]);
+        [...first, ...second].forEach(id => expect(id.startsWith('page-seeduml-')).toBe(true));
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { isAllowedUrl, resolveSafeMode } from '../../src/core/SafeMode';
+import { formatRichText } from '../../src/core/RichText';
+import { parse, parseAsync, render } from '../../src/index';
+
+describe('safe mode', () => {
+    it('should escape title, header, footer and plain labels', () => {
+        const source = [
+            'title <script>alert(1)</script>',
+            'header R&D',
+            'participant "<img src=x onerror=alert(1)>" as A',
+            'A -> B: hi',
+            'alt <b onclick="x">',
+            'B -> A',
+            'end',
+        ].join('\n');
+        const svg = render(source, { safe: true });
+        expect(svg).not.toContain('<script');
+        expect(svg).not.toContain('<img');
+        expect(svg).not.toContain('<b onclick');
+        expect(svg).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+        expect(svg).toContain('R&amp;D');
+    });
+
+    it('should drop font colors that are not plain colors', () => {
+        expect(formatRichText('<font color=red>ok</font>')).toBe('<tspan fill="red">ok</tspan>');
+        expect(formatRichText('<font color="url(http://x/y)">no</font>')).toBe('<tspan>no</tspan>');
+    });
+
+    it('should drop unsafe style values from skinparams and element colors', () => {
+        const source = [
+            'skinparam backgroundColor url(http://evil/x)',
+            'skinparam participantFontName "Arial\\" onload=\\"x"',
+            'participant A #red',
+            'A -> B',
+        ].join('\n');
+        const { diagram } = parse(source, { safe: true });
+        const svg = render(source, { safe: true });
+        expect((diagram as any).themeOverrides.colors?.background).toBeUndefined();
+        expect((diagram as any).participants[0].color).toBe('#red');
+        expect(svg).not.toContain('evil');
+        expect(svg).not.toContain('onload');
+    });
+
+    it('should report a source longer than the limit', () => {
+        const result = parse('A -> B: ' + 'x'.repeat(100), { safe: { maxSourceLength: 50 } });
+        expect(result.diagnostics[0]).toMatchObject({ severity: 'error', message: 'Source is longer than 50 characters' });
+        expect(result.diagram).toBeUndefined();
+        expect(render('A -> B: ' + 'x'.repeat(100), { safe: { maxSourceLength: 50 } })).toContain('Source is longer than 50 characters');
+    });
+
+    it('should report diagrams with too many elements', () => {
+        const source = Array.from({ length: 6 }, (_, i) => `[C${i}] --> [C${i + 1}]`).join('\n');
+        const result = parse(source, { safe: { maxElements: 5 } });
+        expect(result.diagram).toBeUndefined();
+        expect(result.diagnostics.at(-1)!.message).toBe('Diagram has 7 elements, more than the limit of 5');
+        expect(render(source, { safe: { maxElements: 5 } })).toContain('more than the limit of 5');
+        expect(render(source)).not.toContain('more than the limit');
+    });
+
+    it('should stop runaway preprocessor expansion', () => {
+        const source = [
+            '!procedure $grow($n)',
+            '!if $n > 0',
+            '$grow($n - 1)',
+            '$grow($n - 1)',
+            '!endif',
+            'A -> B',
+            '!endprocedure',
+            '$grow(40)',
+        ].join('\n');
+        const result = parse(source, { safe: { maxPreprocessorSteps: 1000 } });
+        expect(result.diagnostics.find(d => d.severity === 'error')!.message).toBe('Preprocessing stopped after 1000 steps');
+    });
+
+    it('should stop nested defines that grow the source', () => {
+        const defines = ['!define A0 x'];
+        for (let i = 1; i <= 6; i++) defines.push(`!define A${i} ${Array(10).fill(`A${i - 1}`).join(' ')}`);
+        const source = [...defines, 'Alice -> Bob: A6'].join('\n');
+        const started = Date.now();
+        expect(parse(source, { safe: true }).diagnostics.find(d => d.severity === 'error')!.message)
+            .toBe('Preprocessing stopped: expanded source is longer than 100000 characters');
+        expect(parse(source, { safe: { maxPreprocessorSteps: 500 } }).diagnostics.find(d => d.severity === 'error')!.message)
+            .toBe('Preprocessing stopped after 500 steps');
+        expect(render(source, { safe: true })).toContain('Preprocessing stopped');
+        expect(Date.now() - started).toBeLessThan(5000);
+    });
+
+    it('should only include URLs with allowed schemes', async () => {
+        const fetched: string[] = [];
+        const includeResolver = (path: string) => {
+            fetched.push(path);
+            return 'A -> B';
+        };
+        const result = await parseAsync('!include file:///etc/passwd\n!include https://example.com/lib.puml', { safe: true, includeResolver });
+        expect(fetched).toEqual(['https://example.com/lib.puml']);
+        expect(result.diagnostics[0].message).toBe('Cannot include file:///etc/passwd: URL scheme not allowed: file');
+    });
+
+    it('should accept relative URLs and allow-listed schemes only', () => {
+        const schemes = resolveSafeMode(true)!.allowedUrlSchemes;
+        expect(isAllowedUrl('docs/page.html', schemes)).toBe(true);
+        expect(isAllowedUrl('HTTPS://example.com', schemes)).toBe(true);
+        expect(isAllowedUrl('java\tscript:alert(1)', schemes)).toBe(false);
+        expect(isAllowedUrl('data:text/html,x', schemes)).toBe(false);
+        expect(isAllowedUrl('C:\\diagrams\\a.puml', schemes)).toBe(true);
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { SkinParamReader, applySkinParams, resolveElementStyle } from '../../src/core/SkinParam';
+import { sequenceSkinParams } from '../../src/diagrams/sequence/SequenceSkinParams';
+import { SequenceParser } from '../../src/diagrams/sequence/SequenceParser';
+import { ComponentParser } from '../../src/diagrams/component/ComponentParser';
+import { render } from '../../src/index';
+
+function readAll(source: string) {
+    const lines = source.split('\n');
+    const reader = new SkinParamReader();
+    lines.forEach((line, i) => reader.read(line, i));
+    reader.finish();
+    return { reader, lines };
+}
+
+describe('SkinParamReader', () => {
+    it('should normalize single-line and block forms to the same name', () => {
+        const { reader } = readAll(`
+skinparam ParticipantBackgroundColor red
+skinparam participant {
+  BorderColor blue
+}
+skinparam participantFontColor<<Service>> "#eeeeee"
+        `);
+        expect(reader.params.map(p => [p.name, p.stereotype, p.value])).toEqual([
+            ['participantbackgroundcolor', undefined, 'red'],
+            ['participantbordercolor', undefined, 'blue'],
+            ['participantfontcolor', 'Service', '#eeeeee'],
+        ]);
+    });
+
+    it('should support stereotype blocks and nested blocks', () => {
+        const { reader } = readAll(`
+skinparam participant<<DB>> {
+  BackgroundColor #ddeeff
+}
+skinparam sequence {
+  Arrow {
+    Thickness 3
+  }
+}
+        `);
+        expect(reader.params).toMatchObject([
+            { name: 'participantbackgroundcolor', stereotype: 'DB', value: '#ddeeff', line: 2 },
+            { name: 'sequencearrowthickness', value: '3', line: 6 },
+        ]);
+    });
+
+    it('should ignore lines that are not skinparams', () => {
+        const reader = new SkinParamReader();
+        expect(reader.read('A -> B: skinparam', 0)).toBe(false);
+        expect(reader.params).toHaveLength(0);
+    });
+
+    it('should warn about unclosed blocks', () => {
+        const { reader } = readAll('skinparam note {\n  BackgroundColor red');
+        expect(reader.diagnostics).toMatchObject([{ severity: 'warning', line: 1, message: "skinparam block is missing closing '}'" }]);
+    });
+});
+
+describe('applySkinParams', () => {
+    it('should map known names onto theme overrides', () => {
+        const { reader, lines } = readAll('skinparam ArrowThickness 2.5\nskinparam NoteBackgroundColor #Pink');
+        const applied = applySkinParams(reader.params, sequenceSkinParams, lines);
+        expect(applied.theme).toEqual({ messageStrokeWidth: 2.5, colors: { noteFill: 'Pink' } });
+        expect(applied.diagnostics).toHaveLength(0);
+    });
+
+    it('should collect element and stereotype styles', () => {
+        const { reader, lines } = readAll('skinparam actorFontSize 18\nskinparam actorBackgroundColor<<Admin>> gold');
+        const applied = applySkinParams(reader.params, sequenceSkinParams, lines);
+        expect(resolveElementStyle(applied.styles, 'actor')).toEqual({ fontSize: 18 });
+        expect(resolveElementStyle(applied.styles, 'actor', 'Admin')).toEqual({ fontSize: 18, backgroundColor: 'gold' });
+    });
+
+    it('should warn about unknown names and invalid values', () => {
+        const { reader, lines } = readAll('skinparam Handwritten true\nskinparam ArrowThickness thick');
+        const applied = applySkinParams(reader.params, sequenceSkinParams, lines);
+        expect(applied.diagnostics.map(d => [d.line, d.message])).toEqual([
+            [1, 'Unknown skinparam: handwritten'],
+            [2, 'Invalid value for skinparam arrowthickness: thick'],
+        ]);
+    });
+});
+
+describe('skinparam in diagrams', () => {
+    it('should attach overrides to sequence diagrams and report diagnostics', () => {
+        const result = new SequenceParser().parseWithDiagnostics('skinparam sequenceArrowThickness 3\nskinparam Shadowing false\nA -> B');
+        expect(result.diagram.themeOverrides).toEqual({ messageStrokeWidth: 3 });
+        expect(result.diagnostics).toMatchObject([{ severity: 'warning', line: 2, message: 'Unknown skinparam: shadowing' }]);
+    });
+
+    it('should render sequence arrows and participants with skinparams', () => {
+        const svg = render(`
+skinparam ArrowColor #ff0000
+skinparam sequenceArrowThickness 4
+skinparam participant<<Service>> {
+  BackgroundColor #ddeeff
+  BorderColor #0000aa
+}
+participant Api <<Service>>
+participant Web
+Web -> Api: call
+        `);
+        expect(svg).toContain('stroke="#ff0000" stroke-width="4"');
+        expect(svg).toContain('fill="#ddeeff" stroke="#0000aa"');
+        expect(svg).toContain('fill="#f8f9fa" stroke="#333333"');
+    });
+
+    it('should not leak skinparams into later renders', () => {
+        render('skinparam ArrowThickness 4\nA -> B');
+        expect(render('A -> B')).toContain('stroke-width="1.5"');
+    });
+
+    it('should read skinparam blocks in component diagrams without closing groups', () => {
+        const result = new ComponentParser().parseWithDiagnostics(`
+package Shop {
+  skinparam component {
+    BackgroundColor #abcdef
+  }
+  [Cart]
+}
+[Cart] --> [Payment]
+        `);
+        expect(result.diagnostics).toHaveLength(0);
+        expect(result.diagram.findComponent('Cart')?.parentId).toBe('Shop');
+        expect(result.diagram.themeOverrides).toEqual({ colors: { defaultFill: '#abcdef' } });
+    });
+
+    it('should style components by stereotype and honor componentStyle', () => {
+        const svg = render(`
+skinparam componentStyle rectangle
+skinparam componentBackgroundColor<<Legacy>> #cccccc
+component Billing <<Legacy>>
+[Billing] --> [Ledger]
+        `);
+        expect(svg).toContain('fill="#cccccc"');
+        expect(svg).not.toContain('stroke-width="1.2" rx="1"');
+    });
+
+    it('should draw uml1 component tabs on the left edge', () => {
+        const uml2 = render('[A] --> [B]');
+        const uml1 = render('skinparam componentStyle uml1\n[A] --> [B]');
+        expect(uml2).toContain('stroke-width="1.2" rx="1"');
+        expect(uml1).not.toContain('stroke-width="1.2" rx="1"');
+        expect(uml1.match(/width="16" height="8"/g)).toHaveLength(4);
+    });
+});
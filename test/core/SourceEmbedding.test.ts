@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { extractSource, render } from '../../src/index';
+
+describe('Source embedding', () => {
+    it('should round-trip sequence and component sources', () => {
+        const sequence = '@startuml\ntitle Login\nUser -> Api: login & "remember" <me>\nnote right: ☺\n@enduml';
+        const component = '@startuml\n[Web] --> [Api] : calls\n@enduml';
+        expect(extractSource(render(sequence, { embedSource: true }))).toBe(sequence);
+        expect(extractSource(render(component, { embedSource: true }))).toBe(component);
+    });
+
+    it('should keep the metadata after the title and description', () => {
+        const svg = render('A -> B', { embedSource: true });
+        expect(svg).toMatch(/<\/desc><metadata class="seeduml-source">[\w-]+<\/metadata>/);
+    });
+
+    it('should leave the source out unless asked', () => {
+        const svg = render('A -> B');
+        expect(svg).not.toContain('<metadata');
+        expect(extractSource(svg)).toBeUndefined();
+    });
+
+    it('should read the source of SVGs exported by PlantUML', () => {
+        const svg = '<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg"><?plantuml-src SoWkIImgAStDuNBAJrBGjLDmpCbCJbMmKiX8pSd9vt98pKi1IW80?><g></g></svg>';
+        expect(extractSource(svg)).toBe('@startuml\nBob -> Alice : hello\n@enduml');
+    });
+
+    it('should throw on a corrupt embedded source', () => {
+        expect(() => extractSource('<svg><metadata class="seeduml-source">zzzz</metadata></svg>')).toThrow('Invalid PlantUML encoding');
+    });
+});
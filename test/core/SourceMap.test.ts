@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { SequenceParser } from '../../src/diagrams/sequence/SequenceParser';
+import { ComponentParser } from '../../src/diagrams/component/ComponentParser';
+import { render } from '../../src/index';
+
+const SEQUENCE = [
+    '@startuml',
+    'Alice -> Bob: hello',
+    'participant Bob as "The Bob"',
+    'alt ok',
+    '  Bob --> Alice: fine',
+    'end',
+    'note over Alice',
+    '  multi-line',
+    'end note',
+    '@enduml',
+].join('\n');
+
+const COMPONENT = [
+    '@startuml',
+    'package Backend {',
+    '  [Api]',
+    '}',
+    '[Web] --> [Api] : calls',
+    'note right of [Web]',
+    '  front end',
+    'end note',
+    '@enduml',
+].join('\n');
+
+describe('source ranges', () => {
+    it('should record line ranges on sequence elements', () => {
+        const diagram = new SequenceParser().parse(SEQUENCE);
+        expect(diagram.messages.map(m => [m.sourceLine, m.sourceEnd])).toEqual([[2, 2], [5, 5]]);
+        // The declaration wins over the first use
+        expect(diagram.participants.map(p => [p.name, p.sourceLine])).toEqual([['Alice', 2], ['Bob', 3]]);
+        expect([diagram.groups[0].sourceLine, diagram.groups[0].sourceEnd]).toEqual([4, 6]);
+        expect([diagram.notes[0].sourceLine, diagram.notes[0].sourceEnd]).toEqual([7, 9]);
+    });
+
+    it('should record line ranges on component elements', () => {
+        const diagram = new ComponentParser().parse(COMPONENT);
+        const backend = diagram.findComponent('Backend')!;
+        expect([backend.sourceLine, backend.sourceEnd]).toEqual([2, 4]);
+        expect(diagram.findComponent('Api')!.sourceLine).toBe(3);
+        expect(diagram.findComponent('Web')!.sourceLine).toBe(5);
+        expect(diagram.relationships[0].sourceLine).toBe(5);
+        expect([diagram.notes[0].sourceLine, diagram.notes[0].sourceEnd]).toEqual([6, 8]);
+    });
+
+    it('should map preprocessed lines back to the source', () => {
+        const diagram = new SequenceParser().parse('!procedure $ping()\nA -> B: ping\n!endprocedure\n\n$ping()');
+        expect(diagram.messages[0].sourceLine).toBe(5);
+    });
+});
+
+describe('SVG source attributes', () => {
+    it('should annotate sequence groups', () => {
+        const svg = render(SEQUENCE);
+        expect(svg).toContain('<g data-element-id="participant-Bob" data-source-line="3" data-source-end="3">');
+        expect(svg).toContain('<g data-element-id="message-1" data-source-line="5" data-source-end="5">');
+        expect(svg).toContain('<g data-element-id="group-0" data-source-line="4" data-source-end="6">');
+        expect(svg).toContain('<g data-element-id="note-0" data-source-line="7" data-source-end="9">');
+    });
+
+    it('should annotate component groups', () => {
+        const svg = render(COMPONENT);
+        expect(svg).toContain('<g data-element-id="component-Backend" data-source-line="2" data-source-end="4">');
+        expect(svg).toContain('<g data-element-id="relationship-0" data-source-line="5" data-source-end="5">');
+        expect(svg).toContain('<g data-element-id="note-0" data-source-line="6" data-source-end="8">');
+    });
+
+    it('should escape element ids', () => {
+        const svg = render('participant "A <&> B" as X\nX -> X: self');
+        expect(svg).toContain('data-element-id="participant-X"');
+        expect(render('[Say "hi"] --> [B]')).toContain('data-element-id="component-Say &quot;hi&quot;"');
+    });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CanvasTextMeasurer, TableTextMeasurer, TextMeasurer, measureRichText, splitGraphemes, isWideCodePoint } from '../../src/core/TextMeasurer';
+import { parseRichTextRuns } from '../../src/core/RichText';
+import { SequenceParser } from '../../src/diagrams/sequence/SequenceParser';
+import { LayoutEngine } from '../../src/diagrams/sequence/SequenceLayout';
+import { defaultTheme } from '../../src/diagrams/sequence/SequenceTheme';
+import { ComponentParser } from '../../src/diagrams/component/ComponentParser';
+import { ComponentLayout } from '../../src/diagrams/component/ComponentLayout';
+import { defaultTheme as componentTheme } from '../../src/diagrams/component/ComponentTheme';
+import { render } from '../../src/index';
+
+describe('TableTextMeasurer', () => {
+    const measurer = new TableTextMeasurer();
+
+    it('should measure with per-glyph advance widths', () => {
+        // Helvetica: H=722 e=556 l=222 o=556
+        expect(measurer.measure('Hello', { fontSize: 10, fontFamily: 'Arial' })).toBeCloseTo(22.78);
+        expect(measurer.measure('iiii', { fontSize: 14 })).toBeLessThan(measurer.measure('WWWW', { fontSize: 14 }) / 3);
+    });
+
+    it('should use bold, serif and monospace tables', () => {
+        const regular = measurer.measure('Service', { fontSize: 14, fontFamily: 'sans-serif' });
+        expect(measurer.measure('Service', { fontSize: 14, fontFamily: 'sans-serif', bold: true })).toBeGreaterThan(regular);
+        expect(measurer.measure('Service', { fontSize: 14, fontFamily: 'Georgia, serif' })).not.toBeCloseTo(regular);
+        expect(measurer.measure('iiWW', { fontSize: 10, fontFamily: "'Courier New', monospace" })).toBeCloseTo(24);
+        expect(measurer.measure('iiWW', { fontSize: 10, monospace: true })).toBeCloseTo(24);
+    });
+});
+
+describe('Wide characters and graphemes', () => {
+    const measurer = new TableTextMeasurer();
+    const style = { fontSize: 10 };
+
+    it('should split grapheme clusters', () => {
+        expect(splitGraphemes('e\u0301a')).toEqual(['e\u0301', 'a']);
+        expect(splitGraphemes('👩‍💻!')).toEqual(['👩‍💻', '!']);
+        expect(splitGraphemes('👍🏽🇯🇵🇫🇷')).toEqual(['👍🏽', '🇯🇵', '🇫🇷']);
+        expect(splitGraphemes('한글')).toEqual(['한', '글']);
+    });
+
+    it('should classify East Asian wide code points', () => {
+        expect(isWideCodePoint('漢'.codePointAt(0)!)).toBe(true);
+        expect(isWideCodePoint('カ'.codePointAt(0)!)).toBe(true);
+        expect(isWideCodePoint('Ａ'.codePointAt(0)!)).toBe(true);
+        expect(isWideCodePoint('ｶ'.codePointAt(0)!)).toBe(false);
+        expect(isWideCodePoint('A'.codePointAt(0)!)).toBe(false);
+    });
+
+    it('should measure full-width characters and emoji as 1em', () => {
+        expect(measurer.measure('日本語', style)).toBeCloseTo(30);
+        expect(measurer.measure('ｶﾀｶﾅ', style)).toBeLessThan(measurer.measure('カタカナ', style));
+        expect(measurer.measure('🚀', style)).toBeCloseTo(10);
+        expect(measurer.measure('👨‍👩‍👧', style)).toBeCloseTo(10);
+        expect(measurer.measure('🇯🇵', style)).toBeCloseTo(10);
+    });
+
+    it('should not count combining marks', () => {
+        expect(measurer.measure('e\u0301', style)).toBeCloseTo(measurer.measure('e', style));
+        expect(measurer.measure('é', style)).toBeCloseTo(measurer.measure('e', style));
+        expect(measurer.measure('a\u200Bb', style)).toBeCloseTo(measurer.measure('ab', style));
+    });
+});
+
+describe('measureRichText', () => {
+    const measurer = new TableTextMeasurer();
+    const style = { fontSize: 12, fontFamily: 'sans-serif' };
+
+    it('should split markup into styled runs', () => {
+        expect(parseRichTextRuns('a <b>bold</b> and ""code""')).toEqual([
+            { text: 'a ', bold: false, italic: false, monospace: false },
+            { text: 'bold', bold: true, italic: false, monospace: false },
+            { text: ' and ', bold: false, italic: false, monospace: false },
+            { text: 'code', bold: false, italic: false, monospace: true },
+        ]);
+        // Unpaired markers are literal text
+        expect(parseRichTextRuns('a ** b')).toEqual([{ text: 'a ** b', bold: false, italic: false, monospace: false }]);
+    });
+
+    it('should not count markup and should measure bold runs as bold', () => {
+        expect(measureRichText(measurer, '**Api**', style)).toBeCloseTo(measurer.measure('Api', { ...style, bold: true }));
+        expect(measureRichText(measurer, '<i>x</i>', style)).toBeCloseTo(measurer.measure('x', style));
+    });
+
+    it('should return the widest line', () => {
+        expect(measureRichText(measurer, 'ab\nabcd\nabc', style)).toBeCloseTo(measurer.measure('abcd', style));
+        expect(measureRichText(measurer, '', style)).toBe(0);
+    });
+});
+
+describe('CanvasTextMeasurer', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should fall back to the width tables without a canvas', () => {
+        const style = { fontSize: 12 };
+        expect(new CanvasTextMeasurer().measure('Hello', style)).toBe(new TableTextMeasurer().measure('Hello', style));
+    });
+
+    it('should measure with canvas measureText and the CSS font', () => {
+        const fonts: string[] = [];
+        const context = {
+            font: '',
+            measureText(text: string) {
+                fonts.push(this.font);
+                return { width: text.length * 5 };
+            }
+        };
+        vi.stubGlobal('OffscreenCanvas', class {
+            getContext() { return context; }
+        });
+        const measurer = new CanvasTextMeasurer();
+        expect(measurer.measure('abc', { fontSize: 12, fontFamily: 'Inter', bold: true, italic: true })).toBe(15);
+        // Cached
+        expect(measurer.measure('abc', { fontSize: 12, fontFamily: 'Inter', bold: true, italic: true })).toBe(15);
+        expect(fonts).toEqual(['italic bold 12px Inter']);
+    });
+});
+
+describe('Layouts with text measurement', () => {
+    it('should size participants by their measured labels', () => {
+        const diagram = new SequenceParser().parse('participant "iiiiiiiiiiiiiiiiiiii" as A\nparticipant "WWWWWWWWWWWWWWWWWWWW" as B\nA -> B');
+        const layout = new LayoutEngine(defaultTheme).calculateLayout(diagram);
+        const [a, b] = layout.participants;
+        expect(a.width).toBe(defaultTheme.participantWidth);
+        expect(b.width).toBeGreaterThan(250);
+    });
+
+    it('should fit Japanese participant labels, messages and notes', () => {
+        const diagram = new SequenceParser().parse([
+            'participant "注文管理サービス" as A',
+            'participant "在庫" as B',
+            'A -> B: 在庫引当リクエストを送信する',
+            'note right of B: 引当に失敗した場合は再試行',
+        ].join('\n'));
+        const layout = new LayoutEngine(defaultTheme).calculateLayout(diagram);
+        const [a, b] = layout.participants;
+        // 8 bold ideographs at 14px
+        expect(a.width).toBeGreaterThanOrEqual(8 * 14);
+        // 14 ideographs at 12px fit between the lifelines
+        expect(b.centerX - a.centerX).toBeGreaterThanOrEqual(14 * 12);
+        expect(layout.notes[0].width).toBeGreaterThanOrEqual(12 * 14);
+    });
+
+    it('should size components by wide labels', () => {
+        const diagram = new ComponentParser().parse('[決済ゲートウェイ連携モジュール] as Pay\n[Pay2]');
+        const layout = new ComponentLayout(diagram, componentTheme).calculateLayout();
+        const pay = layout.components.find(c => c.component.name === 'Pay')!;
+        expect(pay.width).toBeGreaterThanOrEqual(14 * componentTheme.fontSize);
+    });
+
+    it('should use the measurer passed to render()', () => {
+        const wide: TextMeasurer = { measure: text => text.length * 40 };
+        const narrow = render('A -> B: hello');
+        const widened = render('A -> B: hello', { textMeasurer: wide });
+        const width = (svg: string) => Number(svg.match(/<svg width="([\d.]+)"/)![1]);
+        expect(width(widened)).toBeGreaterThan(width(narrow));
+    });
+});
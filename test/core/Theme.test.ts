@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { mergeTheme } from '../../src/core/Theme';
+import { defaultTheme as sequenceDefaultTheme, sequenceThemePresets } from '../../src/diagrams/sequence/SequenceTheme';
+import { defaultTheme as componentDefaultTheme, componentThemePresets } from '../../src/diagrams/component/ComponentTheme';
+import { SequenceRenderer } from '../../src/diagrams/sequence/SequenceRenderer';
+import { SequenceParser } from '../../src/diagrams/sequence/SequenceParser';
+import { ComponentParser } from '../../src/diagrams/component/ComponentParser';
+import { render, listThemes } from '../../src/index';
+
+describe('mergeTheme', () => {
+    it('should deep-merge overrides without touching the defaults', () => {
+        const theme = mergeTheme(sequenceDefaultTheme, { fontSize: 20, colors: { noteFill: '#abcdef' } });
+
+        expect(theme.fontSize).toBe(20);
+        expect(theme.colors.noteFill).toBe('#abcdef');
+        expect(theme.colors.defaultStroke).toBe(sequenceDefaultTheme.colors.defaultStroke);
+        expect(sequenceDefaultTheme.fontSize).toBe(14);
+        expect(sequenceDefaultTheme.colors.noteFill).toBe('#ffffcc');
+        expect(theme.colors).not.toBe(sequenceDefaultTheme.colors);
+    });
+
+    it('should apply several overrides in order and skip undefined values', () => {
+        const theme = mergeTheme(componentDefaultTheme, { fontSize: 10 }, undefined, { fontSize: 11, padding: undefined });
+        expect(theme.fontSize).toBe(11);
+        expect(theme.padding).toBe(componentDefaultTheme.padding);
+    });
+});
+
+describe('Theme injection', () => {
+    it('should pass the merged theme to the sequence layout engine', () => {
+        const diagram = new SequenceParser().parse('participant A');
+        const svg = new SequenceRenderer({ participantWidth: 300 }).render(diagram);
+        expect(svg).toContain('width="300" height="40"');
+    });
+
+    it('should apply theme overrides to sequence diagrams through render()', () => {
+        const svg = render('A -> B: hello\nnote over A: memo', {
+            theme: { fontFamily: 'Brand Sans', colors: { noteFill: '#123456' } }
+        });
+        expect(svg).toContain('font-family: Brand Sans');
+        expect(svg).toContain('fill="#123456"');
+        expect(svg).not.toContain('#ffffcc');
+    });
+
+    it('should apply theme overrides to component diagrams through render()', () => {
+        const svg = render('[Web] --> [Api]', {
+            theme: { fontFamily: 'Brand Sans', colors: { defaultFill: '#654321' } }
+        });
+        expect(svg).toContain('font-family="Brand Sans"');
+        expect(svg).toContain('fill="#654321"');
+    });
+
+    it('should not leak overrides into later renders', () => {
+        render('[Web] --> [Api]', { theme: { colors: { defaultFill: '#654321' } } });
+        expect(render('[Web] --> [Api]')).not.toContain('#654321');
+    });
+});
+
+describe('Named themes', () => {
+    it('should list the bundled presets', () => {
+        expect(listThemes()).toEqual(expect.arrayContaining(['dark', 'plain', 'blueprint']));
+    });
+
+    it('should apply !theme presets in sequence diagrams', () => {
+        const svg = render('!theme dark\nA -> B: hello\nnote over A: memo');
+        expect(svg).toContain(`background: ${sequenceThemePresets.dark.colors!.background}`);
+        expect(svg).toContain(`fill="${sequenceThemePresets.dark.colors!.noteFill}"`);
+        expect(svg).not.toContain('#ffffcc');
+        expect(svg).not.toContain('background: white');
+    });
+
+    it('should apply !theme presets in component diagrams', () => {
+        const svg = render('!theme blueprint\n[Web] --> [Api]');
+        expect(svg).toContain(`background: ${componentThemePresets.blueprint.colors!.background}`);
+        expect(svg).toContain(`fill="${componentThemePresets.blueprint.colors!.defaultFill}"`);
+        expect(svg).not.toMatch(/filter="url\(#[\w-]*comp-shadow\)"/);
+    });
+
+    it('should let skinparams override the preset', () => {
+        const diagram = new SequenceParser().parse('!theme plain\nskinparam NoteBackgroundColor #abcdef\nA -> B');
+        expect(diagram.themeOverrides.colors?.noteFill).toBe('#abcdef');
+        expect(diagram.themePreset.colors?.arrow).toBe('#000000');
+    });
+
+    it('should apply theme overrides from the API over a preset picked in the source', () => {
+        const options = { theme: { colors: { background: 'red' } } };
+        expect(render('!theme dark\nA -> B', options)).toContain('background: red');
+        expect(render('!theme dark\n[A] --> [B]', options)).toContain('background: red');
+        const skinned = render('!theme dark\nskinparam NoteBackgroundColor #123456\nnote over A: hi', { theme: { colors: { noteFill: '#ff0000' } } });
+        expect(skinned).toContain('#123456');
+        expect(skinned).not.toContain('#ff0000');
+    });
+
+    it('should warn about unknown themes', () => {
+        const result = new ComponentParser().parseWithDiagnostics('!theme neon\n[A] --> [B]');
+        expect(result.diagnostics).toMatchObject([{ severity: 'warning', line: 1, message: 'Unknown theme: neon' }]);
+    });
+
+    it('should not take Object.prototype members for themes', () => {
+        ['constructor', 'tostring', '__proto__'].forEach(name => {
+            const sequence = new SequenceParser().parseWithDiagnostics(`!theme ${name}\nA -> B`);
+            expect(sequence.diagnostics).toMatchObject([{ severity: 'warning', line: 1, message: `Unknown theme: ${name}` }]);
+            expect(sequence.diagram!.themePreset).toEqual({});
+            const component = new ComponentParser().parseWithDiagnostics(`!theme ${name}\n[A] --> [B]`);
+            expect(component.diagnostics).toMatchObject([{ severity: 'warning', line: 1, message: `Unknown theme: ${name}` }]);
+        });
+        expect(render('A -> B', { themeName: 'constructor' })).toContain('Unknown theme: constructor');
+    });
+
+    it('should select presets through the JS API', () => {
+        const svg = render('A -> B', { themeName: 'dark', theme: { colors: { arrow: '#ff00ff' } } });
+        expect(svg).toContain(`background: ${sequenceThemePresets.dark.colors!.background}`);
+        expect(svg).toContain('stroke="#ff00ff"');
+        expect(render('A -> B', { themeName: 'neon' })).toContain('Unknown theme: neon');
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { markdownItSeeduml } from '../../src/markdown/MarkdownItPlugin';
+import { remarkSeeduml } from '../../src/markdown/RemarkPlugin';
+import { MarkdownDiagramWarning } from '../../src/markdown/MarkdownDiagrams';
+import { render } from '../../src/index';
+
+/** A markdown-it instance reduced to its fence rule, rendering one fence token */
+function renderFenceToken(info: string, content: string, openingLine: number, options = {}) {
+    const md = { renderer: { rules: { fence: (tokens: any[], idx: number) => `<pre>${tokens[idx].content}</pre>` } as any } };
+    markdownItSeeduml(md, options);
+    const token = { info, content, map: [openingLine, openingLine + content.split('\n').length + 1] as [number, number] };
+    return md.renderer.rules.fence([token], 0, {}, {}, {});
+}
+
+describe('markdown-it plugin', () => {
+    it('should render plantuml and seeduml fences inline', () => {
+        expect(renderFenceToken('plantuml', 'A -> B\n', 0)).toBe(`<div class="seeduml-diagram">${render('A -> B\n')}</div>\n`);
+        expect(renderFenceToken('seeduml {.wide}', 'A -> B\n', 0)).toContain('<svg');
+        expect(renderFenceToken('js', 'let a;\n', 0)).toBe('<pre>let a;\n</pre>');
+    });
+
+    it('should render every @startuml block of a fence', () => {
+        const html = renderFenceToken('puml', '@startuml\nA -> B\n@enduml\n@startuml\n[Web] --> [Api]\n@enduml\n', 0);
+        expect(html.match(/<div class="seeduml-diagram"><svg/g)).toHaveLength(2);
+    });
+
+    it('should pass theme, safe mode and id prefix on', () => {
+        const html = renderFenceToken('plantuml', 'title <b>Safe</b>\nA -> B\n', 0, { themeName: 'dark', safe: true, idPrefix: 'docs' });
+        expect(html).toMatch(/id="docs-seeduml-[0-9a-z]+-title"/);
+        expect(html).toContain('&lt;b&gt;Safe&lt;/b&gt;');
+        expect(html).toBe(renderFenceToken('plantuml', 'title <b>Safe</b>\nA -> B\n', 0, { themeName: 'dark', safe: true, idPrefix: 'docs' }));
+    });
+
+    it('should emit images with data URIs', () => {
+        const html = renderFenceToken('plantuml', 'title Login\nA -> B\n', 0, { image: true });
+        expect(html).toMatch(/^<img class="seeduml-diagram" alt="Login" src="data:image\/svg\+xml;charset=utf-8,%3Csvg/);
+        const svg = decodeURIComponent(html.match(/charset=utf-8,([^"]+)"/)![1]);
+        expect(svg).toBe(render('title Login\nA -> B\n'));
+    });
+
+    it('should report errors with their document line', () => {
+        const warnings: MarkdownDiagramWarning[] = [];
+        // Fence opens on the third line; the bad statement is the fifth
+        renderFenceToken('plantuml', 'A -> B\nnot a statement\n', 2, { onWarning: (w: MarkdownDiagramWarning) => warnings.push(w) });
+        expect(warnings).toEqual([expect.objectContaining({ severity: 'error', line: 5, message: 'Syntax error: not a statement' })]);
+
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        renderFenceToken('plantuml', '@startuml\nA -> B\n@enduml\n@startuml\nbogus\n@enduml\n', 0);
+        expect(warn).toHaveBeenCalledWith('seeduml: line 6: Syntax error: bogus');
+        warn.mockRestore();
+    });
+});
+
+describe('remark plugin', () => {
+    it('should replace diagram code nodes with html and report warnings to the file', () => {
+        const tree = {
+            type: 'root',
+            children: [
+                { type: 'code', lang: 'plantuml', value: 'A -> B\noops', position: { start: { line: 3, column: 1 } } },
+                { type: 'code', lang: 'ts', value: 'let a;' },
+                { type: 'blockquote', children: [{ type: 'code', lang: 'seeduml', value: '[Web] --> [Api]' }] },
+            ]
+        };
+        const file = { message: vi.fn() };
+        remarkSeeduml()(tree, file);
+
+        expect(tree.children[0]).toEqual({ type: 'html', value: `<div class="seeduml-diagram">${render('A -> B\noops')}</div>`, position: { start: { line: 3, column: 1 } } });
+        expect(tree.children[1]).toEqual({ type: 'code', lang: 'ts', value: 'let a;' });
+        expect((tree.children[2] as any).children[0].type).toBe('html');
+        expect(file.message).toHaveBeenCalledWith('Syntax error: oops', { line: 5, column: 1 });
+    });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, existsSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli, parseCliArgs, CliIO, EXIT_OK, EXIT_FAILURE, EXIT_USAGE } from '../../src/node/cli';
+import { expandGlob, globToRegExp } from '../../src/node/Glob';
+import { extractSource } from '../../src/index';
+
+let dir: string;
+let out: string;
+let err: string;
+
+function io(stdin = '', signal?: AbortSignal): CliIO {
+    return {
+        cwd: dir,
+        readStdin: async () => stdin,
+        stdout: text => { out += text; },
+        stderr: text => { err += text; },
+        signal,
+    };
+}
+
+beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'seeduml-cli-'));
+    mkdirSync(join(dir, 'docs', 'api'), { recursive: true });
+    writeFileSync(join(dir, 'docs', 'login.puml'), '@startuml\nUser -> Api: login\n@enduml');
+    writeFileSync(join(dir, 'docs', 'api', 'flows.puml'), '@startuml\nA -> B: first\n@enduml\n@startuml second\nB -> C: second\n@enduml');
+    out = '';
+    err = '';
+});
+
+afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+});
+
+describe('Glob', () => {
+    it('should convert globs to regular expressions', () => {
+        expect(globToRegExp('**/*.puml').test('a/b/c.puml')).toBe(true);
+        expect(globToRegExp('**/*.puml').test('c.puml')).toBe(true);
+        expect(globToRegExp('*.puml').test('a/c.puml')).toBe(false);
+        expect(globToRegExp('*.{puml,iuml}').test('c.iuml')).toBe(true);
+        expect(globToRegExp('file?.txt').test('file1.txt')).toBe(true);
+    });
+
+    it('should expand globs relative to the working directory', () => {
+        expect(expandGlob('docs/**/*.puml', dir)).toEqual([join('docs', 'api', 'flows.puml'), join('docs', 'login.puml')]);
+        expect(expandGlob('docs/*.puml', dir)).toEqual([join('docs', 'login.puml')]);
+        expect(expandGlob('missing/*.puml', dir)).toEqual([]);
+    });
+});
+
+describe('seeduml CLI', () => {
+    it('should parse arguments', () => {
+        expect(parseCliArgs(['-o', 'out', '--theme', 'dark', 'a.puml'])).toMatchObject({ inputs: ['a.puml'], outDir: 'out', themeName: 'dark' });
+        expect(() => parseCliArgs(['--bogus'])).toThrow('Unknown option: --bogus');
+        expect(() => parseCliArgs(['--theme', 'nope', 'a.puml'])).toThrow('Unknown theme: nope');
+        expect(() => parseCliArgs(['-o'])).toThrow('-o needs a value');
+    });
+
+    it('should write SVGs next to the sources, one per block', async () => {
+        expect(await runCli(['docs/**/*.puml'], io())).toBe(EXIT_OK);
+        expect(readFileSync(join(dir, 'docs', 'login.svg'), 'utf8')).toContain('login');
+        expect(readFileSync(join(dir, 'docs', 'api', 'flows.svg'), 'utf8')).toContain('first');
+        expect(readFileSync(join(dir, 'docs', 'api', 'second.svg'), 'utf8')).toContain('second');
+        expect(err).toBe('');
+    });
+
+    it('should keep block names from leaving the output directory or overwriting each other', async () => {
+        writeFileSync(join(dir, 'docs', 'names.puml'), [
+            '@startuml ../../escaped', 'A -> B: up', '@enduml',
+            '@startuml my flow', 'A -> B: spaced', '@enduml',
+            '@startuml my flow', 'A -> B: again', '@enduml'
+        ].join('\n'));
+        expect(await runCli(['docs/names.puml', '-o', 'build'], io())).toBe(EXIT_OK);
+        expect(readFileSync(join(dir, 'build', 'names.svg'), 'utf8')).toContain('up');
+        expect(readFileSync(join(dir, 'build', 'my_flow.svg'), 'utf8')).toContain('spaced');
+        expect(readFileSync(join(dir, 'build', 'names_002.svg'), 'utf8')).toContain('again');
+        expect(existsSync(join(dir, 'escaped.svg'))).toBe(false);
+        expect(err).toBe([
+            'docs/names.puml:1:1: warning: Block name "../../escaped" not used, since it is not a usable file name; writing names.svg\n',
+            'docs/names.puml:7:1: warning: Block name "my flow" not used, since another block is already written to my_flow.svg; writing names_002.svg\n'
+        ].join(''));
+    });
+
+    it('should write into an output directory', async () => {
+        expect(await runCli(['docs/login.puml', '-o', 'build'], io())).toBe(EXIT_OK);
+        expect(existsSync(join(dir, 'build', 'login.svg'))).toBe(true);
+        expect(existsSync(join(dir, 'docs', 'login.svg'))).toBe(false);
+    });
+
+    it('should read stdin and write stdout', async () => {
+        expect(await runCli([], io('A -> B: piped'))).toBe(EXIT_OK);
+        expect(out).toMatch(/^<svg/);
+        expect(out).toContain('piped');
+    });
+
+    it('should embed sources with --embed-source', async () => {
+        expect(await runCli(['docs/login.puml', '--embed-source'], io())).toBe(EXIT_OK);
+        expect(extractSource(readFileSync(join(dir, 'docs', 'login.svg'), 'utf8'))).toBe('@startuml\nUser -> Api: login\n@enduml');
+    });
+
+    it('should exit with 1 and report diagnostics for broken diagrams', async () => {
+        writeFileSync(join(dir, 'broken.puml'), '@startuml\nA -> B\n!include missing.iuml\n@enduml');
+        expect(await runCli(['broken.puml'], io())).toBe(EXIT_FAILURE);
+        expect(err).toMatch(/^broken\.puml:3:1: error: .*missing\.iuml/);
+    });
+
+    it('should exit with 2 on usage errors', async () => {
+        expect(await runCli(['nothing.puml'], io())).toBe(EXIT_USAGE);
+        expect(err).toContain('File not found: nothing.puml');
+        expect(await runCli(['--check'], io())).toBe(EXIT_USAGE);
+        expect(await runCli(['-', 'docs/login.puml'], io('A -> B'))).toBe(EXIT_USAGE);
+        expect(err).toContain('"-" (stdin) cannot be combined with files');
+        expect(out).toBe('');
+        expect(existsSync(join(dir, 'docs', 'login.svg'))).toBe(false);
+    });
+
+    it('should detect stale SVGs with --check', async () => {
+        expect(await runCli(['docs/login.puml', '--check'], io())).toBe(EXIT_FAILURE);
+        expect(err).toContain('login.svg: missing');
+
+        await runCli(['docs/login.puml'], io());
+        err = '';
+        expect(await runCli(['docs/login.puml', '--check'], io())).toBe(EXIT_OK);
+
+        writeFileSync(join(dir, 'docs', 'login.puml'), '@startuml\nUser -> Api: logout\n@enduml');
+        expect(await runCli(['docs/login.puml', '--check'], io())).toBe(EXIT_FAILURE);
+        expect(err).toContain('login.svg: out of date');
+    });
+
+    it('should re-render changed sources and includes in watch mode', async () => {
+        writeFileSync(join(dir, 'shared.iuml'), 'participant Shared');
+        writeFileSync(join(dir, 'main.puml'), '@startuml\n!include shared.iuml\nShared -> B: one\n@enduml');
+        const controller = new AbortController();
+        const done = runCli(['main.puml', '--watch'], io('', controller.signal));
+
+        const rendered = async (text: string) => {
+            for (let i = 0; i < 100; i++) {
+                if (existsSync(join(dir, 'main.svg')) && readFileSync(join(dir, 'main.svg'), 'utf8').includes(text)) return true;
+                await new Promise(r => setTimeout(r, 20));
+            }
+            return false;
+        };
+
+        expect(await rendered('one')).toBe(true);
+        writeFileSync(join(dir, 'main.puml'), '@startuml\n!include shared.iuml\nShared -> B: two\n@enduml');
+        expect(await rendered('two')).toBe(true);
+        writeFileSync(join(dir, 'shared.iuml'), 'participant "Renamed" as Shared');
+        expect(await rendered('Renamed')).toBe(true);
+
+        controller.abort();
+        expect(await done).toBe(EXIT_OK);
+    });
+
+    it('should start the render server with serve', async () => {
+        const controller = new AbortController();
+        const done = runCli(['serve', '--port', '0'], io('', controller.signal));
+        for (let i = 0; i < 100 && !err.includes('listening'); i++) await new Promise(r => setTimeout(r, 10));
+        const url = err.match(/http:\/\/\S+/)![0];
+        expect((await fetch(`${url}/health`)).status).toBe(200);
+        controller.abort();
+        expect(await done).toBe(EXIT_OK);
+    });
+
+    it('should prerender HTML pages with prerender', async () => {
+        const page = '<p>Login</p>\n<pre class="seeduml">\nUser -> Api: login\n</pre>\n';
+        writeFileSync(join(dir, 'docs', 'index.html'), page);
+        expect(await runCli(['prerender', 'docs/*.html', '-o', 'site'], io())).toBe(EXIT_OK);
+        const html = readFileSync(join(dir, 'site', 'docs', 'index.html'), 'utf8');
+        expect(html).toMatch(/^<p>Login<\/p>\n<div class="seeduml-diagram"[^>]*><svg[\s\S]*login[\s\S]*<\/svg><\/div>\n$/);
+        expect(readFileSync(join(dir, 'docs', 'index.html'), 'utf8')).toBe(page);
+
+        expect(await runCli(['prerender', 'docs/index.html'], io())).toBe(EXIT_OK);
+        expect(readFileSync(join(dir, 'docs', 'index.html'), 'utf8')).toBe(html);
+
+        expect(await runCli(['prerender', '--selector', 'div.diagram'], io('<div class="diagram">A -> B</div>'))).toBe(EXIT_OK);
+        expect(out).toMatch(/^<div class="seeduml-diagram"[^>]*><svg/);
+    });
+
+    it('should reject prerender usage errors', async () => {
+        expect(() => parseCliArgs(['--selector', 'pre', 'a.puml'])).toThrow('--selector only applies to prerender');
+        expect(() => parseCliArgs(['prerender', '--watch', 'a.html'])).toThrow('prerender --watch needs --out-dir');
+        writeFileSync(join(dir, 'page.html'), '<pre>A -> B</pre>');
+        expect(await runCli(['prerender', '--selector', 'main > pre', 'page.html'], io())).toBe(EXIT_USAGE);
+        expect(err).toContain('Unsupported selector: main > pre');
+    });
+
+    it('should format sources in place, and list unformatted ones with format --check', async () => {
+        expect(await runCli(['format', '--check', 'docs/**/*.puml'], io())).toBe(EXIT_FAILURE);
+        expect(err).toBe('docs/api/flows.puml: needs formatting\ndocs/login.puml: needs formatting\n');
+
+        expect(await runCli(['format', 'docs/**/*.puml'], io())).toBe(EXIT_OK);
+        expect(readFileSync(join(dir, 'docs', 'login.puml'), 'utf8')).toBe('@startuml\nUser -> Api: login\n@enduml\n');
+        expect(await runCli(['format', '--check', 'docs/**/*.puml'], io())).toBe(EXIT_OK);
+
+        expect(await runCli(['format'], io('@startuml\nalt ok\nA->B\nend\n@enduml'))).toBe(EXIT_OK);
+        expect(out).toBe('@startuml\nalt ok\n    A -> B\nend\n@enduml\n');
+        expect(() => parseCliArgs(['format', '--watch', 'a.puml'])).toThrow('do not apply to format');
+    });
+});
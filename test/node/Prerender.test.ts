@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { prerenderHtml, parseSimpleSelectors } from '../../src/node/prerender';
+import { blockRenderOptions, render } from '../../src/index';
+
+describe('prerenderHtml', () => {
+    it('should replace diagram blocks with the markup renderAll creates', () => {
+        const result = prerenderHtml('<h1>Flow</h1>\n<pre class="seeduml">A -> B: hello</pre>\n<pre>A -> B</pre>');
+        expect(result.count).toBe(1);
+        expect(result.html).toBe(`<h1>Flow</h1>\n<div class="seeduml-diagram" style="display: inline-block;">${render('A -> B: hello')}</div>\n<pre>A -> B</pre>`);
+    });
+
+    it('should render each named block of an element separately', () => {
+        const { html } = prerenderHtml('<pre class="seeduml">@startuml one\nA -> B\n@enduml\n@startuml two\nB -> C\n@enduml</pre>');
+        expect(html.match(/<div class="seeduml-diagram"/g)).toHaveLength(2);
+        expect(html).toContain('data-name="one"');
+        expect(html).toContain('data-name="two"');
+    });
+
+    it('should give each diagram its own ids under a shared id prefix', () => {
+        const { html } = prerenderHtml('<pre class="seeduml">A -> B</pre><pre class="seeduml">A -> C</pre>', { idPrefix: 'page' });
+        const ids = [...html.matchAll(/\sid="([^"]+)"/g)].map(m => m[1]);
+        ids.forEach(id => expect(id.startsWith('page-seeduml-')).toBe(true));
+        expect(new Set(ids).size).toBe(ids.length);
+
+        const options = { idPrefix: 'page', theme: { colors: { arrow: '#f00' } } };
+        expect(prerenderHtml('<pre class="seeduml">A -> B</pre>', options).html).toContain(render('A -> B', blockRenderOptions('A -> B', options)));
+    });
+
+    it('should decode entities and ignore the newline after <pre>', () => {
+        const { html } = prerenderHtml('<pre class="seeduml">\nA -&gt; B: a &amp; b &#x263A;\n</pre>');
+        expect(html).toBe(`<div class="seeduml-diagram" style="display: inline-block;">${render('A -> B: a & b ☺\n')}</div>`);
+    });
+
+    it('should replace references to invalid code points', () => {
+        const { html } = prerenderHtml('<p title="&#x110000;">x</p><pre class="seeduml">A -> B: &#x110000;&#xD800;&#0;</pre>');
+        expect(html).toBe(`<p title="&#x110000;">x</p><div class="seeduml-diagram" style="display: inline-block;">${render('A -> B: \ufffd\ufffd\ufffd')}</div>`);
+        expect(prerenderHtml('<pre class="&#99999999999;">A -> B</pre>', { selector: '.x' }).count).toBe(0);
+    });
+
+    it('should skip comments and raw text elements', () => {
+        const page = '<!-- <pre class="seeduml">A -> B</pre> -->\n<script>const s = "<pre class=\\"seeduml\\">";</script>\n<textarea><pre class="seeduml"></textarea>';
+        expect(prerenderHtml(page)).toEqual({ html: page, count: 0, diagnostics: [] });
+    });
+
+    it('should match selector lists by tag, class and id', () => {
+        const page = '<div class="uml big">A -> B</div><div id="main">B -> C</div><div class="big">C -> D</div>';
+        const { html, count } = prerenderHtml(page, { selector: 'div.uml.big, #main' });
+        expect(count).toBe(2);
+        expect(html).toMatch(/<\/div><div class="big">C -> D<\/div>$/);
+        expect(parseSimpleSelectors('pre.seeduml, *#a')).toEqual([
+            { tag: 'pre', classes: ['seeduml'], id: undefined },
+            { tag: undefined, classes: [], id: 'a' }
+        ]);
+        expect(() => prerenderHtml(page, { selector: 'div > pre' })).toThrow('Unsupported selector: div > pre');
+        expect(() => prerenderHtml(page, { selector: 'pre[lang]' })).toThrow('Unsupported selector: pre[lang]');
+    });
+
+    it('should report diagnostics with lines of the HTML document', () => {
+        const { diagnostics } = prerenderHtml('<html>\n<body>\n<pre class="seeduml">\n@startuml\nA -> B\n!include missing.iuml\n@enduml\n</pre>');
+        expect(diagnostics.filter(d => d.severity === 'error').map(d => d.line)).toEqual([6]);
+    });
+
+    it('should produce the same output for the same input', () => {
+        const page = '<pre class="seeduml">participant A\nA -> B: once\nnote left: n\n</pre>';
+        expect(prerenderHtml(page).html).toBe(prerenderHtml(page).html);
+    });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { brotliCompressSync, deflateRawSync, deflateSync } from 'zlib';
+import { createRenderServer } from '../../src/node/server';
+import { LruCache } from '../../src/node/LruCache';
+
+const ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_';
+
+// Reference encoder, as used by PlantUML clients
+function encode(bytes: Buffer): string {
+    let result = '';
+    for (let i = 0; i < bytes.length; i += 3) {
+        const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+        result += ALPHABET[(n >> 18) & 63] + ALPHABET[(n >> 12) & 63] + ALPHABET[(n >> 6) & 63] + ALPHABET[n & 63];
+    }
+    return result;
+}
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+    server = createRenderServer({ cacheSize: 2 });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+});
+
+describe('LruCache', () => {
+    it('should evict the least recently used entry', () => {
+        const cache = new LruCache<string, number>(2);
+        cache.set('a', 1);
+        cache.set('b', 2);
+        cache.get('a');
+        cache.set('c', 3);
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.get('a')).toBe(1);
+        expect(cache.get('c')).toBe(3);
+        expect([cache.hits, cache.misses, cache.size]).toEqual([3, 1, 2]);
+    });
+});
+
+describe('Render server', () => {
+    it('should render GET /svg/{encoded} with deflate encoding', async () => {
+        const source = '@startuml\nAlice -> Bob: héllo\n@enduml';
+        const res = await fetch(`${base}/svg/${encode(deflateRawSync(Buffer.from(source)))}`);
+        expect(res.status).toBe(200);
+        expect(res.headers.get('content-type')).toContain('image/svg+xml');
+        const svg = await res.text();
+        expect(svg).toMatch(/^<svg/);
+        expect(svg).toContain('héllo');
+    });
+
+    it('should accept ~h hex, ~1 brotli and zlib-wrapped encodings', async () => {
+        const source = 'A -> B: hex';
+        const hex = await fetch(`${base}/svg/~h${Buffer.from(source).toString('hex')}`);
+        expect(await hex.text()).toContain('hex');
+        const brotli = await fetch(`${base}/svg/~1${encode(brotliCompressSync(Buffer.from('A -> B: brotli')))}`);
+        expect(await brotli.text()).toContain('brotli');
+        const zlib = await fetch(`${base}/svg/${encode(deflateSync(Buffer.from('A -> B: zlib')))}`);
+        expect(await zlib.text()).toContain('zlib');
+    });
+
+    it('should render POST /svg bodies', async () => {
+        const res = await fetch(`${base}/svg`, { method: 'POST', body: 'A -> B: posted' });
+        expect(res.status).toBe(200);
+        expect(await res.text()).toContain('posted');
+    });
+
+    it('should serve /uml/{encoded} as a page with the source', async () => {
+        const res = await fetch(`${base}/uml/~h${Buffer.from('A -> B: <page>').toString('hex')}`);
+        expect(res.headers.get('content-type')).toContain('text/html');
+        const html = await res.text();
+        expect(html).toContain('<svg');
+        expect(html).toContain('A -&gt; B: &lt;page&gt;');
+    });
+
+    it('should report diagram errors like the PlantUML server', async () => {
+        const res = await fetch(`${base}/svg`, { method: 'POST', body: 'participant A\nthis is wrong' });
+        expect(res.status).toBe(400);
+        expect(res.headers.get('x-plantuml-diagram-error-line')).toBe('2');
+        expect(await res.text()).toMatch(/^<svg/);
+    });
+
+    it('should render in safe mode unless told otherwise', async () => {
+        const source = 'title <script>alert(1)</script>\nA -> B: [[javascript:alert(1) go]]';
+        const svg = await (await fetch(`${base}/svg/${encode(deflateRawSync(Buffer.from(source)))}`)).text();
+        expect(svg).not.toContain('<script>');
+        expect(svg).not.toContain('javascript:');
+        expect(svg).toContain('&lt;script&gt;');
+
+        const unsafe = createRenderServer({ renderOptions: { safe: false } });
+        await new Promise<void>(resolve => unsafe.listen(0, '127.0.0.1', resolve));
+        try {
+            const port = (unsafe.address() as AddressInfo).port;
+            expect(await (await fetch(`http://127.0.0.1:${port}/svg/${encode(deflateRawSync(Buffer.from(source)))}`)).text()).toContain('<script>');
+        } finally {
+            await new Promise(resolve => unsafe.close(resolve));
+        }
+    });
+
+    it('should reject bad encodings and unknown routes', async () => {
+        expect((await fetch(`${base}/svg/not*valid`)).status).toBe(400);
+        expect((await fetch(`${base}/svg/~hzz`)).status).toBe(400);
+        expect((await fetch(`${base}/png/abc`)).status).toBe(404);
+        expect((await fetch(`${base}/svg`, { method: 'DELETE' })).status).toBe(405);
+    });
+
+    it('should stop inflating deflate texts past the body size limit', async () => {
+        const bomb = deflateRawSync(Buffer.alloc(2 * 1024 * 1024, 'A'));
+        const res = await fetch(`${base}/svg/${encode(bomb)}`);
+        expect(res.status).toBe(413);
+        expect(await res.text()).toBe('Diagram source is too large');
+    });
+
+    it('should stop decompressing ~1 brotli texts past the body size limit', async () => {
+        const bomb = brotliCompressSync(Buffer.alloc(16 * 1024 * 1024, 'A'));
+        expect(bomb.length).toBeLessThan(1000);
+        const res = await fetch(`${base}/svg/~1${encode(bomb)}`);
+        expect(res.status).toBe(413);
+        expect(await res.text()).toBe('Diagram source is too large');
+    });
+
+    it('should serve repeated diagrams from the cache, with ETags', async () => {
+        const before = await (await fetch(`${base}/health`)).json();
+        const first = await fetch(`${base}/svg`, { method: 'POST', body: 'A -> B: cached' });
+        const etag = first.headers.get('etag')!;
+        await fetch(`${base}/svg`, { method: 'POST', body: 'A -> B: cached' });
+        const health = await (await fetch(`${base}/health`)).json();
+        expect(health.status).toBe('ok');
+        expect(health.cache.hits).toBe(before.cache.hits + 1);
+        expect(health.cache.size).toBeLessThanOrEqual(2);
+
+        const notModified = await fetch(`${base}/svg`, { method: 'POST', body: 'A -> B: cached', headers: { 'If-None-Match': etag } });
+        expect(notModified.status).toBe(304);
+    });
+});